@@ -1,10 +1,26 @@
 import { parseArgs } from "util";
-import { listSessions, killSession } from "./lib/tmux";
-import { readSessionMeta, buildSessionMetaMap, markSessionDone } from "./lib/sessions";
-import { readJsonlTail, expandHome } from "./lib/jsonl";
+import { listSessions, killSession, launchAgentSession } from "./lib/tmux";
+import { readSessionMeta, buildSessionMetaMap, markSessionDone, appendSessionMeta, makePromptPreview } from "./lib/sessions";
+import { expandHome, warnQuarantined } from "./lib/jsonl";
 import { formatHookPayload } from "./lib/hooks";
-import { DEFAULT_HOOKS_PORT, DEFAULT_DATA_DIR } from "./lib/types";
-import type { HookEntry, SessionMetaEntry } from "./lib/types";
+import { importJsonlToSqlite, openStorage, parseHookSearch, searchHooks, type HookPage } from "./lib/storage";
+import { getConfigFile, loadStorageBackend } from "./lib/config";
+import { readSessionHooks, getSessionAliases } from "./lib/correlate";
+import { removeWorktree, worktreeHasChanges } from "./lib/worktree";
+import { collectComparison, renderCompareTable, renderCompareMarkdown, renderCompareHtml } from "./lib/compare";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { readEventStream, type WatchEvent } from "./lib/events";
+import { loadRun } from "./lib/runs";
+import { getDefaultPlanFile, loadPlanFromFile } from "./lib/plan";
+import { loadAgentRegistry, resolveAgentName } from "./lib/agents";
+import { createSessionName } from "./lib/ids";
+import { buildResolvePrompt, formatMergeSteps, integrationBranchName, mergePlanBranches, planMergeSteps } from "./lib/merge";
+import { findReviews, formatReview } from "./lib/review";
+import { getTemplatesDir, listTemplates } from "./lib/templates";
+import { GRAPH_FORMATS, parseGraphFormat, renderPlanGraph, taskStatusesFromSessions } from "./lib/graph";
+import { DEFAULT_HOOKS_PORT, DEFAULT_DATA_DIR, DEFAULT_SESSION_PREFIX } from "./lib/types";
+import type { HookEntry, OrchestrationPlan, OrchestrationRun, SessionMetaEntry } from "./lib/types";
 
 const USAGE = `agentwatch-ctl - CLI for agentwatch operations
 
@@ -13,10 +29,26 @@ Usage:
 
 Commands:
   sessions [--filter PREFIX] [--json]     List sessions with metadata
-  session <name> [--json]                 Get single session detail
+  session <name> [--limit N] [--json]     Get single session detail and its hooks
   done <name>                             Mark session done
   kill <name>                             Kill session
-  hooks [--limit N] [--event TYPE] [--json]  List recent hooks
+  compare <tag|launch-id> [--format table|md|html] [--output FILE] [--json]
+                                          Compare sessions launched together
+  cleanup [name] [--delete-branch] [--force] [--dry-run]
+                                          Remove worktrees of done or killed sessions
+  hooks [--limit N] [--event TYPE[,TYPE]] [--json]  List recent hooks
+        [--since T] [--until T] [--tool NAME] [--session-id ID] [--cwd DIR] [--tag TAG]
+        [--search TEXT] [--cursor C]      Search hooks (T: ISO time or 30m/12h/7d ago)
+        [--follow] [--filter PREFIX]      Stream new hooks from the hooks server
+  events [--type T] [--event E] [--filter PREFIX] [--json]
+                                          Stream hook and session events (GET /events)
+  plan graph <plan-id|file> [--format mermaid|dot] [--output FILE]
+                                          Draw a plan's dependency graph, colored by task status
+  plan merge <plan-id> [--resolve AGENT] [--commit] [--dry-run]
+                                          Merge the tasks' worktree branches into awm/merge-<plan-id>
+  review <plan-id|tag|launch-id> [--json] Show reviewer verdicts (launch/orchestrate --review)
+  templates [--json]                      List plan templates and their parameters
+  import [--json]                         Copy hooks.jsonl and sessions.jsonl into the SQLite store
 
 Options:
   -d, --data-dir PATH   Data directory (default: ${DEFAULT_DATA_DIR})
@@ -31,7 +63,17 @@ Examples:
   bun run ctl.ts session awm_abc123
   bun run ctl.ts done awm_abc123
   bun run ctl.ts kill awm_abc123
+  bun run ctl.ts compare auth-fix --format html --output report.html
+  bun run ctl.ts cleanup --dry-run
   bun run ctl.ts hooks --limit 20 --event PostToolUse
+  bun run ctl.ts hooks --since 1d --tool Bash --cwd ~/src/app --search "npm test"
+  bun run ctl.ts hooks --follow --filter awm
+  bun run ctl.ts events --type session --event created,killed
+  bun run ctl.ts plan graph plan_m1abc23_x7k9p2q4 --format dot --output plan.dot
+  bun run ctl.ts plan merge plan_m1abc23_x7k9p2q4 --resolve claude
+  bun run ctl.ts review auth-fix
+  bun run ctl.ts templates
+  bun run ctl.ts import
 `;
 
 type SessionListItem = {
@@ -110,13 +152,14 @@ function formatAge(timestamp: number): string {
 }
 
 async function cmdSession(name: string, options: {
+  limit: number;
   json: boolean;
   dataDir: string;
   http: boolean;
   port: number;
 }): Promise<void> {
   if (options.http) {
-    const url = `http://localhost:${options.port}/sessions/${encodeURIComponent(name)}`;
+    const url = `http://localhost:${options.port}/sessions/${encodeURIComponent(name)}?hooks=${options.limit}`;
     const res = await fetch(url);
     const data = await res.json();
     if (options.json) {
@@ -139,6 +182,7 @@ async function cmdSession(name: string, options: {
 
   const entries = await readSessionMeta(options.dataDir).catch(() => []);
   const metaMap = buildSessionMetaMap(entries);
+  const hooks = await readSessionHooks(options.dataDir, session.name, entries, options.limit).catch(() => []);
 
   const result = {
     name: session.name,
@@ -148,6 +192,7 @@ async function cmdSession(name: string, options: {
     activity: session.activity,
     windowList: session.windowList,
     meta: metaMap.get(session.name) ?? null,
+    hooks,
   };
 
   if (options.json) {
@@ -157,7 +202,7 @@ async function cmdSession(name: string, options: {
   }
 }
 
-function printSessionDetail(session: SessionListItem & { windowList?: unknown[] }): void {
+function printSessionDetail(session: SessionListItem & { windowList?: unknown[]; hooks?: HookEntry[] }): void {
   const attached = session.attached ? "● attached" : "○ detached";
   console.log(`Session: ${session.name}`);
   console.log(`Status: ${attached}`);
@@ -172,6 +217,17 @@ function printSessionDetail(session: SessionListItem & { windowList?: unknown[]
     if (session.meta.cwd) console.log(`  CWD: ${session.meta.cwd}`);
     if (session.meta.tag) console.log(`  Tag: ${session.meta.tag}`);
     if (session.meta.promptPreview) console.log(`  Prompt: ${session.meta.promptPreview}`);
+    if (session.meta.agentSessionId) console.log(`  Agent session: ${session.meta.agentSessionId}`);
+    if (session.meta.transcriptPath) console.log(`  Transcript: ${session.meta.transcriptPath}`);
+    if (session.meta.worktree) {
+      console.log(`  Worktree: ${session.meta.worktree.path}`);
+      console.log(`  Branch: ${session.meta.worktree.branch} (from ${session.meta.worktree.baseRef.slice(0, 8)})`);
+    }
+  }
+
+  if (session.hooks) {
+    console.log(`\nHooks:`);
+    printHooks(session.hooks);
   }
 }
 
@@ -208,6 +264,7 @@ async function cmdDone(name: string, options: {
     console.error(`Error: Failed to mark session done`);
     process.exit(1);
   }
+  warnQuarantined(result.quarantined);
 
   console.log(`Marked done: ${name} → ${result.newName}`);
 }
@@ -237,41 +294,344 @@ async function cmdKill(name: string, options: {
   console.log(`Killed: ${name}`);
 }
 
-async function cmdHooks(options: {
-  limit: number;
-  event?: string;
+const COMPARE_FORMATS = ["table", "md", "html"] as const;
+
+async function cmdCompare(key: string, options: {
+  format: string;
+  output?: string;
   json: boolean;
   dataDir: string;
-  http: boolean;
-  port: number;
 }): Promise<void> {
-  if (options.http) {
-    const params = new URLSearchParams();
-    params.set("limit", String(options.limit));
-    if (options.event) params.set("event", options.event);
-    const url = `http://localhost:${options.port}/hooks/recent?${params}`;
-    const res = await fetch(url);
-    const data = await res.json() as { ok: boolean; hooks: HookEntry[]; total: number };
+  const format = options.format as (typeof COMPARE_FORMATS)[number];
+  if (!COMPARE_FORMATS.includes(format)) {
+    console.error(`Error: --format must be one of: ${COMPARE_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  const report = await collectComparison(options.dataDir, key);
+  if (report.rows.length === 0) {
+    console.error(`Error: No sessions found with tag or launch id "${key}"`);
+    process.exit(1);
+  }
+
+  let output: string;
+  if (options.json) {
+    output = JSON.stringify({ ok: true, report }, null, 2) + "\n";
+  } else if (format === "md") {
+    output = renderCompareMarkdown(report);
+  } else if (format === "html") {
+    output = renderCompareHtml(report);
+  } else {
+    output = renderCompareTable(report);
+  }
+
+  if (options.output) {
+    await Bun.write(expandHome(options.output), output);
+    console.log(`Wrote ${options.output}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+/** A plan from its run state, a plan saved by the plan editor, or a plan file */
+async function loadPlanRef(planRef: string, dataDir: string): Promise<{ plan: OrchestrationPlan; run?: OrchestrationRun }> {
+  const run = await loadRun(dataDir, planRef);
+  if (run) return { plan: run.plan, run };
+  const planFile = [getDefaultPlanFile(dataDir, planRef), planRef].map(expandHome).find((path) => existsSync(path));
+  if (!planFile) {
+    console.error(`Error: No run state or saved plan for "${planRef}"`);
+    process.exit(1);
+  }
+  return { plan: await loadPlanFromFile(planFile, "", await loadAgentRegistry(dataDir)) };
+}
+
+/** Render a plan as Mermaid or Graphviz; once it has run, nodes show task status */
+async function cmdPlanGraph(planRef: string, options: {
+  format: string;
+  output?: string;
+  json: boolean;
+  dataDir: string;
+}): Promise<void> {
+  const format = parseGraphFormat(options.format);
+  if (!format) {
+    console.error(`Error: --format must be one of: ${GRAPH_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  const { plan, run } = await loadPlanRef(planRef, options.dataDir);
+  const metaEntries = await readSessionMeta(options.dataDir);
+  const launched = run !== undefined || metaEntries.some((entry) => entry.planId === plan.id);
+  const statuses = launched
+    ? taskStatusesFromSessions(plan, metaEntries, new Set((await listSessions()).map((s) => s.name)), run)
+    : undefined;
+  const graph = renderPlanGraph(plan, format, statuses);
+
+  const output = options.json
+    ? JSON.stringify({ ok: true, planId: plan.id, format, graph, statuses }, null, 2) + "\n"
+    : graph;
+  if (options.output) {
+    await Bun.write(expandHome(options.output), output);
+    console.log(`Wrote ${options.output}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+/**
+ * Merge the worktree branches of a plan's tasks into its integration branch. At a
+ * conflict, --resolve launches an agent in the integration worktree to fix it; running
+ * the command again concludes that merge and continues with the remaining branches.
+ */
+async function cmdPlanMerge(planRef: string, options: {
+  resolve?: string;
+  commit: boolean;
+  dryRun: boolean;
+  json: boolean;
+  dataDir: string;
+}): Promise<void> {
+  const registry = await loadAgentRegistry(options.dataDir);
+  const resolver = options.resolve !== undefined ? resolveAgentName(options.resolve, registry) : undefined;
+  if (options.resolve !== undefined && !resolver) {
+    console.error(`Error: Unknown --resolve agent "${options.resolve}" (available: ${Object.keys(registry).join(", ")})`);
+    process.exit(1);
+  }
+
+  const { plan, run } = await loadPlanRef(planRef, options.dataDir);
+  const steps = planMergeSteps(plan, await readSessionMeta(options.dataDir).catch(() => []), run);
+  const branch = integrationBranchName(plan.id);
+
+  if (options.dryRun) {
     if (options.json) {
-      console.log(JSON.stringify(data, null, 2));
-    } else {
-      printHooks(data.hooks);
+      console.log(JSON.stringify({ ok: true, planId: plan.id, branch, steps }, null, 2));
+      return;
     }
+    console.log(`Would merge into ${branch}:`);
+    for (const line of formatMergeSteps(steps)) console.log(line);
     return;
   }
 
-  const hooksFile = `${expandHome(options.dataDir)}/hooks.jsonl`;
-  let hooks = await readJsonlTail<HookEntry>(hooksFile, options.limit * 2).catch(() => []);
-  if (options.event) {
-    hooks = hooks.filter((h) => h.event === options.event);
+  if (!steps.some((step) => step.status === "pending")) {
+    console.error(`Error: No task branches to merge for plan ${plan.id} (tasks need to complete in --worktree sessions)`);
+    for (const line of formatMergeSteps(steps)) console.error(line);
+    process.exit(1);
+  }
+
+  const result = await mergePlanBranches(plan, steps, { dataDir: options.dataDir, commitChanges: options.commit });
+  const conflict = result.steps.find((step) => step.status === "conflict");
+
+  // Only a new conflict gets a resolver; an unresolved one already has its session
+  let resolverSession: string | undefined;
+  if (conflict && resolver && !result.resumed) {
+    resolverSession = createSessionName(DEFAULT_SESSION_PREFIX, `${resolver}-merge`);
+    const prompt = buildResolvePrompt(plan, result);
+    await launchAgentSession(registry[resolver], prompt, resolverSession, result.path);
+    const { quarantined } = await appendSessionMeta(options.dataDir, {
+      sessionName: resolverSession,
+      agent: resolver,
+      promptPreview: makePromptPreview(prompt),
+      cwd: result.path,
+      planId: plan.id,
+      source: "merge",
+    });
+    warnQuarantined(quarantined);
   }
-  hooks = hooks.slice(-options.limit);
 
   if (options.json) {
-    console.log(JSON.stringify({ ok: true, hooks, total: hooks.length }, null, 2));
+    const { conflictDiff, ...report } = result;
+    console.log(JSON.stringify({ ok: !conflict, planId: plan.id, ...report, resolverSession }, null, 2));
+    if (conflict) process.exit(1);
+    return;
+  }
+
+  console.log(`Merging plan ${plan.id} into ${result.branch} (${result.path}):`);
+  for (const line of formatMergeSteps(result.steps)) console.log(line);
+  if (!conflict) {
+    if (!result.steps.some((step) => step.status === "merged" || step.status === "up-to-date")) {
+      console.error("\nNothing was merged");
+      process.exit(1);
+    }
+    console.log(`\nDone. Check out ${result.branch} or inspect ${result.path}`);
+    return;
+  }
+
+  console.log();
+  if (resolverSession) {
+    console.log(`Launched ${resolverSession} to resolve the conflict: tmux attach -t ${resolverSession}`);
   } else {
-    printHooks(hooks);
+    console.log(`Resolve the conflict in ${result.path} (or pass --resolve AGENT)${result.resumed ? "" : ":"}`);
+    if (!result.resumed) console.log(result.conflictDiff);
   }
+  console.log(`Then run again to finish the merge: bun run ctl.ts plan merge ${plan.id}`);
+  process.exit(1);
+}
+
+async function cmdTemplates(options: { json: boolean; dataDir: string }): Promise<void> {
+  const templates = await listTemplates(options.dataDir);
+
+  if (options.json) {
+    // The plan itself is left out; it is in the template file
+    const items = templates.map((template) => {
+      if ("error" in template) return template;
+      const { input: _input, ...summary } = template;
+      return summary;
+    });
+    console.log(JSON.stringify({ ok: true, templates: items }, null, 2));
+    return;
+  }
+  if (templates.length === 0) {
+    console.log(`No templates in ${getTemplatesDir(options.dataDir)}`);
+    return;
+  }
+  for (const template of templates) {
+    if ("error" in template) {
+      console.log(`${template.name}  (invalid: ${template.error})`);
+      continue;
+    }
+    console.log(`${template.name}${template.description ? ` - ${template.description}` : ""}`);
+    for (const param of template.params) {
+      const usage = param.required ? "required" : `default: ${JSON.stringify(param.default)}`;
+      console.log(`  ${param.name} (${usage})${param.description ? ` ${param.description}` : ""}`);
+    }
+  }
+}
+
+async function cmdImport(options: { json: boolean; dataDir: string }): Promise<void> {
+  let result: Awaited<ReturnType<typeof importJsonlToSqlite>>;
+  try {
+    result = await importJsonlToSqlite(options.dataDir);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ ok: true, ...result }, null, 2));
+    return;
+  }
+  const line = (label: string, counts: { read: number; added: number }) =>
+    `  ${label}: ${counts.added} imported${counts.read > counts.added ? `, ${counts.read - counts.added} already present` : ""}`;
+  console.log(`Imported into ${result.file}`);
+  console.log(line("hooks", result.hooks));
+  console.log(line("session entries", result.sessions));
+  if (await loadStorageBackend(options.dataDir).catch(() => "jsonl") !== "sqlite") {
+    console.log(`Set "storage": "sqlite" in ${getConfigFile(options.dataDir)} to use it`);
+  }
+}
+
+async function cmdReview(key: string, options: { json: boolean; dataDir: string }): Promise<void> {
+  const entries = await readSessionMeta(options.dataDir).catch(() => []);
+  const reviews = findReviews(entries, key);
+
+  if (options.json) {
+    const verdicts = reviews.map((entry) => ({ ...entry.review, planId: entry.planId, launchId: entry.launchId, tag: entry.tag }));
+    console.log(JSON.stringify({ ok: true, reviews: verdicts }, null, 2));
+    return;
+  }
+  if (reviews.length === 0) {
+    console.error(`Error: No review found for "${key}" (run launch.ts or orchestrate.ts with --review)`);
+    process.exit(1);
+  }
+  reviews.forEach((entry, i) => {
+    if (i > 0) console.log();
+    for (const line of formatReview(entry.review!)) {
+      console.log(line);
+    }
+  });
+}
+
+async function cmdCleanup(name: string | undefined, options: {
+  deleteBranch: boolean;
+  force: boolean;
+  dryRun: boolean;
+  dataDir: string;
+}): Promise<void> {
+  const entries = await readSessionMeta(options.dataDir).catch(() => []);
+  const live = new Set((await listSessions()).map((s) => s.name));
+
+  // Latest entry per worktree (a session marked done has entries under both names)
+  const byPath = new Map<string, SessionMetaEntry>();
+  for (const entry of entries) {
+    if (entry.worktree) byPath.set(entry.worktree.path, entry);
+  }
+
+  const aliases = name ? getSessionAliases(name, entries) : undefined;
+  const targets = Array.from(byPath.values()).filter((entry) =>
+    (!aliases || aliases.includes(entry.sessionName)) &&
+    (existsSync(entry.worktree!.path) || options.deleteBranch)
+  );
+
+  if (name && targets.length === 0) {
+    console.error(`Error: No worktree recorded for session "${name}"`);
+    process.exit(1);
+  }
+
+  let cleaned = 0;
+  for (const entry of targets) {
+    const worktree = entry.worktree!;
+    const running = live.has(entry.sessionName) && entry.status !== "done";
+    if (running && !(name && options.force)) {
+      if (name) console.error(`Skipped ${entry.sessionName}: session is still running (use --force)`);
+      continue;
+    }
+    if (!options.force && await worktreeHasChanges(worktree).catch(() => false)) {
+      console.error(`Skipped ${entry.sessionName}: ${worktree.path} has uncommitted changes (use --force)`);
+      continue;
+    }
+
+    if (options.dryRun) {
+      console.log(`Would remove ${worktree.path}${options.deleteBranch ? ` and branch ${worktree.branch}` : ""}`);
+      cleaned++;
+      continue;
+    }
+
+    try {
+      const result = await removeWorktree(worktree, { deleteBranch: options.deleteBranch, force: options.force });
+      if (result.removedPath) console.log(`Removed worktree: ${worktree.path}`);
+      if (result.deletedBranch) console.log(`Deleted branch: ${worktree.branch}`);
+      if (result.removedPath || result.deletedBranch) cleaned++;
+    } catch (err) {
+      console.error(`Failed ${entry.sessionName}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (cleaned === 0) {
+    console.log("No worktrees to clean up");
+  }
+}
+
+async function cmdHooks(options: {
+  search: Record<string, string | undefined>;  // GET /hooks params
+  json: boolean;
+  dataDir: string;
+  http: boolean;
+  port: number;
+}): Promise<void> {
+  let page: HookPage;
+  try {
+    if (options.http) {
+      const params = new URLSearchParams();
+      for (const [name, value] of Object.entries(options.search)) {
+        if (value !== undefined) params.set(name, value);
+      }
+      const res = await fetch(`http://localhost:${options.port}/hooks?${params}`);
+      const data = await res.json() as HookPage & { ok: boolean; error?: string };
+      if (!data.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+      page = { hooks: data.hooks, nextCursor: data.nextCursor };
+    } else {
+      const { query, limit } = parseHookSearch(options.search);
+      page = await searchHooks(await openStorage(options.dataDir), query, limit);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ ok: true, hooks: page.hooks, total: page.hooks.length, nextCursor: page.nextCursor }, null, 2));
+    return;
+  }
+  printHooks(page.hooks);
+  if (page.nextCursor) console.log(`(older hooks: --cursor ${page.nextCursor})`);
 }
 
 function printHooks(hooks: HookEntry[]): void {
@@ -281,12 +641,63 @@ function printHooks(hooks: HookEntry[]): void {
   }
 
   for (const h of hooks.slice().reverse()) {
-    const time = new Date(h.timestamp).toLocaleTimeString("en-US", { hour12: false });
-    const payload = formatHookPayload(h.payload);
-    console.log(`${time} ${h.event.padEnd(15)} ${payload}`);
+    printHook(h);
+  }
+}
+
+function printHook(h: HookEntry): void {
+  const time = new Date(h.timestamp).toLocaleTimeString("en-US", { hour12: false });
+  const payload = formatHookPayload(h.payload);
+  console.log(`${time} ${h.event.padEnd(15)} ${payload}`);
+}
+
+async function cmdEvents(options: {
+  type?: string;
+  event?: string;
+  filter?: string;
+  json: boolean;
+  port: number;
+}): Promise<void> {
+  const params = new URLSearchParams();
+  if (options.type) params.set("type", options.type);
+  if (options.event) params.set("event", options.event);
+  if (options.filter) params.set("session", options.filter);
+  const url = `http://localhost:${options.port}/events?${params}`;
+
+  let res: Response;
+  try {
+    res = await fetch(url);
+  } catch {
+    console.error(`Error: hooks server not reachable on port ${options.port} (start watch.ts or watch.ts --daemon)`);
+    process.exit(1);
+  }
+  if (!res.ok || !res.body) {
+    console.error(`Error: ${url} returned ${res.status}`);
+    process.exit(1);
+  }
+
+  for await (const event of readEventStream(res.body)) {
+    if (options.json) {
+      console.log(JSON.stringify(event));
+    } else {
+      printEvent(event);
+    }
   }
 }
 
+function printEvent(event: WatchEvent): void {
+  if (event.type === "hook") {
+    printHook(event.hook);
+    return;
+  }
+
+  const time = new Date(event.timestamp).toLocaleTimeString("en-US", { hour12: false });
+  let detail = event.sessionName;
+  if (event.previousName) detail = `${event.previousName} → ${event.sessionName}`;
+  if (event.action === "activity") detail = `${event.target} ${event.previousLevel} → ${event.level}`;
+  console.log(`${time} ${`session:${event.action}`.padEnd(15)} ${detail}`);
+}
+
 async function main() {
   const { values, positionals } = parseArgs({
     args: Bun.argv.slice(2),
@@ -298,6 +709,23 @@ async function main() {
       filter: { type: "string", short: "f" },
       limit: { type: "string", short: "l", default: "50" },
       event: { type: "string", short: "e" },
+      type: { type: "string", short: "t" },
+      follow: { type: "boolean", default: false },
+      "delete-branch": { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", short: "n", default: false },
+      format: { type: "string" },
+      output: { type: "string", short: "o" },
+      resolve: { type: "string" },
+      commit: { type: "boolean", default: false },
+      tool: { type: "string" },
+      "session-id": { type: "string" },
+      cwd: { type: "string" },
+      search: { type: "string", short: "s" },
+      tag: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      cursor: { type: "string" },
       help: { type: "boolean", short: "h" },
     },
     allowPositionals: true,
@@ -324,7 +752,7 @@ async function main() {
         console.error("Error: session name required");
         process.exit(1);
       }
-      await cmdSession(positionals[1], { json, dataDir, http, port });
+      await cmdSession(positionals[1], { limit: parseInt(values.limit!, 10), json, dataDir, http, port });
       break;
 
     case "done":
@@ -343,10 +771,41 @@ async function main() {
       await cmdKill(positionals[1], { http, port });
       break;
 
+    case "compare":
+      if (!positionals[1]) {
+        console.error("Error: tag or launch id required");
+        process.exit(1);
+      }
+      await cmdCompare(positionals[1], { format: values.format ?? "table", output: values.output, json, dataDir });
+      break;
+
+    case "cleanup":
+      await cmdCleanup(positionals[1], {
+        deleteBranch: values["delete-branch"] ?? false,
+        force: values.force ?? false,
+        dryRun: values["dry-run"] ?? false,
+        dataDir,
+      });
+      break;
+
     case "hooks":
+      if (values.follow) {
+        await cmdEvents({ type: "hook", event: values.event, filter: values.filter, json, port });
+        break;
+      }
       await cmdHooks({
-        limit: parseInt(values.limit!, 10),
-        event: values.event,
+        search: {
+          limit: values.limit,
+          event: values.event,
+          tool: values.tool,
+          session_id: values["session-id"],
+          cwd: values.cwd && resolve(expandHome(values.cwd)),
+          q: values.search,
+          tag: values.tag,
+          since: values.since,
+          until: values.until,
+          cursor: values.cursor,
+        },
         json,
         dataDir,
         http,
@@ -354,6 +813,48 @@ async function main() {
       });
       break;
 
+    case "events":
+      await cmdEvents({ type: values.type, event: values.event, filter: values.filter, json, port });
+      break;
+
+    case "templates":
+      await cmdTemplates({ json, dataDir });
+      break;
+
+    case "import":
+      await cmdImport({ json, dataDir });
+      break;
+
+    case "review":
+      if (!positionals[1]) {
+        console.error("Error: plan id, tag or launch id required");
+        process.exit(1);
+      }
+      await cmdReview(positionals[1], { json, dataDir });
+      break;
+
+    case "plan":
+      if (positionals[1] !== "graph" && positionals[1] !== "merge") {
+        console.error(`Error: Unknown plan command "${positionals[1] ?? ""}" (use: plan graph|merge <plan-id>)`);
+        process.exit(1);
+      }
+      if (!positionals[2]) {
+        console.error("Error: plan id or plan file required");
+        process.exit(1);
+      }
+      if (positionals[1] === "merge") {
+        await cmdPlanMerge(positionals[2], {
+          resolve: values.resolve,
+          commit: values.commit ?? false,
+          dryRun: values["dry-run"] ?? false,
+          json,
+          dataDir,
+        });
+        break;
+      }
+      await cmdPlanGraph(positionals[2], { format: values.format ?? "mermaid", output: values.output, json, dataDir });
+      break;
+
     default:
       console.error(`Unknown command: ${command}`);
       console.log(USAGE);
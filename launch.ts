@@ -1,10 +1,17 @@
 import { parseArgs } from "util";
 import { createId, createSessionName } from "./lib/ids";
 import { launchAgentSession } from "./lib/tmux";
-import { appendSessionMeta, makePromptPreview, normalizeTag } from "./lib/sessions";
-import { expandHome } from "./lib/jsonl";
+import { appendSessionMeta, makePromptPreview, normalizeTag, readSessionMeta } from "./lib/sessions";
+import { expandHome, warnQuarantined } from "./lib/jsonl";
+import { readHooks } from "./lib/storage";
+import { createWorktree, removeWorktree, getWorktreesDir } from "./lib/worktree";
 import { readFileSync } from "fs";
+import { loadAgentRegistry, parseAgentList, parseAgentFlagOptions, type AgentRegistry } from "./lib/agents";
+import { QUEUE_POLL_MS, countFreeSlots, isSessionFinished, parseMaxParallel, recordQueuedSession } from "./lib/queue";
+import { orchestratorName, parseOrchestratorSpec, type OrchestratorSpec } from "./lib/decompose";
+import { collectReviewCandidates, formatReview, recordReview, reviewSessions } from "./lib/review";
 import {
+  type AgentConfig,
   type AgentType,
   type LaunchedSession,
   DEFAULT_DATA_DIR,
@@ -13,14 +20,6 @@ import {
 
 type AgentFlags = Partial<Record<AgentType, string[]>>;
 
-function parseAgents(input: string): AgentType[] {
-  const valid: AgentType[] = ["claude", "codex", "gemini"];
-  return input
-    .split(",")
-    .map((s) => s.trim().toLowerCase())
-    .filter((s): s is AgentType => valid.includes(s as AgentType));
-}
-
 function parseFlags(input: string | undefined): string[] {
   if (!input) return [];
   // Split on spaces, but respect quoted strings
@@ -29,27 +28,43 @@ function parseFlags(input: string | undefined): string[] {
 
 async function launchAgent(
   agent: AgentType,
+  config: AgentConfig,
   prompt: string,
   cwd: string,
-  prefix: string,
+  sessionName: string,
   dataDir: string,
   tag: string | undefined,
-  extraFlags: string[] = []
+  launchId: string,
+  extraFlags: string[] = [],
+  useWorktree = false
 ): Promise<LaunchedSession> {
-  const sessionName = createSessionName(prefix, agent);
   const id = createId("launch");
 
-  await launchAgentSession(agent, prompt, sessionName, cwd, extraFlags);
+  // Give each agent its own checkout so parallel agents don't edit the same files
+  const prepared = useWorktree ? await createWorktree(cwd, sessionName, dataDir) : undefined;
+  const agentCwd = prepared?.cwd ?? cwd;
+
+  try {
+    await launchAgentSession(config, prompt, sessionName, agentCwd, extraFlags);
+  } catch (err) {
+    if (prepared) {
+      await removeWorktree(prepared.worktree, { deleteBranch: true, force: true }).catch(() => {});
+    }
+    throw err;
+  }
 
   try {
-    await appendSessionMeta(dataDir, {
+    const { quarantined } = await appendSessionMeta(dataDir, {
       sessionName,
       agent,
       promptPreview: makePromptPreview(prompt),
-      cwd,
+      cwd: agentCwd,
       tag,
+      launchId,
+      worktree: prepared?.worktree,
       source: "launch",
     });
+    warnQuarantined(quarantined);
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     console.error(`Warning: failed to write session metadata: ${msg}`);
@@ -60,11 +75,65 @@ async function launchAgent(
     agent,
     sessionName,
     prompt,
-    cwd,
+    cwd: agentCwd,
     startedAt: new Date().toISOString(),
+    worktree: prepared?.worktree,
   };
 }
 
+/**
+ * Wait for every session to exit or be marked done, then have the reviewer pick
+ * the best attempt. The verdict is stored under the launch id and tag.
+ */
+async function reviewLaunch(
+  spec: OrchestratorSpec,
+  prompt: string,
+  launched: LaunchedSession[],
+  options: { cwd: string; prefix: string; dataDir: string; tag?: string; launchId: string; registry: AgentRegistry }
+): Promise<void> {
+  console.log();
+  console.log(`Waiting for ${launched.length} session(s) to exit or be marked done before the review...`);
+  for (;;) {
+    const metaEntries = await readSessionMeta(options.dataDir);
+    let running = 0;
+    for (const session of launched) {
+      if (!(await isSessionFinished(session.sessionName, metaEntries))) running++;
+    }
+    if (running === 0) break;
+    await Bun.sleep(QUEUE_POLL_MS);
+  }
+
+  console.log(`Asking ${orchestratorName(spec)} to review...`);
+  try {
+    const metaEntries = await readSessionMeta(options.dataDir);
+    const hooks = await readHooks(options.dataDir);
+    const candidates = await collectReviewCandidates(
+      launched.map((session) => ({
+        label: session.sessionName,
+        sessionName: session.sessionName,
+        launchedAt: session.startedAt,
+        agent: session.agent,
+      })),
+      { metaEntries, hooks, fallbackCwd: options.cwd }
+    );
+    const verdict = await reviewSessions(spec, prompt, candidates, "compare", options.registry, options.cwd);
+    const { quarantined } = await recordReview(options.dataDir, {
+      sessionName: createSessionName(options.prefix, "review"),
+      launchId: options.launchId,
+      tag: options.tag,
+      agent: spec.kind === "agent" ? spec.agent : undefined,
+      review: verdict,
+    });
+    warnQuarantined(quarantined);
+    console.log();
+    for (const line of formatReview(verdict)) {
+      console.log(line);
+    }
+  } catch (err) {
+    console.error(`Review failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
 async function main() {
   const { values, positionals } = parseArgs({
     args: Bun.argv.slice(2),
@@ -75,9 +144,13 @@ async function main() {
       "prompt-file": { type: "string" },
       "data-dir": { type: "string", short: "d", default: DEFAULT_DATA_DIR },
       tag: { type: "string" },
+      worktree: { type: "boolean", default: false },
+      "max-parallel": { type: "string" },
+      review: { type: "string" },
       "claude-flags": { type: "string" },
       "codex-flags": { type: "string" },
       "gemini-flags": { type: "string" },
+      "agent-flags": { type: "string", multiple: true },
       help: { type: "boolean", short: "h" },
     },
     allowPositionals: true,
@@ -90,15 +163,22 @@ Usage:
   bun run launch.ts "your prompt" [options]
 
 Options:
-  -a, --agents        Comma-separated agents: claude,codex,gemini (default: claude)
+  -a, --agents        Comma-separated agents: claude,codex,gemini or any from config.json (default: claude)
   -c, --cwd           Working directory for agents
   -p, --prefix        Session name prefix (default: awm)
   --prompt-file       Read prompt from file ("-" for stdin)
   -d, --data-dir      Data directory for session metadata (default: ${DEFAULT_DATA_DIR})
   --tag               Tag to label sessions
+  --worktree          Run each agent in its own git worktree and branch (awm/<session>)
+  --max-parallel      Run at most N sessions with this prefix at once, counting other launch and
+                      orchestrate commands; the rest wait as "queued" until a session exits or
+                      is marked done (default: no limit)
+  --review            Once every session has exited or been marked done, have this agent
+                      (or cmd:COMMAND) compare the diffs and pick a winner
   --claude-flags      Extra flags for Claude (e.g., "--dangerously-skip-permissions")
   --codex-flags       Extra flags for Codex (e.g., "--approval-mode full-auto")
   --gemini-flags      Extra flags for Gemini (e.g., "--yolo")
+  --agent-flags       Extra flags for any agent as NAME=FLAGS (repeatable)
   -h, --help          Show this help
 
 Examples:
@@ -106,6 +186,10 @@ Examples:
   bun run launch.ts "Write tests" --agents gemini --gemini-flags "--yolo"
   bun run launch.ts "Refactor" --agents claude,codex --codex-flags "--approval-mode full-auto"
   bun run launch.ts --prompt-file ./prompt.txt --agents claude
+  bun run launch.ts "Add a CLI flag" --agents aider --agent-flags aider="--yes"
+  bun run launch.ts "Fix the flaky test" --agents claude,codex,gemini --worktree
+  bun run launch.ts "Review the PR" --agents claude,codex,gemini --max-parallel 1
+  bun run launch.ts "Fix the flaky test" --agents claude,codex --worktree --review claude
 `);
     process.exit(0);
   }
@@ -125,47 +209,105 @@ Examples:
     }
   }
 
-  const agents = parseAgents(values.agents!);
   const cwd = values.cwd ?? process.cwd();
   const prefix = values.prefix!;
   const dataDir = values["data-dir"]!;
   const tag = normalizeTag(values.tag);
 
+  let registry: AgentRegistry;
+  let extraAgentFlags: Record<AgentType, string>;
+  let maxParallel: number | undefined;
+  let reviewer: OrchestratorSpec | undefined;
+  try {
+    registry = await loadAgentRegistry(dataDir);
+    extraAgentFlags = parseAgentFlagOptions(values["agent-flags"], registry);
+    maxParallel = parseMaxParallel(values["max-parallel"]);
+    if (values.review !== undefined) reviewer = parseOrchestratorSpec(values.review, registry, "reviewer");
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+
+  const { agents, unknown } = parseAgentList(values.agents!, registry);
+  if (unknown.length > 0) {
+    console.error(`Error: Unknown agent(s): ${unknown.join(", ")} (available: ${Object.keys(registry).join(", ")})`);
+    process.exit(1);
+  }
+
   // Parse agent-specific flags
   const agentFlags: AgentFlags = {
     claude: parseFlags(values["claude-flags"]),
     codex: parseFlags(values["codex-flags"]),
     gemini: parseFlags(values["gemini-flags"]),
   };
+  for (const [agent, flags] of Object.entries(extraAgentFlags)) {
+    agentFlags[agent] = [...(agentFlags[agent] ?? []), ...parseFlags(flags)];
+  }
 
   if (agents.length === 0) {
     console.error("Error: No valid agents specified");
     process.exit(1);
   }
 
+  if (reviewer && agents.length < 2) {
+    console.error("Error: --review compares agents; launch at least two");
+    process.exit(1);
+  }
+
   console.log(`Launching ${agents.length} agent(s) with prompt:`);
   console.log(`  "${prompt.slice(0, 80)}${prompt.length > 80 ? "..." : ""}"`);
   console.log(`  Agents: ${agents.join(", ")}`);
   console.log(`  CWD: ${cwd}`);
+  if (values.worktree) console.log(`  Worktrees: ${getWorktreesDir(expandHome(dataDir))}`);
   console.log();
 
-  // Launch all agents in parallel
-  const results = await Promise.allSettled(
-    agents.map((agent) =>
-      launchAgent(agent, prompt, cwd, prefix, dataDir, tag, agentFlags[agent] || [])
-    )
-  );
-
+  // Launch agents in parallel (they share a launch id for `ctl compare`)
+  const launchId = createId("launch");
+  const queue = agents.map((agent) => ({ agent, sessionName: createSessionName(prefix, agent) }));
   const launched: LaunchedSession[] = [];
-  for (let i = 0; i < results.length; i++) {
-    const result = results[i];
-    const agent = agents[i];
-    if (result.status === "fulfilled") {
-      launched.push(result.value);
-      console.log(`Started ${agent}: ${result.value.sessionName}`);
-    } else {
-      console.error(`Failed ${agent}: ${result.reason}`);
+
+  const launchNext = async (count: number) => {
+    const batch = queue.splice(0, count);
+    const results = await Promise.allSettled(
+      batch.map(({ agent, sessionName }) =>
+        launchAgent(agent, registry[agent], prompt, cwd, sessionName, dataDir, tag, launchId, agentFlags[agent] || [], values.worktree)
+      )
+    );
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      const agent = batch[i].agent;
+      if (result.status === "fulfilled") {
+        launched.push(result.value);
+        console.log(`Started ${agent}: ${result.value.sessionName}`);
+        if (result.value.worktree) {
+          console.log(`  worktree: ${result.value.worktree.path} (${result.value.worktree.branch})`);
+        }
+      } else {
+        console.error(`Failed ${agent}: ${result.reason}`);
+      }
     }
+  };
+
+  await launchNext(await countFreeSlots(dataDir, maxParallel, prefix));
+
+  // Agents over the --max-parallel limit wait for sessions with this prefix (from any command) to exit or be marked done
+  for (const { agent, sessionName } of queue) {
+    await recordQueuedSession(dataDir, {
+      sessionName,
+      agent,
+      promptPreview: makePromptPreview(prompt),
+      cwd,
+      tag,
+      launchId,
+      source: "launch",
+    }).then(({ quarantined }) => warnQuarantined(quarantined))
+      .catch((err) => console.error(`Warning: failed to write session metadata: ${err instanceof Error ? err.message : err}`));
+    console.log(`Queued ${agent}: ${sessionName}`);
+  }
+  while (queue.length > 0) {
+    await Bun.sleep(QUEUE_POLL_MS);
+    const slots = await countFreeSlots(dataDir, maxParallel, prefix);
+    if (slots > 0) await launchNext(slots);
   }
 
   console.log();
@@ -178,6 +320,13 @@ Examples:
     console.log();
     console.log("Or watch all sessions:");
     console.log(`  bun run watch.ts --filter ${prefix}`);
+    console.log();
+    console.log("Compare results:");
+    console.log(`  bun run ctl.ts compare ${tag ?? launchId}`);
+  }
+
+  if (reviewer && launched.length > 0) {
+    await reviewLaunch(reviewer, prompt, launched, { cwd, prefix, dataDir, tag, launchId, registry });
   }
 }
 
@@ -0,0 +1,193 @@
+import { basename } from "path";
+import { loadConfig, type AwmConfig } from "./config";
+import { normalizeHookEvent } from "./hooks";
+import type { AgentConfig, AgentType, HookAdapter } from "./types";
+
+/** Agent name -> launch, detection and hook settings */
+export type AgentRegistry = Record<AgentType, AgentConfig>;
+
+export const BUILTIN_AGENTS: AgentRegistry = {
+  claude: {
+    command: "claude",
+    defaultFlags: [],
+    description: "complex reasoning, refactoring, debugging",
+    hookAdapter: "claude",
+    printFlags: ["-p"],
+  },
+  codex: {
+    command: "codex",
+    defaultFlags: [],
+    description: "straightforward code generation, tests",
+    hookAdapter: "codex",
+    printFlags: ["exec"],
+  },
+  gemini: {
+    command: "gemini",
+    defaultFlags: [], // Could add "--yolo" here for auto-approval
+    description: "research, documentation, exploration",
+    hookAdapter: "gemini",
+    printFlags: ["-p"],
+  },
+};
+
+/**
+ * Built-in hook adapters. Each maps an agent's own hook event names onto the
+ * Claude Code names the rest of agentwatch understands (policies, notifications, correlation).
+ */
+export const BUILTIN_HOOK_ADAPTERS: Record<string, HookAdapter> = {
+  claude: {},
+  gemini: {
+    events: {
+      BeforeTool: "PreToolUse",
+      AfterTool: "PostToolUse",
+      BeforeAgent: "UserPromptSubmit",
+      AfterAgent: "Stop",
+    },
+  },
+  // codex only reports turn completion, via its `notify` program
+  codex: {
+    events: { AgentTurnComplete: "Stop" },
+    sessionIdField: "thread-id",
+  },
+};
+
+// Processes agents commonly run under, counted as agents by watch's agents-only filter
+const AGENT_RUNTIMES = ["node", "bun"];
+
+const AGENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** Merge agents from config.json over the built-in agents */
+export function buildAgentRegistry(config: AwmConfig = {}): AgentRegistry {
+  const registry: AgentRegistry = { ...BUILTIN_AGENTS };
+
+  for (const [rawName, overrides] of Object.entries(config.agents ?? {})) {
+    const name = rawName.toLowerCase();
+    if (!AGENT_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid agent name "${rawName}" (use letters, digits, "-" and "_")`);
+    }
+    const base = Object.hasOwn(registry, name) ? registry[name] : undefined;
+    const merged = { ...base, ...overrides } as AgentConfig;
+    if (typeof merged.command !== "string" || merged.command.length === 0) {
+      throw new Error(`Agent "${rawName}" needs a "command"`);
+    }
+    registry[name] = merged;
+  }
+
+  return registry;
+}
+
+/** Load the agent registry for a data directory (built-ins plus config.json agents) */
+export async function loadAgentRegistry(dataDir: string): Promise<AgentRegistry> {
+  return buildAgentRegistry(await loadConfig(dataDir));
+}
+
+/** Look up a registered agent name (case-insensitive) */
+export function resolveAgentName(name: string | undefined, registry: AgentRegistry): AgentType | undefined {
+  const normalized = (name ?? "").trim().toLowerCase();
+  return normalized && Object.hasOwn(registry, normalized) ? normalized : undefined;
+}
+
+/** Split a comma-separated agent list into registered and unknown names */
+export function parseAgentList(
+  input: string,
+  registry: AgentRegistry
+): { agents: AgentType[]; unknown: string[] } {
+  const agents: AgentType[] = [];
+  const unknown: string[] = [];
+  for (const raw of input.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const name = resolveAgentName(raw, registry);
+    if (name) {
+      agents.push(name);
+    } else {
+      unknown.push(raw);
+    }
+  }
+  return { agents, unknown };
+}
+
+/**
+ * Parse repeatable --agent-flags values ("aider=--yes --no-git") into a map of
+ * agent name -> flag string. Throws on a missing "=" or an unregistered agent.
+ */
+export function parseAgentFlagOptions(values: string[] | undefined, registry: AgentRegistry): Record<AgentType, string> {
+  const result: Record<AgentType, string> = {};
+  for (const value of values ?? []) {
+    const eq = value.indexOf("=");
+    if (eq <= 0) throw new Error(`--agent-flags expects NAME=FLAGS, got "${value}"`);
+    const name = resolveAgentName(value.slice(0, eq), registry);
+    if (!name) throw new Error(`--agent-flags: unknown agent "${value.slice(0, eq)}"`);
+    result[name] = value.slice(eq + 1);
+  }
+  return result;
+}
+
+/** Process names that identify an agent (defaults to the command's basename) */
+export function getProcessNames(config: AgentConfig): string[] {
+  const names = config.processNames?.length ? config.processNames : [basename(config.command)];
+  return names.map((n) => n.toLowerCase());
+}
+
+/** All process names watch's agents-only filter treats as agents */
+export function getAgentCommands(registry: AgentRegistry): Set<string> {
+  const commands = new Set(AGENT_RUNTIMES);
+  for (const config of Object.values(registry)) {
+    for (const name of getProcessNames(config)) commands.add(name);
+  }
+  return commands;
+}
+
+/**
+ * Match a process against the registry by its command name, or by its arguments
+ * (e.g. "node /path/to/claude"). Longer process names are tried first so a
+ * wrapper like "claude-wrapper" is not mistaken for "claude".
+ */
+export function matchAgentProcess(comm: string, args: string, registry: AgentRegistry): AgentType | undefined {
+  const patterns = Object.entries(registry)
+    .flatMap(([agent, config]) => getProcessNames(config).map((name) => ({ agent, name })))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  const commLower = comm.toLowerCase();
+  const exact = patterns.find((p) => p.name === commLower);
+  if (exact) return exact.agent;
+
+  const argsLower = args.toLowerCase();
+  const inArgs = patterns.find((p) => argsLower.includes(`/${p.name}`) || argsLower.includes(` ${p.name} `));
+  return inArgs?.agent;
+}
+
+/** Resolve an agent's hook adapter (built-in name or inline definition) */
+export function getHookAdapter(config: AgentConfig | undefined): HookAdapter {
+  const adapter = config?.hookAdapter;
+  if (!adapter) return {};
+  if (typeof adapter === "string") return BUILTIN_HOOK_ADAPTERS[adapter] ?? {};
+  return adapter;
+}
+
+/**
+ * Translate an agent's hook into Claude Code terms: map the event name (from the
+ * payload's hook_event_name, the URL event or the payload's type) and copy the
+ * agent's session id field to session_id so correlation can use it.
+ */
+export function adaptHookEvent(
+  adapter: HookAdapter,
+  event: string,
+  payload: Record<string, unknown>
+): { event: string; payload: Record<string, unknown> } {
+  const events = adapter.events ?? {};
+  const candidates = [payload.hook_event_name, event, payload.type]
+    .filter((c): c is string => typeof c === "string");
+  let mapped: string | undefined;
+  for (const candidate of candidates) {
+    mapped = events[candidate] ?? events[normalizeHookEvent(candidate)];
+    if (mapped) break;
+  }
+
+  const adapted = { ...payload };
+  if (mapped && typeof payload.hook_event_name === "string") adapted.hook_event_name = mapped;
+  const idField = adapter.sessionIdField;
+  if (idField && payload.session_id === undefined && typeof payload[idField] === "string") {
+    adapted.session_id = payload[idField];
+  }
+
+  return { event: mapped ?? event, payload: adapted };
+}
@@ -0,0 +1,333 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { hookEventName } from "./hooks";
+import { readHooks } from "./storage";
+import { readSessionMeta, buildSessionMetaMap } from "./sessions";
+import { getSessionAliases, buildSessionIdMap, hookBelongsToSession, resolveSessionName } from "./correlate";
+import { listSessions, capturePaneFull, filterMeaningfulLines } from "./tmux";
+import { runGit } from "./worktree";
+import type { HookEntry, SessionMetaEntry } from "./types";
+
+export type DiffStats = {
+  files: { path: string; insertions: number; deletions: number }[];
+  insertions: number;
+  deletions: number;
+};
+
+export type CompareRow = {
+  sessionName: string;
+  agent?: string;
+  status: "running" | "done" | "ended";
+  startedAt: string;
+  durationSeconds: number;
+  branch?: string;
+  diff?: DiffStats;        // undefined when the cwd is not a git repo
+  toolCalls: number;       // PreToolUse hooks
+  failures: number;        // PostToolUseFailure hooks
+  hooks: number;
+  lastOutput: string[];    // final meaningful pane lines (empty once the session is gone)
+};
+
+export type CompareReport = {
+  key: string;             // tag or launch id the sessions were selected by
+  prompt?: string;
+  sharedCheckout: boolean; // sessions without worktrees share one cwd, so their diffs are the same
+  generatedAt: string;
+  rows: CompareRow[];
+};
+
+const LAST_OUTPUT_LINES = 8;
+
+/** Parse `git diff --numstat` output (binary files count as 0/0) */
+export function parseNumstat(output: string): DiffStats {
+  const stats: DiffStats = { files: [], insertions: 0, deletions: 0 };
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+    if (!match) continue;
+    const insertions = match[1] === "-" ? 0 : parseInt(match[1], 10);
+    const deletions = match[2] === "-" ? 0 : parseInt(match[2], 10);
+    stats.files.push({ path: match[3], insertions, deletions });
+    stats.insertions += insertions;
+    stats.deletions += deletions;
+  }
+  return stats;
+}
+
+/** Diff a session's work: its worktree (or branch, once the worktree is removed) against the base, else its cwd against HEAD */
+async function collectDiff(meta: SessionMetaEntry): Promise<DiffStats | undefined> {
+  const worktree = meta.worktree;
+  try {
+    if (worktree && existsSync(worktree.path)) {
+      const stats = parseNumstat(await runGit(["diff", "--numstat", worktree.baseRef], worktree.path));
+      const untracked = await runGit(["ls-files", "--others", "--exclude-standard"], worktree.path);
+      for (const path of untracked.split("\n").filter(Boolean)) {
+        const content = await readFile(join(worktree.path, path), "utf8").catch(() => "");
+        const insertions = content ? content.split("\n").length - (content.endsWith("\n") ? 1 : 0) : 0;
+        stats.files.push({ path, insertions, deletions: 0 });
+        stats.insertions += insertions;
+      }
+      return stats;
+    }
+    if (worktree) {
+      return parseNumstat(await runGit(["diff", "--numstat", worktree.baseRef, worktree.branch], worktree.repoRoot));
+    }
+    if (meta.cwd && existsSync(meta.cwd)) {
+      return parseNumstat(await runGit(["diff", "--numstat", "HEAD"], meta.cwd));
+    }
+  } catch {
+    // Not a git repo, or the branch/base is gone
+  }
+  return undefined;
+}
+
+function countHooks(hooks: HookEntry[]): { toolCalls: number; failures: number } {
+  let toolCalls = 0;
+  let failures = 0;
+  for (const hook of hooks) {
+    const name = hookEventName(hook.event, hook.payload);
+    if (name === "PreToolUse") toolCalls++;
+    if (name === "PostToolUseFailure") failures++;
+  }
+  return { toolCalls, failures };
+}
+
+/** Select sessions launched with a tag or launch id, following renames to their current names */
+export function selectComparedSessions(key: string, entries: SessionMetaEntry[]): string[] {
+  const names: string[] = [];
+  for (const entry of entries) {
+    if (entry.tag !== key && entry.launchId !== key) continue;
+    // Reviewer verdicts share the tag and launch id but are not sessions
+    if (entry.source === "review") continue;
+    const current = resolveSessionName(entry.sessionName, entries);
+    if (!names.includes(current)) names.push(current);
+  }
+  return names;
+}
+
+/** Gather diff stats, duration, hook counts and final output for every session in a launch */
+export async function collectComparison(dataDir: string, key: string): Promise<CompareReport> {
+  const entries = await readSessionMeta(dataDir).catch(() => []);
+  const metaMap = buildSessionMetaMap(entries);
+  const names = selectComparedSessions(key, entries);
+
+  const hooks = names.length > 0
+    ? await readHooks(dataDir).catch(() => [])
+    : [];
+  const sessionIds = buildSessionIdMap(entries);
+  const live = new Set((await listSessions().catch(() => [])).map((s) => s.name));
+  const now = Date.now();
+
+  const rows = await Promise.all(names.map(async (name): Promise<CompareRow> => {
+    const meta = metaMap.get(name)!;
+    const aliases = getSessionAliases(name, entries);
+    const sessionEntries = entries.filter((e) => aliases.includes(e.sessionName));
+    const sessionHooks = hooks.filter((h) => hookBelongsToSession(h, aliases, sessionIds));
+
+    const startedAt = sessionEntries[0]?.timestamp ?? meta.timestamp;
+    const isLive = live.has(name);
+    const status: CompareRow["status"] = meta.status === "done" ? "done" : isLive ? "running" : "ended";
+
+    // Done: when it was marked done. Ended: its last hook. Running: so far.
+    let endMs = now;
+    if (status === "done") {
+      endMs = Date.parse(sessionEntries.find((e) => e.status === "done")?.timestamp ?? meta.timestamp);
+    } else if (status === "ended") {
+      endMs = Date.parse(sessionHooks[sessionHooks.length - 1]?.timestamp ?? meta.timestamp);
+    }
+
+    const lastOutput = isLive
+      ? filterMeaningfulLines((await capturePaneFull(name, 100)).split("\n")).slice(-LAST_OUTPUT_LINES)
+      : [];
+
+    return {
+      sessionName: name,
+      agent: meta.agent,
+      status,
+      startedAt,
+      durationSeconds: Math.max(0, Math.round((endMs - Date.parse(startedAt)) / 1000)),
+      branch: meta.worktree?.branch,
+      diff: await collectDiff(meta),
+      ...countHooks(sessionHooks),
+      hooks: sessionHooks.length,
+      lastOutput,
+    };
+  }));
+
+  const first = names.length > 0 ? metaMap.get(names[0]) : undefined;
+  return {
+    key,
+    prompt: first?.promptPreview,
+    sharedCheckout: rows.length > 1 && names.some((n) => !metaMap.get(n)?.worktree),
+    generatedAt: new Date(now).toISOString(),
+    rows,
+  };
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(seconds / 3600)}h${String(Math.floor((seconds % 3600) / 60)).padStart(2, "0")}m`;
+}
+
+function summaryCells(row: CompareRow): string[] {
+  return [
+    row.sessionName,
+    row.agent ?? "-",
+    row.status,
+    formatDuration(row.durationSeconds),
+    row.diff ? String(row.diff.files.length) : "-",
+    row.diff ? `+${row.diff.insertions}/-${row.diff.deletions}` : "-",
+    String(row.toolCalls),
+    String(row.failures),
+  ];
+}
+
+const SUMMARY_HEADERS = ["Session", "Agent", "Status", "Duration", "Files", "Lines", "Tools", "Failures"];
+
+const SHARED_CHECKOUT_NOTE = "Sessions without --worktree share one checkout, so their diffs are the same combined changes.";
+
+/** Render the report as a plain-text table followed by each session's changed files and final output */
+export function renderCompareTable(report: CompareReport): string {
+  if (report.rows.length === 0) return `No sessions found for "${report.key}"\n`;
+
+  const rows = [SUMMARY_HEADERS, ...report.rows.map(summaryCells)];
+  const widths = SUMMARY_HEADERS.map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  const formatRow = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join("  ").trimEnd();
+
+  const lines: string[] = [];
+  lines.push(`Compare: ${report.key}`);
+  if (report.prompt) lines.push(`Prompt: ${report.prompt}`);
+  lines.push("");
+  lines.push(formatRow(rows[0]));
+  lines.push(widths.map((w) => "-".repeat(w)).join("  "));
+  for (const row of rows.slice(1)) lines.push(formatRow(row));
+  if (report.sharedCheckout) lines.push("", SHARED_CHECKOUT_NOTE);
+
+  for (const row of report.rows) {
+    lines.push("", `== ${row.sessionName}${row.branch ? ` (${row.branch})` : ""}`);
+    if (row.diff && row.diff.files.length > 0) {
+      for (const file of row.diff.files) {
+        lines.push(`  ${file.path} +${file.insertions}/-${file.deletions}`);
+      }
+    } else {
+      lines.push("  (no changes)");
+    }
+    if (row.lastOutput.length > 0) {
+      lines.push("  Final output:");
+      for (const line of row.lastOutput) lines.push(`    ${line}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|");
+}
+
+export function renderCompareMarkdown(report: CompareReport): string {
+  const lines: string[] = [];
+  lines.push(`# Agent comparison: ${report.key}`, "");
+  if (report.prompt) lines.push(`> ${report.prompt}`, "");
+
+  if (report.rows.length === 0) {
+    lines.push("No sessions found.");
+    return lines.join("\n") + "\n";
+  }
+
+  lines.push(`| ${SUMMARY_HEADERS.join(" | ")} |`);
+  lines.push(`|${SUMMARY_HEADERS.map(() => "---").join("|")}|`);
+  for (const row of report.rows) {
+    lines.push(`| ${summaryCells(row).map(escapeMarkdownCell).join(" | ")} |`);
+  }
+  if (report.sharedCheckout) lines.push("", `_${SHARED_CHECKOUT_NOTE}_`);
+
+  for (const row of report.rows) {
+    lines.push("", `## ${row.sessionName}`, "");
+    if (row.branch) lines.push(`Branch: \`${row.branch}\``, "");
+    if (row.diff && row.diff.files.length > 0) {
+      for (const file of row.diff.files) {
+        lines.push(`- \`${file.path}\` +${file.insertions}/-${file.deletions}`);
+      }
+    } else {
+      lines.push("No changes.");
+    }
+    if (row.lastOutput.length > 0) {
+      lines.push("", "Final output:", "", "```", ...row.lastOutput, "```");
+    }
+  }
+
+  lines.push("", `_Generated ${report.generatedAt}_`);
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderCompareHtml(report: CompareReport): string {
+  const title = `Agent comparison: ${escapeHtml(report.key)}`;
+  const parts: string[] = [];
+  parts.push(`<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: -apple-system, system-ui, sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; }
+  th { background: #f4f4f4; }
+  .sessions { display: grid; grid-template-columns: repeat(auto-fit, minmax(22rem, 1fr)); gap: 1rem; margin-top: 1.5rem; }
+  .session { border: 1px solid #ddd; border-radius: 6px; padding: 0.8rem; }
+  .add { color: #1a7f37; } .del { color: #cf222e; }
+  pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; font-size: 0.85rem; }
+  .note { color: #666; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>`);
+  if (report.prompt) parts.push(`<blockquote>${escapeHtml(report.prompt)}</blockquote>`);
+
+  if (report.rows.length === 0) {
+    parts.push("<p>No sessions found.</p>");
+  } else {
+    parts.push("<table>");
+    parts.push(`<tr>${SUMMARY_HEADERS.map((h) => `<th>${h}</th>`).join("")}</tr>`);
+    for (const row of report.rows) {
+      parts.push(`<tr>${summaryCells(row).map((c) => `<td>${escapeHtml(c)}</td>`).join("")}</tr>`);
+    }
+    parts.push("</table>");
+    if (report.sharedCheckout) parts.push(`<p class="note">${SHARED_CHECKOUT_NOTE}</p>`);
+
+    parts.push(`<div class="sessions">`);
+    for (const row of report.rows) {
+      parts.push(`<div class="session">`);
+      parts.push(`<h2>${escapeHtml(row.sessionName)}</h2>`);
+      if (row.branch) parts.push(`<p>Branch: <code>${escapeHtml(row.branch)}</code></p>`);
+      if (row.diff && row.diff.files.length > 0) {
+        parts.push("<ul>");
+        for (const file of row.diff.files) {
+          parts.push(`<li><code>${escapeHtml(file.path)}</code> <span class="add">+${file.insertions}</span> <span class="del">-${file.deletions}</span></li>`);
+        }
+        parts.push("</ul>");
+      } else {
+        parts.push("<p>No changes.</p>");
+      }
+      if (row.lastOutput.length > 0) {
+        parts.push(`<pre>${escapeHtml(row.lastOutput.join("\n"))}</pre>`);
+      }
+      parts.push("</div>");
+    }
+    parts.push("</div>");
+  }
+
+  parts.push(`<p class="note">Generated ${escapeHtml(report.generatedAt)}</p>`);
+  parts.push("</body>\n</html>");
+  return parts.join("\n") + "\n";
+}
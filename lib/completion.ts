@@ -0,0 +1,201 @@
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { hasSession } from "./tmux";
+import { expandHome } from "./jsonl";
+import { hookEventName } from "./hooks";
+import { buildSessionMetaMap } from "./sessions";
+import { buildSessionIdMap, getSessionAliases, hookBelongsToSession, resolveSessionName } from "./correlate";
+import { readEventStream } from "./events";
+import type { CompletionMode, HookEntry, SessionMetaEntry } from "./types";
+
+export const COMPLETION_MODES: CompletionMode[] = ["exit", "stop", "done", "marker", "any"];
+
+// Interactive agents rarely exit, so by default any signal completes a task
+export const DEFAULT_COMPLETION_MODE: CompletionMode = "any";
+
+// Hook events that mean the agent finished its turn or its session
+const STOP_EVENTS = new Set(["Stop", "SessionEnd"]);
+
+// Hook events and session actions worth re-checking completion for
+const WAKE_EVENTS = "stop,session-end,done,renamed,killed";
+
+// Delay before reconnecting to the hooks server's event stream
+const RECONNECT_MS = 5000;
+
+/** What completed a task */
+export type CompletionSignal = "exited" | "stop-hook" | "marked-done" | "marker";
+
+export type CompletionTarget = {
+  sessionName: string;
+  mode: CompletionMode;
+  launchedAt: string;   // hooks before this are ignored
+  markerPath: string;
+};
+
+export function parseCompletionMode(value: string | undefined): CompletionMode | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return COMPLETION_MODES.find((mode) => mode === normalized);
+}
+
+export function getMarkersDir(dataDir: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/markers`;
+}
+
+/**
+ * Absolute marker path for a task: markerFile relative to the task's cwd, else one per
+ * session under the data dir, so the marker never lands in the task's checkout (or its commits)
+ */
+export function getMarkerPath(dataDir: string, sessionName: string, cwd: string, markerFile?: string): string {
+  return markerFile
+    ? resolve(expandHome(cwd), markerFile)
+    : resolve(expandHome(getMarkersDir(dataDir)), `${sessionName}.done`);
+}
+
+/** Appended to a marker-mode task's prompt so the agent knows how to signal completion */
+export function markerInstruction(markerPath: string): string {
+  return `\n\nWhen you have finished this task, create the file ${markerPath} (its contents do not matter).`;
+}
+
+export function describeSignal(signal: CompletionSignal): string {
+  switch (signal) {
+    case "exited":
+      return "session ended";
+    case "stop-hook":
+      return "Stop hook";
+    case "marked-done":
+      return "marked done";
+    case "marker":
+      return "marker file";
+  }
+}
+
+/** Latest Stop/SessionEnd hook correlated to the session (under any of its names) since launch */
+export function findStopHook(
+  target: Pick<CompletionTarget, "sessionName" | "launchedAt">,
+  metaEntries: SessionMetaEntry[],
+  hooks: HookEntry[]
+): HookEntry | undefined {
+  const current = resolveSessionName(target.sessionName, metaEntries);
+  const names = getSessionAliases(current, metaEntries);
+  const sessionIds = buildSessionIdMap(metaEntries);
+  const since = Date.parse(target.launchedAt);
+
+  for (let i = hooks.length - 1; i >= 0; i--) {
+    const hook = hooks[i];
+    if (Date.parse(hook.timestamp) < since) break;
+    if (!STOP_EVENTS.has(hookEventName(hook.event, hook.payload))) continue;
+    if (hookBelongsToSession(hook, names, sessionIds)) return hook;
+  }
+  return undefined;
+}
+
+/**
+ * Check a launched task against its completion criterion.
+ * "any" accepts every signal; the others accept only their own.
+ */
+export async function checkCompletion(
+  target: CompletionTarget,
+  context: { metaEntries: SessionMetaEntry[]; hooks: HookEntry[] }
+): Promise<CompletionSignal | undefined> {
+  const accepts = (mode: CompletionMode) => target.mode === mode || target.mode === "any";
+  const current = resolveSessionName(target.sessionName, context.metaEntries);
+
+  if (accepts("done") && buildSessionMetaMap(context.metaEntries).get(current)?.status === "done") {
+    return "marked-done";
+  }
+  if (accepts("marker") && existsSync(target.markerPath)) {
+    return "marker";
+  }
+  if (accepts("stop") && findStopHook(target, context.metaEntries, context.hooks)) {
+    return "stop-hook";
+  }
+  if (accepts("exit") && !(await hasSession(current))) {
+    return "exited";
+  }
+  return undefined;
+}
+
+/** True if any target needs hooks.jsonl to be checked */
+export function needsHooks(targets: Iterable<CompletionTarget>): boolean {
+  for (const target of targets) {
+    if (target.mode === "stop" || target.mode === "any") return true;
+  }
+  return false;
+}
+
+export type CompletionWaker = {
+  /** Resolve after timeoutMs, or sooner if a relevant event arrived */
+  wait: (timeoutMs: number) => Promise<void>;
+  close: () => void;
+};
+
+/**
+ * Follow the hooks server's event stream so completion is re-checked as soon as a
+ * Stop/SessionEnd hook or session change arrives. Without a server, wait() is a plain delay.
+ */
+export function createCompletionWaker(port: number): CompletionWaker {
+  const controller = new AbortController();
+  let pending = false;
+  let wake: (() => void) | undefined;
+
+  const trigger = () => {
+    if (wake) {
+      wake();
+    } else {
+      pending = true;
+    }
+  };
+
+  const sleep = (ms: number) =>
+    new Promise<void>((done) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        done();
+      };
+      const timer = setTimeout(() => {
+        controller.signal.removeEventListener("abort", onAbort);
+        done();
+      }, ms);
+      controller.signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+  void (async () => {
+    const url = `http://localhost:${port}/events?event=${WAKE_EVENTS}`;
+    while (!controller.signal.aborted) {
+      try {
+        const res = await fetch(url, { signal: controller.signal });
+        if (res.ok && res.body) {
+          for await (const _event of readEventStream(res.body)) {
+            trigger();
+          }
+        }
+      } catch {
+        // Server not running (or closed) - fall back to polling until it is back
+      }
+      if (!controller.signal.aborted) await sleep(RECONNECT_MS);
+    }
+  })();
+
+  return {
+    wait(timeoutMs) {
+      if (pending) {
+        pending = false;
+        return Promise.resolve();
+      }
+      return new Promise<void>((done) => {
+        const finish = () => {
+          clearTimeout(timer);
+          wake = undefined;
+          done();
+        };
+        const timer = setTimeout(finish, timeoutMs);
+        wake = finish;
+      });
+    },
+    close() {
+      controller.abort();
+      wake?.();
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { readFile } from "fs/promises";
+import { expandHome } from "./jsonl";
+import type { AgentConfig, LogRotationPolicy } from "./types";
+
+/** Logs that can be rotated: hooks.jsonl and sessions.jsonl */
+export type LogName = "hooks" | "sessions";
+
+/** Where hooks and session metadata are stored (see lib/storage.ts) */
+export type StorageBackend = "jsonl" | "sqlite";
+
+export const STORAGE_BACKENDS: StorageBackend[] = ["jsonl", "sqlite"];
+
+// User configuration, read from <data-dir>/config.json
+export type AwmConfig = {
+  agents?: Record<string, Partial<AgentConfig>>;  // added agents, or overrides for built-in ones
+  logs?: Partial<Record<LogName, LogRotationPolicy>>;  // rotation and retention per log (default: never rotated)
+  storage?: StorageBackend;  // default: jsonl
+};
+
+export function getConfigFile(dataDir: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/config.json`;
+}
+
+/** Load config.json from the data directory, returning {} if it does not exist */
+export async function loadConfig(dataDir: string): Promise<AwmConfig> {
+  const filePath = expandHome(getConfigFile(dataDir));
+
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw err;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${filePath} must contain a JSON object`);
+  }
+  return parsed as AwmConfig;
+}
+
+const POSITIVE_FIELDS = ["maxSizeMB", "maxAgeDays", "keepDays"] as const;
+
+/** Problems with a log's rotation policy from config.json */
+export function checkLogRotationPolicy(value: unknown, log: string): string[] {
+  if (value === undefined) return [];
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return [`logs.${log} must be an object`];
+  }
+  const policy = value as Record<string, unknown>;
+  const issues: string[] = [];
+  for (const field of POSITIVE_FIELDS) {
+    const n = policy[field];
+    if (n !== undefined && (typeof n !== "number" || !Number.isFinite(n) || n <= 0)) {
+      issues.push(`logs.${log}.${field} must be a positive number`);
+    }
+  }
+  if (policy.keepSegments !== undefined && (!Number.isInteger(policy.keepSegments) || (policy.keepSegments as number) < 0)) {
+    issues.push(`logs.${log}.keepSegments must be a non-negative integer`);
+  }
+  if (policy.compress !== undefined && typeof policy.compress !== "boolean") {
+    issues.push(`logs.${log}.compress must be true or false`);
+  }
+  return issues;
+}
+
+/** A log's rotation policy from config.json, or undefined if it is never rotated */
+export async function loadLogRotation(dataDir: string, log: LogName): Promise<LogRotationPolicy | undefined> {
+  const policy = (await loadConfig(dataDir)).logs?.[log];
+  const [issue] = checkLogRotationPolicy(policy, log);
+  if (issue) throw new Error(`${getConfigFile(dataDir)}: ${issue}`);
+  return policy;
+}
+
+/** The storage backend from config.json, jsonl unless set */
+export async function loadStorageBackend(dataDir: string): Promise<StorageBackend> {
+  const backend = (await loadConfig(dataDir)).storage ?? "jsonl";
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(`${getConfigFile(dataDir)}: storage must be one of: ${STORAGE_BACKENDS.join(", ")}`);
+  }
+  return backend;
+}
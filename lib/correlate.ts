@@ -0,0 +1,142 @@
+import { buildSessionMetaMap } from "./sessions";
+import { readHooks } from "./storage";
+import type { HookEntry, SessionMetaEntry, TmuxSessionInfo } from "./types";
+
+/** Env var set on every launched tmux session, holding the session name */
+export const SESSION_ENV_VAR = "AWM_SESSION";
+
+/** Header hook commands use to pass $AWM_SESSION back to the hooks server */
+export const SESSION_HEADER = "x-awm-session";
+
+/**
+ * Build a map of agent session_id -> tmux session name from recorded metadata.
+ * Later entries win, so a session that was renamed (e.g. marked done) maps to its new name.
+ */
+export function buildSessionIdMap(entries: SessionMetaEntry[]): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const entry of entries) {
+    if (entry.agentSessionId) map.set(entry.agentSessionId, entry.sessionName);
+  }
+
+  const renamed = buildRenameMap(entries);
+  for (const [sessionId, name] of map) {
+    map.set(sessionId, resolveRenamed(name, renamed));
+  }
+  return map;
+}
+
+function buildRenameMap(entries: SessionMetaEntry[]): Map<string, string> {
+  const renamed = new Map<string, string>();
+  for (const entry of entries) {
+    if (entry.renamedFrom) renamed.set(entry.renamedFrom, entry.sessionName);
+  }
+  return renamed;
+}
+
+function resolveRenamed(name: string, renamed: Map<string, string>): string {
+  let current = name;
+  const seen = new Set<string>();
+  while (renamed.has(current) && !seen.has(current)) {
+    seen.add(current);
+    current = renamed.get(current)!;
+  }
+  return current;
+}
+
+/** Follow recorded renames (e.g. "-done") to a session's current name */
+export function resolveSessionName(name: string, entries: SessionMetaEntry[]): string {
+  return resolveRenamed(name, buildRenameMap(entries));
+}
+
+/** All names a tmux session has had (current name plus any it was renamed from) */
+export function getSessionAliases(name: string, entries: SessionMetaEntry[]): string[] {
+  const aliases = [name];
+  for (let i = 0; i < aliases.length; i++) {
+    for (const entry of entries) {
+      if (entry.sessionName === aliases[i] && entry.renamedFrom && !aliases.includes(entry.renamedFrom)) {
+        aliases.push(entry.renamedFrom);
+      }
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Work out which tmux session a hook came from.
+ *
+ * 1. The X-AWM-Session header (hook command forwards $AWM_SESSION)
+ * 2. A previously correlated session_id
+ * 3. Metadata for a running session launched in the same cwd before the hook arrived
+ * 4. A single live tmux session with a pane in the same cwd
+ */
+export function correlateHook(
+  payload: Record<string, unknown>,
+  timestamp: string,
+  options: {
+    headerSession?: string;
+    sessionIds: Map<string, string>;
+    metaEntries: SessionMetaEntry[];
+    liveSessions?: TmuxSessionInfo[];
+  }
+): string | undefined {
+  const header = options.headerSession?.trim();
+  if (header) return header;
+
+  const sessionId = typeof payload.session_id === "string" ? payload.session_id : undefined;
+  if (sessionId && options.sessionIds.has(sessionId)) {
+    return options.sessionIds.get(sessionId);
+  }
+
+  const cwd = typeof payload.cwd === "string" ? payload.cwd : undefined;
+  if (!cwd) return undefined;
+
+  // Prefer sessions not yet claimed by another agent session_id
+  const claimed = new Set(options.sessionIds.values());
+  const hookTime = Date.parse(timestamp);
+  const live = options.liveSessions ? new Set(options.liveSessions.map((s) => s.name)) : undefined;
+
+  const candidates = Array.from(buildSessionMetaMap(options.metaEntries).values())
+    .filter((meta) =>
+      meta.cwd === cwd &&
+      meta.status !== "done" &&
+      !claimed.has(meta.sessionName) &&
+      Date.parse(meta.timestamp) <= hookTime &&
+      (!live || live.has(meta.sessionName))
+    )
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+  if (candidates.length > 0) return candidates[0].sessionName;
+
+  if (options.liveSessions) {
+    const matches = options.liveSessions.filter((session) =>
+      !claimed.has(session.name) &&
+      session.windowList.some((w) => w.panes.some((p) => p.cwd === cwd))
+    );
+    if (matches.length === 1) return matches[0].name;
+  }
+
+  return undefined;
+}
+
+/** True if a hook was correlated to one of the given session names */
+export function hookBelongsToSession(
+  hook: HookEntry,
+  names: string[],
+  sessionIds: Map<string, string>
+): boolean {
+  if (hook.sessionName) return names.includes(hook.sessionName);
+  const sessionId = hook.payload.session_id;
+  if (typeof sessionId !== "string") return false;
+  const mapped = sessionIds.get(sessionId);
+  return mapped !== undefined && names.includes(mapped);
+}
+
+/** Read the most recent hooks correlated to a session (under any of its names) */
+export async function readSessionHooks(
+  dataDir: string,
+  sessionName: string,
+  metaEntries: SessionMetaEntry[],
+  limit: number
+): Promise<HookEntry[]> {
+  // Reads back from the end of the log only until it has found enough
+  return readHooks(dataDir, { sessionNames: getSessionAliases(sessionName, metaEntries), limit });
+}
@@ -0,0 +1,268 @@
+import { resolveAgentName, type AgentRegistry } from "./agents";
+import { COMPLETION_MODES } from "./completion";
+import { checkTaskOptions, normalizeTasks, validatePlan } from "./plan";
+import type { AgentType, SubTask } from "./types";
+
+/** What produces the plan: a registered agent in print mode, or a local command */
+export type OrchestratorSpec =
+  | { kind: "agent"; agent: AgentType }
+  | { kind: "command"; command: string };
+
+export const DEFAULT_ORCHESTRATOR = "claude";
+
+// A malformed answer gets one retry, with the problems fed back
+export const MAX_DECOMPOSE_ATTEMPTS = 2;
+
+// Decomposition is a single answer; anything slower is stuck
+const DECOMPOSE_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function buildDecompositionPrompt(registry: AgentRegistry): string {
+  const names = Object.keys(registry).map((name) => `"${name}"`);
+  const agentList = names.length > 1
+    ? `${names.slice(0, -1).join(", ")}, or ${names[names.length - 1]}`
+    : names.join("");
+  const guidelines = Object.entries(registry)
+    .filter(([, config]) => config.description)
+    .map(([name, config]) => `- Prefer "${name}" for ${config.description}`)
+    .join("\n");
+
+  return `You are a task decomposer. Given a complex task, break it down into independent sub-tasks that can be worked on in parallel by different coding agents.
+
+For each sub-task, specify:
+1. A short description (2-5 words)
+2. The recommended agent: ${agentList}
+3. The detailed prompt to give that agent
+4. Dependencies (IDs of tasks that must complete first, or empty array for independent tasks).
+   Tasks are numbered task_1, task_2, ... in array order.
+
+Output ONLY a JSON array, no other text:
+[
+  {
+    "description": "Short task name",
+    "agent": "claude",
+    "prompt": "Detailed instructions for the agent...",
+    "dependencies": []
+  }
+]
+
+Guidelines:
+${guidelines ? `${guidelines}\n` : ""}- Make tasks as independent as possible to maximize parallelism
+- Each task should be completable in a single agent session
+
+Task to decompose:
+`;
+}
+
+/**
+ * Parse --orchestrator (or --review, which runs the same way): an agent name, or
+ * "cmd:" followed by a shell command.
+ */
+export function parseOrchestratorSpec(value: string, registry: AgentRegistry, role = "orchestrator"): OrchestratorSpec {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("cmd:")) {
+    const command = trimmed.slice("cmd:".length).trim();
+    if (!command) throw new Error(`cmd: needs a command to run as the ${role}`);
+    return { kind: "command", command };
+  }
+
+  const agent = resolveAgentName(trimmed, registry);
+  if (!agent) {
+    throw new Error(`Unknown ${role} "${value}" (use an agent: ${Object.keys(registry).join(", ")}, or cmd:COMMAND)`);
+  }
+  if (!registry[agent].printFlags?.length) {
+    throw new Error(`Agent "${agent}" cannot be the ${role}: set "printFlags" for it in config.json`);
+  }
+  return { kind: "agent", agent };
+}
+
+/** Name recorded as the plan's orchestratorAgent */
+export function orchestratorName(spec: OrchestratorSpec): string {
+  return spec.kind === "agent" ? spec.agent : `cmd:${spec.command}`;
+}
+
+/**
+ * Run the orchestrator once and return its stdout. Agents get the prompt as an
+ * argument after their printFlags; commands run under sh with the prompt on stdin.
+ */
+export async function runOrchestrator(
+  spec: OrchestratorSpec,
+  prompt: string,
+  registry: AgentRegistry,
+  cwd?: string
+): Promise<string> {
+  const argv = spec.kind === "agent"
+    ? [registry[spec.agent].command, ...(registry[spec.agent].defaultFlags ?? []), ...(registry[spec.agent].printFlags ?? []), prompt]
+    : ["sh", "-c", spec.command];
+
+  const proc = Bun.spawn(argv, {
+    cwd,
+    stdin: spec.kind === "command" ? new Blob([prompt]) : "ignore",
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const timer = setTimeout(() => proc.kill(), DECOMPOSE_TIMEOUT_MS);
+
+  const [output, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  clearTimeout(timer);
+
+  if (exitCode !== 0) {
+    throw new Error(`${orchestratorName(spec)} exited with code ${exitCode}: ${stderr.trim()}`);
+  }
+  return output;
+}
+
+/**
+ * Find the JSON in an answer: the whole answer, a fenced code block, or the first
+ * balanced [...] / {...} span (string contents are skipped when matching brackets).
+ * Returns undefined when there is none.
+ */
+export function extractJson(output: string): unknown {
+  const trimmed = output.trim();
+  const candidates = [trimmed];
+  for (const fence of trimmed.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)) {
+    candidates.push(fence[1].trim());
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  for (let start = 0; start < trimmed.length; start++) {
+    const open = trimmed[start];
+    if (open !== "[" && open !== "{") continue;
+    const end = findClosingBracket(trimmed, start);
+    if (end === -1) continue;
+    try {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    } catch {
+      // Brackets in prose - keep looking
+    }
+  }
+
+  return undefined;
+}
+
+function findClosingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "[" || ch === "{") stack.push(ch === "[" ? "]" : "}");
+    else if (ch === "]" || ch === "}") {
+      if (stack.pop() !== ch) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/** Check each task's fields, collecting every problem rather than stopping at the first */
+export function validateDecomposition(value: unknown, registry: AgentRegistry): string[] {
+  const tasks = Array.isArray(value)
+    ? value
+    : (value && typeof value === "object" && Array.isArray((value as { tasks?: unknown }).tasks))
+      ? (value as { tasks: unknown[] }).tasks
+      : undefined;
+  if (!tasks) return ["expected a JSON array of tasks"];
+  if (tasks.length === 0) return ["the task array is empty"];
+
+  const issues: string[] = [];
+  tasks.forEach((task, i) => {
+    const label = `task ${i + 1}`;
+    if (!task || typeof task !== "object" || Array.isArray(task)) {
+      issues.push(`${label}: expected an object`);
+      return;
+    }
+    const t = task as Record<string, unknown>;
+    for (const field of ["description", "prompt"]) {
+      if (typeof t[field] !== "string" || !(t[field] as string).trim()) {
+        issues.push(`${label}: "${field}" must be a non-empty string`);
+      }
+    }
+    if (typeof t.agent !== "string" || !resolveAgentName(t.agent, registry)) {
+      issues.push(`${label}: "agent" must be one of ${Object.keys(registry).join(", ")}`);
+    }
+    if (t.dependencies !== undefined &&
+        (!Array.isArray(t.dependencies) || t.dependencies.some((d) => typeof d !== "string"))) {
+      issues.push(`${label}: "dependencies" must be an array of task IDs`);
+    }
+    if (t.completion !== undefined && !COMPLETION_MODES.includes(t.completion as never)) {
+      issues.push(`${label}: "completion" must be one of ${COMPLETION_MODES.join(", ")}`);
+    }
+    const optionIssues = checkTaskOptions(t);
+    issues.push(...optionIssues.map((issue) => `${label}: ${issue}`));
+    const retryAgent = (t.onFailure as { retryAgent?: unknown } | undefined)?.retryAgent;
+    if (optionIssues.length === 0 && typeof retryAgent === "string" && !resolveAgentName(retryAgent, registry)) {
+      issues.push(`${label}: "onFailure.retryAgent" must be one of ${Object.keys(registry).join(", ")}`);
+    }
+  });
+  return issues;
+}
+
+/** Turn orchestrator output into validated sub-tasks; errors lists every problem when it is unusable */
+export function parseDecomposition(output: string, registry: AgentRegistry): { tasks: SubTask[]; errors: string[] } {
+  const value = extractJson(output);
+  if (value === undefined) return { tasks: [], errors: ["no JSON found in the answer"] };
+
+  const errors = validateDecomposition(value, registry);
+  if (errors.length > 0) return { tasks: [], errors };
+
+  const raw = (Array.isArray(value) ? value : (value as { tasks: unknown[] }).tasks) as Array<Partial<SubTask>>;
+  // Task ids are positional, whatever the orchestrator put in "id"
+  let tasks: SubTask[];
+  try {
+    tasks = normalizeTasks(raw.map((task, i) => ({ ...task, id: `task_${i + 1}` })), registry);
+  } catch (err) {
+    // Anything the checks above missed still goes back to the orchestrator rather than ending the run
+    return { tasks: [], errors: [err instanceof Error ? err.message : String(err)] };
+  }
+
+  const planErrors = validatePlan(tasks);
+  return planErrors.length > 0 ? { tasks: [], errors: planErrors } : { tasks, errors: [] };
+}
+
+function buildRetryPrompt(basePrompt: string, errors: string[]): string {
+  return `${basePrompt}
+
+Your previous answer could not be used:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Answer again with ONLY the JSON array.`;
+}
+
+/** Ask the orchestrator for a plan, retrying once with the problems if its answer is malformed */
+export async function decomposeTask(
+  task: string,
+  spec: OrchestratorSpec,
+  registry: AgentRegistry,
+  options: { cwd?: string; attempts?: number; onRetry?: (errors: string[]) => void } = {}
+): Promise<SubTask[]> {
+  const basePrompt = buildDecompositionPrompt(registry) + task;
+  const attempts = options.attempts ?? MAX_DECOMPOSE_ATTEMPTS;
+  let prompt = basePrompt;
+
+  for (let attempt = 1; ; attempt++) {
+    const output = await runOrchestrator(spec, prompt, registry, options.cwd);
+    const { tasks, errors } = parseDecomposition(output, registry);
+    if (errors.length === 0) return tasks;
+    if (attempt >= attempts) {
+      throw new Error(`${orchestratorName(spec)} did not return a usable plan:\n${errors.map((error) => `  ${error}`).join("\n")}`);
+    }
+    options.onRetry?.(errors);
+    prompt = buildRetryPrompt(basePrompt, errors);
+  }
+}
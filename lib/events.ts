@@ -0,0 +1,182 @@
+import { normalizeHookEvent, hookEventName } from "./hooks";
+import type { ActivityLevel, HookEntry, SessionMetaEntry } from "./types";
+
+export type SessionAction = "created" | "renamed" | "done" | "killed" | "activity";
+
+export type HookEvent = {
+  type: "hook";
+  timestamp: string;
+  hook: HookEntry;
+};
+
+export type SessionEvent = {
+  type: "session";
+  timestamp: string;
+  action: SessionAction;
+  sessionName: string;
+  previousName?: string;      // renamed/done: the name before the rename
+  target?: string;            // activity: pane target (session:window.pane)
+  level?: ActivityLevel;      // activity: new level
+  previousLevel?: ActivityLevel;
+  meta?: SessionMetaEntry;
+};
+
+export type WatchEvent = HookEvent | SessionEvent;
+
+export type EventFilter = {
+  types?: string[];     // "hook" and/or "session"
+  events?: string[];    // hook event names and/or session actions
+  session?: string;     // session name prefix
+};
+
+export type EventListener = (event: WatchEvent, id: number) => void;
+
+export type EventBus = {
+  publish: (event: WatchEvent) => void;
+  subscribe: (listener: EventListener) => () => void;
+  size: () => number;
+};
+
+/** In-process pub/sub for hook and session events, with a monotonically increasing event id */
+export function createEventBus(): EventBus {
+  const listeners = new Set<EventListener>();
+  let nextId = 1;
+
+  return {
+    publish(event) {
+      const id = nextId++;
+      for (const listener of listeners) {
+        try {
+          listener(event, id);
+        } catch (err) {
+          console.warn(`[agentwatch] Event listener failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    size: () => listeners.size,
+  };
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  const items = value.split(",").map((s) => s.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/** Build a filter from /events query params (?type=hook,session&event=PreToolUse,killed&session=awm) */
+export function parseEventFilter(query: { type?: string; event?: string; session?: string }): EventFilter {
+  return {
+    types: splitList(query.type),
+    events: splitList(query.event)?.map((e) => normalizeHookEvent(e).toLowerCase()),
+    session: query.session?.trim() || undefined,
+  };
+}
+
+export function matchesEventFilter(event: WatchEvent, filter: EventFilter): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+
+  if (event.type === "hook") {
+    const name = hookEventName(event.hook.event, event.hook.payload).toLowerCase();
+    if (filter.events && !filter.events.includes(name)) return false;
+    if (filter.session && !event.hook.sessionName?.startsWith(filter.session)) return false;
+    return true;
+  }
+
+  if (filter.events && !filter.events.includes(event.action)) return false;
+  if (filter.session) {
+    const names = [event.sessionName, event.previousName].filter((n): n is string => !!n);
+    if (!names.some((n) => n.startsWith(filter.session!))) return false;
+  }
+  return true;
+}
+
+/** Live session name -> recorded status, compared between polls to detect lifecycle changes */
+export type SessionSnapshot = Map<string, SessionMetaEntry["status"]>;
+
+export function snapshotSessions(names: string[], metaMap: Map<string, SessionMetaEntry>): SessionSnapshot {
+  return new Map(names.map((name) => [name, metaMap.get(name)?.status]));
+}
+
+/**
+ * Compare two snapshots and describe what changed.
+ * A new name whose metadata says it was renamed from a vanished name is a rename
+ * ("done" if it was marked done); other new names are created, other vanished names killed.
+ */
+export function diffSessions(
+  prev: SessionSnapshot,
+  next: SessionSnapshot,
+  metaMap: Map<string, SessionMetaEntry>,
+  timestamp = new Date().toISOString()
+): SessionEvent[] {
+  const events: SessionEvent[] = [];
+  const renamedAway = new Set<string>();
+
+  for (const [name, status] of next) {
+    const meta = metaMap.get(name);
+    if (!prev.has(name)) {
+      const from = meta?.renamedFrom;
+      if (from && prev.has(from) && !next.has(from)) {
+        renamedAway.add(from);
+        events.push({
+          type: "session",
+          timestamp,
+          action: status === "done" ? "done" : "renamed",
+          sessionName: name,
+          previousName: from,
+          ...(meta ? { meta } : {}),
+        });
+      } else {
+        events.push({ type: "session", timestamp, action: "created", sessionName: name, ...(meta ? { meta } : {}) });
+      }
+    } else if (status === "done" && prev.get(name) !== "done") {
+      events.push({ type: "session", timestamp, action: "done", sessionName: name, ...(meta ? { meta } : {}) });
+    }
+  }
+
+  for (const name of prev.keys()) {
+    if (!next.has(name) && !renamedAway.has(name)) {
+      events.push({ type: "session", timestamp, action: "killed", sessionName: name });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Read WatchEvents from an SSE response body.
+ * Comment lines (keepalives) and frames without data are skipped.
+ */
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<WatchEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const frames = buffer.split(/\r?\n\r?\n/);
+    buffer = frames.pop() ?? "";
+    for (const frame of frames) {
+      const event = parseSSEFrame(frame);
+      if (event) yield event;
+    }
+  }
+}
+
+export function parseSSEFrame(frame: string): WatchEvent | undefined {
+  const data = frame
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /, ""))
+    .join("\n");
+  if (!data) return undefined;
+  try {
+    return JSON.parse(data) as WatchEvent;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,157 @@
+import { readFile } from "fs/promises";
+import { expandHome } from "./jsonl";
+import { hookEventName } from "./hooks";
+import { resolveAgentName, type AgentRegistry } from "./agents";
+import { buildSessionIdMap, getSessionAliases, hookBelongsToSession, resolveSessionName } from "./correlate";
+import type { CompletionTarget } from "./completion";
+import type { FailureAction, FailurePolicy, HookEntry, OrchestrationPlan, SessionMetaEntry, SubTask } from "./types";
+
+export const FAILURE_ACTIONS: FailureAction[] = ["skip", "continue", "abort"];
+
+// Tool hooks that end a failure streak (a tool call that worked) or extend it
+const TOOL_SUCCESS_EVENTS = new Set(["PostToolUse"]);
+const TOOL_FAILURE_EVENTS = new Set(["PostToolUseFailure"]);
+
+/** A task's policy with every field resolved */
+export type ResolvedFailurePolicy = FailurePolicy & { retries: number; then: FailureAction };
+
+export function parseFailureAction(value: string | undefined): FailureAction | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return FAILURE_ACTIONS.find((action) => action === normalized);
+}
+
+/** Problems with an onFailure policy from plan JSON */
+export function checkFailurePolicy(value: unknown): string[] {
+  if (value === undefined) return [];
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["onFailure must be an object"];
+  }
+  const policy = value as Record<string, unknown>;
+  const issues: string[] = [];
+  if (policy.retries !== undefined && (!Number.isInteger(policy.retries) || (policy.retries as number) < 0)) {
+    issues.push("onFailure.retries must be a non-negative integer");
+  }
+  if (policy.retryAgent !== undefined && (typeof policy.retryAgent !== "string" || !policy.retryAgent.trim())) {
+    issues.push("onFailure.retryAgent must be an agent name");
+  }
+  if (policy.then !== undefined && !FAILURE_ACTIONS.includes(policy.then as never)) {
+    issues.push(`onFailure.then must be one of ${FAILURE_ACTIONS.join(", ")}`);
+  }
+  if (policy.maxToolFailures !== undefined &&
+      (!Number.isInteger(policy.maxToolFailures) || (policy.maxToolFailures as number) < 1)) {
+    issues.push("onFailure.maxToolFailures must be a positive integer");
+  }
+  return issues;
+}
+
+/**
+ * Build a plan-wide policy from orchestrate's --retries, --retry-agent, --on-failure
+ * and --max-tool-failures; undefined when none is given.
+ */
+export function parseFailureOptions(
+  options: { retries?: string; retryAgent?: string; then?: string; maxToolFailures?: string },
+  registry: AgentRegistry
+): FailurePolicy | undefined {
+  const policy: FailurePolicy = {};
+  if (options.retries !== undefined) {
+    const retries = Number(options.retries);
+    if (!Number.isInteger(retries) || retries < 0) {
+      throw new Error(`--retries must be a non-negative integer, got "${options.retries}"`);
+    }
+    policy.retries = retries;
+  }
+  if (options.retryAgent !== undefined) {
+    const agent = resolveAgentName(options.retryAgent, registry);
+    if (!agent) {
+      throw new Error(`Unknown --retry-agent "${options.retryAgent}" (available: ${Object.keys(registry).join(", ")})`);
+    }
+    policy.retryAgent = agent;
+  }
+  if (options.then !== undefined) {
+    const then = parseFailureAction(options.then);
+    if (!then) throw new Error(`--on-failure must be one of: ${FAILURE_ACTIONS.join(", ")}`);
+    policy.then = then;
+  }
+  if (options.maxToolFailures !== undefined) {
+    const max = Number(options.maxToolFailures);
+    if (!Number.isInteger(max) || max < 1) {
+      throw new Error(`--max-tool-failures must be a positive integer, got "${options.maxToolFailures}"`);
+    }
+    policy.maxToolFailures = max;
+  }
+  return Object.keys(policy).length > 0 ? policy : undefined;
+}
+
+/** One-line description of a policy for the plan printout, e.g. "retry 2x on codex, then abort" */
+export function describeFailurePolicy(policy: FailurePolicy): string {
+  const parts: string[] = [];
+  if (policy.retries) {
+    parts.push(`retry ${policy.retries}x${policy.retryAgent ? ` on ${policy.retryAgent}` : ""}`);
+  }
+  if (policy.then) parts.push(parts.length > 0 ? `then ${policy.then}` : policy.then);
+  if (policy.maxToolFailures) parts.push(`fail after ${policy.maxToolFailures} tool failures in a row`);
+  return parts.join(", ");
+}
+
+/** The plan's onFailure with the task's own fields on top */
+export function resolveFailurePolicy(plan: Pick<OrchestrationPlan, "onFailure">, task: SubTask): ResolvedFailurePolicy {
+  const policy = { ...plan.onFailure, ...task.onFailure };
+  return { ...policy, retries: policy.retries ?? 0, then: policy.then ?? "skip" };
+}
+
+/** Where a task session's exit code is written when its agent exits */
+export function getExitCodeFile(dataDir: string, sessionName: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/exit-codes/${sessionName}`;
+}
+
+/** Exit code written by a finished session, or undefined while it runs (or if it was killed) */
+export async function readExitCode(filePath: string): Promise<number | undefined> {
+  const content = await readFile(expandHome(filePath), "utf8").catch(() => undefined);
+  const code = content === undefined ? NaN : parseInt(content.trim(), 10);
+  return Number.isNaN(code) ? undefined : code;
+}
+
+/** PostToolUseFailure hooks in a row, counting back from the session's latest tool hook since launch */
+export function toolFailureStreak(
+  target: Pick<CompletionTarget, "sessionName" | "launchedAt">,
+  metaEntries: SessionMetaEntry[],
+  hooks: HookEntry[]
+): number {
+  const current = resolveSessionName(target.sessionName, metaEntries);
+  const names = getSessionAliases(current, metaEntries);
+  const sessionIds = buildSessionIdMap(metaEntries);
+  const since = Date.parse(target.launchedAt);
+  let streak = 0;
+
+  for (let i = hooks.length - 1; i >= 0; i--) {
+    const hook = hooks[i];
+    if (Date.parse(hook.timestamp) < since) break;
+    const name = hookEventName(hook.event, hook.payload);
+    if (!TOOL_FAILURE_EVENTS.has(name) && !TOOL_SUCCESS_EVENTS.has(name)) continue;
+    if (!hookBelongsToSession(hook, names, sessionIds)) continue;
+    if (TOOL_SUCCESS_EVENTS.has(name)) break;
+    streak++;
+  }
+  return streak;
+}
+
+/**
+ * Why a running task has failed, if it has: its agent exited with a non-zero code,
+ * or (with maxToolFailures) its tool calls keep failing. Timeouts are checked separately.
+ */
+export async function detectFailure(
+  target: Pick<CompletionTarget, "sessionName" | "launchedAt">,
+  policy: FailurePolicy,
+  context: { metaEntries: SessionMetaEntry[]; hooks: HookEntry[]; exitCodeFile: string }
+): Promise<string | undefined> {
+  const exitCode = await readExitCode(context.exitCodeFile);
+  if (exitCode !== undefined && exitCode !== 0) {
+    return `agent exited with code ${exitCode}`;
+  }
+  if (policy.maxToolFailures) {
+    const streak = toolFailureStreak(target, context.metaEntries, context.hooks);
+    if (streak >= policy.maxToolFailures) return `${streak} tool failures in a row`;
+  }
+  return undefined;
+}
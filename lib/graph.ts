@@ -0,0 +1,147 @@
+import { buildSessionMetaMap } from "./sessions";
+import { resolveSessionName } from "./correlate";
+import type { OrchestrationPlan, OrchestrationRun, SessionMetaEntry, TaskRunStatus } from "./types";
+
+export type GraphFormat = "mermaid" | "dot";
+
+export const GRAPH_FORMATS: GraphFormat[] = ["mermaid", "dot"];
+
+/** Status a node is colored by; "ended" is a session that is gone without being marked done */
+export type NodeStatus = TaskRunStatus | "ended";
+
+const STATUS_COLORS: Record<NodeStatus, { fill: string; stroke: string }> = {
+  pending: { fill: "#ffffff", stroke: "#6c757d" },
+  queued: { fill: "#e2e3e5", stroke: "#6c757d" },
+  running: { fill: "#fff3cd", stroke: "#d39e00" },
+  completed: { fill: "#d4edda", stroke: "#28a745" },
+  failed: { fill: "#f8d7da", stroke: "#dc3545" },
+  skipped: { fill: "#e2e3e5", stroke: "#adb5bd" },
+  ended: { fill: "#d6d8db", stroke: "#6c757d" },
+};
+
+export function parseGraphFormat(value: string | undefined): GraphFormat | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return GRAPH_FORMATS.find((format) => format === normalized);
+}
+
+/**
+ * Live status of each task: the run state's final statuses (completed, failed,
+ * skipped) win; otherwise the task's latest session in sessions.jsonl decides.
+ */
+export function taskStatusesFromSessions(
+  plan: OrchestrationPlan,
+  metaEntries: SessionMetaEntry[],
+  liveSessions: Set<string>,
+  run?: OrchestrationRun
+): Record<string, NodeStatus> {
+  // Latest session per task (a retried task has several)
+  const latest = new Map<string, SessionMetaEntry>();
+  for (const entry of metaEntries) {
+    if (entry.planId === plan.id && entry.taskId) latest.set(entry.taskId, entry);
+  }
+  const metaMap = buildSessionMetaMap(metaEntries);
+
+  const statuses: Record<string, NodeStatus> = {};
+  for (const task of plan.tasks) {
+    const fromRun = run?.tasks[task.id]?.status;
+    const entry = latest.get(task.id);
+    if (fromRun === "completed" || fromRun === "failed" || fromRun === "skipped" || !entry) {
+      statuses[task.id] = fromRun ?? "pending";
+      continue;
+    }
+    const current = resolveSessionName(entry.sessionName, metaEntries);
+    const status = metaMap.get(current)?.status;
+    if (status === "done") {
+      statuses[task.id] = "completed";
+    } else if (status === "queued") {
+      statuses[task.id] = "queued";
+    } else {
+      statuses[task.id] = liveSessions.has(current) ? "running" : "ended";
+    }
+  }
+  return statuses;
+}
+
+/** Node ids safe for both formats, unique even when task ids only differ in punctuation */
+function nodeIds(plan: OrchestrationPlan): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const task of plan.tasks) {
+    let id = task.id.replace(/[^A-Za-z0-9_]/g, "_");
+    // Mermaid ids must start with a letter, and "end" closes a subgraph
+    if (!/^[A-Za-z_]/.test(id) || id.toLowerCase() === "end") id = `t_${id}`;
+    while (used.has(id)) id = `${id}_`;
+    used.add(id);
+    ids.set(task.id, id);
+  }
+  return ids;
+}
+
+function labelLines(task: OrchestrationPlan["tasks"][number], status: NodeStatus | undefined): string[] {
+  return [`${task.id}: ${task.description}`, status ? `${task.agent} · ${status}` : task.agent];
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/** Mermaid flowchart of the plan; with statuses, nodes are colored by status */
+export function renderMermaid(plan: OrchestrationPlan, statuses?: Record<string, NodeStatus>): string {
+  const ids = nodeIds(plan);
+  const lines = ["flowchart TD"];
+  for (const task of plan.tasks) {
+    const label = labelLines(task, statuses?.[task.id]).map(escapeMermaid).join("<br/>");
+    lines.push(`  ${ids.get(task.id)}["${label}"]`);
+  }
+  for (const task of plan.tasks) {
+    for (const dep of task.dependencies ?? []) {
+      if (ids.has(dep)) lines.push(`  ${ids.get(dep)} --> ${ids.get(task.id)}`);
+    }
+  }
+
+  if (statuses) {
+    const used = [...new Set(plan.tasks.map((task) => statuses[task.id]).filter(Boolean))];
+    for (const status of used) {
+      const { fill, stroke } = STATUS_COLORS[status];
+      lines.push(`  classDef ${status} fill:${fill},stroke:${stroke}`);
+      const members = plan.tasks.filter((task) => statuses[task.id] === status).map((task) => ids.get(task.id));
+      lines.push(`  class ${members.join(",")} ${status}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Graphviz digraph of the plan; with statuses, nodes are colored by status */
+export function renderDot(plan: OrchestrationPlan, statuses?: Record<string, NodeStatus>): string {
+  const ids = nodeIds(plan);
+  const lines = [
+    `digraph "${escapeDot(plan.id)}" {`,
+    "  rankdir=TB;",
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica"];',
+  ];
+  for (const task of plan.tasks) {
+    const status = statuses?.[task.id];
+    const label = labelLines(task, status).map(escapeDot).join("\\n");
+    const colors = status ? `, fillcolor="${STATUS_COLORS[status].fill}", color="${STATUS_COLORS[status].stroke}"` : "";
+    lines.push(`  "${ids.get(task.id)}" [label="${label}"${colors}];`);
+  }
+  for (const task of plan.tasks) {
+    for (const dep of task.dependencies ?? []) {
+      if (ids.has(dep)) lines.push(`  "${ids.get(dep)}" -> "${ids.get(task.id)}";`);
+    }
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+export function renderPlanGraph(
+  plan: OrchestrationPlan,
+  format: GraphFormat,
+  statuses?: Record<string, NodeStatus>
+): string {
+  return format === "mermaid" ? renderMermaid(plan, statuses) : renderDot(plan, statuses);
+}
@@ -1,5 +1,12 @@
 import type { HookEntry } from "./types";
 
+const HOOKS_FILE = "hooks.jsonl";
+
+export function getHooksFile(dataDir: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/${HOOKS_FILE}`;
+}
+
 /**
  * Format a hook payload for display, extracting relevant info based on event type.
  */
@@ -57,3 +64,26 @@ export function formatHookPayload(payload: Record<string, unknown>, maxLen = 50)
   const result = parts.join(" ");
   return result.length <= maxLen ? result : result.slice(0, maxLen - 1) + "…";
 }
+
+/**
+ * Normalize a hook event name to Claude Code's PascalCase form.
+ * Accepts both "PreToolUse" and the kebab-case "pre-tool-use" used in hook URLs.
+ */
+export function normalizeHookEvent(event: string): string {
+  if (!event.includes("-") && !event.includes("_")) {
+    return event.charAt(0).toUpperCase() + event.slice(1);
+  }
+  return event
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
+    .join("");
+}
+
+/** Resolve the event name for a hook, preferring the payload's hook_event_name */
+export function hookEventName(event: string, payload: Record<string, unknown>): string {
+  if (typeof payload.hook_event_name === "string" && payload.hook_event_name) {
+    return payload.hook_event_name;
+  }
+  return normalizeHookEvent(event);
+}
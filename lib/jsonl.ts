@@ -1,6 +1,13 @@
-import { mkdir, appendFile, readFile } from "fs/promises";
-import { dirname } from "path";
+import { existsSync } from "fs";
+import { mkdir, appendFile, link, readFile, readdir, rename, stat, truncate, unlink, writeFile, open, type FileHandle } from "fs/promises";
+import { basename, dirname, join } from "path";
 import { homedir } from "os";
+import { promisify } from "util";
+import { gunzip, gzip } from "zlib";
+import type { LogRotationPolicy } from "./types";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
 
 export function expandHome(inputPath: string): string {
   if (inputPath === "~") return homedir();
@@ -10,44 +17,541 @@ export function expandHome(inputPath: string): string {
   return inputPath;
 }
 
+/** A rotated part of a JSONL log: <name>.<rotated-at>.jsonl, or .jsonl.gz when compressed */
+export type JsonlSegment = {
+  path: string;
+  rotatedAt: Date;
+  compressed: boolean;
+};
+
+const MB = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start time of each active log, keyed by path and checked against the file's inode
+const activeSince = new Map<string, { ino: number; since: number }>();
+
+// Parsed entries of rotated segments read with cacheSegments, keyed by log path and then by
+// segment path without ".gz": a segment never changes once rotated, compression only renames it
+const segmentCache = new Map<string, Map<string, unknown[]>>();
+
+/** "2024-01-02T03:04:05.678Z" -> "2024-01-02T03-04-05-678Z" (sortable and safe in file names) */
+function segmentStamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+function splitLogPath(filePath: string): { dir: string; name: string } {
+  const expanded = expandHome(filePath);
+  return { dir: dirname(expanded), name: basename(expanded).replace(/\.jsonl$/, "") };
+}
+
+/** Rotated segments of a log, oldest first */
+export async function listJsonlSegments(filePath: string): Promise<JsonlSegment[]> {
+  const { dir, name } = splitLogPath(filePath);
+  const files = await readdir(dir).catch(() => [] as string[]);
+  const pattern = /^(\d{4}-\d\d-\d\d)T(\d\d)-(\d\d)-(\d\d)-(\d{3})Z(?:-(\d+))?\.jsonl(\.gz)?$/;
+  const segments: (JsonlSegment & { n: number })[] = [];
+  for (const file of files) {
+    if (!file.startsWith(`${name}.`)) continue;
+    const match = file.slice(name.length + 1).match(pattern);
+    if (!match) continue;
+    const [, day, h, m, sec, ms, n, gz] = match;
+    segments.push({
+      path: join(dir, file),
+      rotatedAt: new Date(`${day}T${h}:${m}:${sec}.${ms}Z`),
+      compressed: Boolean(gz),
+      n: n ? parseInt(n, 10) : 0,
+    });
+  }
+  return segments
+    .sort((a, b) => a.rotatedAt.getTime() - b.rotatedAt.getTime() || a.n - b.n)
+    .map(({ n: _n, ...segment }) => segment);
+}
+
+/** When the active log started: its first entry's timestamp, else the file's modification time */
+async function logStartTime(filePath: string, info: { ino: number; mtimeMs: number }): Promise<number> {
+  const cached = activeSince.get(filePath);
+  if (cached?.ino === info.ino) return cached.since;
+
+  let since = info.mtimeMs;
+  const handle = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(64 * 1024);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    const firstLine = buffer.subarray(0, bytesRead).toString("utf8").split("\n")[0];
+    const timestamp = Date.parse((JSON.parse(firstLine) as { timestamp?: string }).timestamp ?? "");
+    if (!Number.isNaN(timestamp)) since = timestamp;
+  } catch {
+    // No parseable first entry - fall back to mtime
+  } finally {
+    await handle.close();
+  }
+  activeSince.set(filePath, { ino: info.ino, since });
+  return since;
+}
+
+/** Delete the oldest segments beyond keepSegments, and segments rotated more than keepDays ago */
+export async function pruneJsonlSegments(
+  filePath: string,
+  policy: LogRotationPolicy,
+  now = new Date()
+): Promise<string[]> {
+  const segments = await listJsonlSegments(filePath);
+  const expired = segments.filter((segment, i) =>
+    (policy.keepSegments !== undefined && i < segments.length - policy.keepSegments) ||
+    (policy.keepDays !== undefined && now.getTime() - segment.rotatedAt.getTime() > policy.keepDays * DAY_MS)
+  );
+  for (const segment of expired) {
+    await unlink(segment.path).catch(() => {});
+  }
+  return expired.map((segment) => segment.path);
+}
+
+/**
+ * Move the active log to a new segment once it is larger than maxSizeMB or its first
+ * entry is older than maxAgeDays, gzip the segment with compress, then apply retention.
+ * Returns the new segment's path, or undefined if the log was not rotated.
+ */
+export async function rotateJsonl(
+  filePath: string,
+  policy: LogRotationPolicy,
+  now = new Date()
+): Promise<string | undefined> {
+  const expanded = expandHome(filePath);
+  const info = await stat(expanded).catch(() => undefined);
+  if (!info || info.size === 0) return undefined;
+
+  const tooBig = policy.maxSizeMB !== undefined && info.size >= policy.maxSizeMB * MB;
+  const tooOld = policy.maxAgeDays !== undefined &&
+    now.getTime() - (await logStartTime(expanded, info)) >= policy.maxAgeDays * DAY_MS;
+  if (!tooBig && !tooOld) return undefined;
+
+  const { dir, name } = splitLogPath(expanded);
+  let segment = join(dir, `${name}.${segmentStamp(now)}.jsonl`);
+  // Two rotations in the same millisecond (e.g. by another process) must not overwrite each other
+  for (let n = 1; existsSync(segment) || existsSync(`${segment}.gz`); n++) {
+    segment = join(dir, `${name}.${segmentStamp(now)}-${n}.jsonl`);
+  }
+  try {
+    await rename(expanded, segment);
+  } catch (err) {
+    // Another process rotated it first
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+  activeSince.delete(expanded);
+
+  if (policy.compress) {
+    const compressed = await gzipAsync(await readFile(segment));
+    await writeFile(`${segment}.gz.tmp`, compressed);
+    await rename(`${segment}.gz.tmp`, `${segment}.gz`);
+    await unlink(segment);
+    segment = `${segment}.gz`;
+  }
+
+  await pruneJsonlSegments(expanded, policy, now);
+  return segment;
+}
+
+const LOCK_TIMEOUT_MS = 10_000;
+// A lock this old is left over from a process that died while writing
+const STALE_LOCK_MS = 30_000;
+
+// Writers in this process wait their turn here instead of polling the lock file
+const lockQueues = new Map<string, Promise<unknown>>();
+
+/** True if a process with this pid exists (lock holders, queue owners) */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: alive, but owned by another user
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** The lock file's inode if its holder is gone (or never wrote its pid) or it is older than STALE_LOCK_MS */
+async function findStaleLock(lockPath: string): Promise<number | undefined> {
+  try {
+    // Stat and read through one handle, so both describe the same file
+    const handle = await open(lockPath, "r");
+    try {
+      const info = await handle.stat();
+      const content = await handle.readFile("utf8");
+      const pid = parseInt(content, 10);
+      const stale = Date.now() - info.mtimeMs > STALE_LOCK_MS ||
+        (content.endsWith("\n") && !(pid > 0 && isProcessAlive(pid)));
+      return stale ? info.ino : undefined;
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Released meanwhile: try again
+    return undefined;
+  }
+}
+
+/**
+ * Remove a stale lock without deleting a fresh one: processes breaking it at the same time
+ * each rename it to a name of their own, so only one gets the file, and that one deletes it
+ * only if it is still the file found stale. A fresh lock that took its place is put back.
+ */
+async function breakStaleLock(lockPath: string, staleIno: number): Promise<void> {
+  const moved = `${lockPath}.stale-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  try {
+    await rename(lockPath, moved);
+  } catch {
+    return;
+  }
+  try {
+    if ((await stat(moved)).ino !== staleIno) {
+      // link fails if yet another lock exists by now
+      await link(moved, lockPath).catch(() => {});
+    }
+  } finally {
+    await unlink(moved).catch(() => {});
+  }
+}
+
+/** Create the lock file, waiting for its holder; returns the open lock for withFileLock to refresh and release */
+async function acquireLock(lockPath: string): Promise<FileHandle> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // O_EXCL: exactly one process creates the file
+      const handle = await open(lockPath, "wx");
+      try {
+        await handle.writeFile(`${process.pid}\n`);
+      } catch (err) {
+        await handle.close();
+        await unlink(lockPath).catch(() => {});
+        throw err;
+      }
+      return handle;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+    const staleIno = await findStaleLock(lockPath);
+    if (staleIno !== undefined) {
+      await breakStaleLock(lockPath, staleIno);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}; delete it if no agentwatch process is writing`);
+    }
+    await Bun.sleep(Math.min(5 * 2 ** attempt, 100));
+  }
+}
+
+/** Delete the lock if it is still ours (it may have been broken as stale and taken by another process) */
+async function releaseLock(lockPath: string, handle: FileHandle): Promise<void> {
+  try {
+    const [ours, current] = await Promise.all([handle.stat(), stat(lockPath).catch(() => undefined)]);
+    if (current?.ino === ours.ino) await unlink(lockPath).catch(() => {});
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Run fn holding <file>.lock, so writers in other processes (launch, orchestrate, watch,
+ * ctl) take turns: their lines never interleave and a rotation never races an append.
+ * The lock's mtime is refreshed while fn runs, so a long rotation never looks stale.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+  const expanded = expandHome(filePath);
+  const run = (lockQueues.get(expanded) ?? Promise.resolve()).catch(() => {}).then(async () => {
+    const lockPath = `${expanded}.lock`;
+    await mkdir(dirname(expanded), { recursive: true });
+    const handle = await acquireLock(lockPath);
+    const refresh = setInterval(() => {
+      const now = new Date();
+      handle.utimes(now, now).catch(() => {});
+    }, STALE_LOCK_MS / 3);
+    try {
+      return await fn();
+    } finally {
+      clearInterval(refresh);
+      await releaseLock(lockPath, handle);
+    }
+  });
+  lockQueues.set(expanded, run);
+  try {
+    return await run;
+  } finally {
+    if (lockQueues.get(expanded) === run) lockQueues.delete(expanded);
+  }
+}
+
+/** Where recoverJsonlTail moves torn lines: <name>.quarantine.jsonl next to the log */
+export function getQuarantineFile(filePath: string): string {
+  const { dir, name } = splitLogPath(filePath);
+  return join(dir, `${name}.quarantine.jsonl`);
+}
+
+/** A torn line recoverJsonlTail cut off the end of a log */
+export type QuarantinedLine = {
+  file: string;
+  quarantineFile: string;
+  offset: number;  // where the line started in the log
+  text: string;
+};
+
+/** One-line notice about a quarantined line, for the CLIs to print */
+export function formatQuarantinedLine(line: QuarantinedLine): string {
+  return `[agentwatch] Moved a torn line (${Buffer.byteLength(line.text)} bytes) from the end of ${line.file} to ${line.quarantineFile}`;
+}
+
+/** Tell the user about a torn line a write moved to the quarantine file */
+export function warnQuarantined(line: QuarantinedLine | undefined): void {
+  if (line) console.warn(formatQuarantinedLine(line));
+}
+
+/**
+ * Check the end of a log for a line left without its newline by a writer that died
+ * mid-append. A complete entry just gets its newline; anything else is moved to the
+ * quarantine file (with where it was found) and cut off, so the next append starts
+ * on a fresh line. Call with the file lock held. Returns what was quarantined, if anything.
+ */
+export async function recoverJsonlTail(filePath: string): Promise<QuarantinedLine | undefined> {
+  const expanded = expandHome(filePath);
+  let tail: Buffer | undefined;
+  let size = 0;
+  try {
+    const handle = await open(expanded, "r");
+    try {
+      size = (await handle.stat()).size;
+      // Walk back to the last newline
+      const parts: Buffer[] = [];
+      for (let end = size; end > 0;) {
+        const length = Math.min(TAIL_CHUNK_BYTES, end);
+        const chunk = Buffer.alloc(length);
+        await handle.read(chunk, 0, length, end - length);
+        const newline = chunk.lastIndexOf(0x0a);
+        parts.unshift(newline >= 0 ? chunk.subarray(newline + 1) : chunk);
+        if (newline >= 0) break;
+        end -= length;
+      }
+      tail = Buffer.concat(parts);
+    } finally {
+      await handle.close();
+    }
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+  if (tail.length === 0) return undefined;
+
+  const text = tail.toString("utf8");
+  if (parseJsonlLine(text) !== undefined) {
+    await appendFile(expanded, "\n", "utf8");
+    return undefined;
+  }
+  const offset = size - tail.length;
+  const quarantineFile = getQuarantineFile(expanded);
+  const record = { quarantinedAt: new Date().toISOString(), file: basename(expanded), offset, text };
+  await appendFile(quarantineFile, `${JSON.stringify(record)}\n`, "utf8");
+  await truncate(expanded, offset);
+  return { file: expanded, quarantineFile, offset, text };
+}
+
+/** Repair a torn end, rotate if due, then append; callers hold the file lock */
+async function appendLocked(
+  expanded: string,
+  value: unknown,
+  rotation?: LogRotationPolicy
+): Promise<QuarantinedLine | undefined> {
+  const quarantined = await recoverJsonlTail(expanded);
+  if (rotation) await rotateJsonl(expanded, rotation);
+  await appendFile(expanded, `${JSON.stringify(value)}\n`, "utf8");
+  return quarantined;
+}
+
+/**
+ * Append one entry; with a rotation policy, the log is rotated first when it is due.
+ * Returns the torn line moved out of the way first, if any, for the caller to report.
+ */
 export async function appendJsonl(
   filePath: string,
-  value: unknown
-): Promise<void> {
+  value: unknown,
+  rotation?: LogRotationPolicy
+): Promise<QuarantinedLine | undefined> {
   const expanded = expandHome(filePath);
-  await mkdir(dirname(expanded), { recursive: true });
-  const line = `${JSON.stringify(value)}\n`;
-  await appendFile(expanded, line, "utf8");
+  return withFileLock(expanded, () => appendLocked(expanded, value, rotation));
 }
 
-export async function readJsonl<T>(filePath: string): Promise<T[]> {
+/**
+ * Read-modify-append: with the file lock held, build gets the latest entry that matches
+ * (found by reading backwards from the end) and the entry it returns is appended, so no
+ * other writer can append in between. Returns the appended entry and, as appendJsonl
+ * does, any quarantined line.
+ */
+export async function updateJsonl<T>(
+  filePath: string,
+  match: (entry: T) => boolean,
+  build: (latest: T | undefined) => T,
+  rotation?: LogRotationPolicy
+): Promise<{ entry: T; quarantined?: QuarantinedLine }> {
   const expanded = expandHome(filePath);
+  return withFileLock(expanded, async () => {
+    const [latest] = await readJsonlTail<T>(expanded, 1, match);
+    const entry = build(latest);
+    const quarantined = await appendLocked(expanded, entry, rotation);
+    return { entry, quarantined };
+  });
+}
+
+function parseJsonlLine<T>(line: string): T | undefined {
+  const trimmed = line.trim();
+  if (!trimmed) return undefined;
   try {
-    const content = await readFile(expanded, "utf8");
-    const lines = content.split("\n");
-    const result: T[] = [];
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-      try {
-        result.push(JSON.parse(trimmed) as T);
-      } catch {
-        // Skip malformed JSONL lines
+    return JSON.parse(trimmed) as T;
+  } catch {
+    // Skip malformed JSONL lines
+    return undefined;
+  }
+}
+
+function parseJsonlLines<T>(content: string, result: T[] = []): T[] {
+  for (const line of content.split("\n")) {
+    const entry = parseJsonlLine<T>(line);
+    if (entry !== undefined) result.push(entry);
+  }
+  return result;
+}
+
+// Bytes read per step when scanning a log backwards
+const TAIL_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Lines of a file from last to first, reading fixed-size chunks from the end so only
+ * as much of the file is read as the caller consumes. Splitting on the newline byte is
+ * safe in UTF-8, since it never occurs inside a multi-byte character.
+ */
+async function* readLinesBackward(path: string): AsyncGenerator<string> {
+  const handle = await open(path, "r");
+  try {
+    let position = (await handle.stat()).size;
+    let carry = Buffer.alloc(0);  // start of a line whose beginning is in an earlier chunk
+    while (position > 0) {
+      const length = Math.min(TAIL_CHUNK_BYTES, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+      const buffer = carry.length > 0 ? Buffer.concat([chunk, carry]) : chunk;
+      let end = buffer.length;
+      for (let i = buffer.length - 1; i >= 0; i--) {
+        if (buffer[i] !== 0x0a) continue;
+        if (end > i + 1) yield buffer.toString("utf8", i + 1, end);
+        end = i;
       }
+      carry = buffer.subarray(0, end);
     }
-    return result;
+    if (carry.length > 0) yield carry.toString("utf8");
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readLogFile(path: string, compressed: boolean): Promise<string> {
+  try {
+    return compressed ? (await gunzipAsync(await readFile(path))).toString("utf8") : await readFile(path, "utf8");
   } catch (err) {
-    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
-      return [];
+    const code = (err as NodeJS.ErrnoException).code ?? "";
+    // Skip a corrupt gzip segment like a malformed line
+    if (code.startsWith("Z_")) return "";
+    if (code !== "ENOENT") throw err;
+    // A segment compressed (or pruned) since it was listed
+    return compressed ? "" : readLogFile(`${path}.gz`, true);
+  }
+}
+
+/**
+ * Read every entry of a log, oldest first: its rotated segments, then the active file.
+ * With since (an ISO timestamp), segments rotated before then, which hold only older
+ * entries, are skipped; entries are not filtered otherwise. With cacheSegments, rotated
+ * segments are parsed (and decompressed) once per process, for small logs read often.
+ */
+export async function readJsonl<T>(
+  filePath: string,
+  options: { since?: string; cacheSegments?: boolean } = {}
+): Promise<T[]> {
+  const expanded = expandHome(filePath);
+  const since = options.since !== undefined ? Date.parse(options.since) : undefined;
+  const result: T[] = [];
+  const segments = await listJsonlSegments(expanded);
+  const cache = options.cacheSegments ? cachedSegments(expanded, segments) : undefined;
+  for (const segment of segments) {
+    if (since !== undefined && segment.rotatedAt.getTime() < since) continue;
+    if (!cache) {
+      parseJsonlLines(await readLogFile(segment.path, segment.compressed), result);
+      continue;
     }
-    throw err;
+    const key = segment.path.replace(/\.gz$/, "");
+    let entries = cache.get(key) as T[] | undefined;
+    if (!entries) {
+      entries = parseJsonlLines(await readLogFile(segment.path, segment.compressed), []);
+      cache.set(key, entries);
+    }
+    // Copies, so a caller changing an entry does not change the cache
+    for (const entry of entries) result.push({ ...entry });
+  }
+  try {
+    parseJsonlLines(await readFile(expanded, "utf8"), result);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
   }
+  return result;
 }
 
+/** The segment cache of one log, dropping segments that were pruned since the last read */
+function cachedSegments(filePath: string, segments: JsonlSegment[]): Map<string, unknown[]> {
+  const cache = segmentCache.get(filePath) ?? new Map<string, unknown[]>();
+  segmentCache.set(filePath, cache);
+  const listed = new Set(segments.map((segment) => segment.path.replace(/\.gz$/, "")));
+  for (const key of cache.keys()) {
+    if (!listed.has(key)) cache.delete(key);
+  }
+  return cache;
+}
+
+/**
+ * The last `limit` entries (that match `filter`, if given), oldest first. The log is
+ * scanned backwards from its end and the scan stops once enough entries are found, so
+ * older data, including rotated segments, is only read when the newer data runs short.
+ * Compressed segments are decompressed whole.
+ */
 export async function readJsonlTail<T>(
   filePath: string,
-  limit: number
+  limit: number,
+  filter?: (entry: T) => boolean
 ): Promise<T[]> {
-  const all = await readJsonl<T>(filePath);
-  return all.slice(-limit);
+  if (!(limit > 0)) return [];
+  const expanded = expandHome(filePath);
+  const found: T[] = [];  // newest first
+  const scan = async (lines: AsyncIterable<string> | Iterable<string>): Promise<void> => {
+    for await (const line of lines) {
+      const entry = parseJsonlLine<T>(line);
+      if (entry !== undefined && (!filter || filter(entry))) found.push(entry);
+      if (found.length >= limit) return;
+    }
+  };
+  // Plain files are scanned in place; gzip segments have to be decompressed first
+  const scanFile = async (path: string, compressed: boolean): Promise<void> => {
+    if (compressed) return scan((await readLogFile(path, true)).split("\n").reverse());
+    try {
+      await scan(readLinesBackward(path));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      // A segment compressed since it was listed
+      if (path !== expanded) await scanFile(`${path}.gz`, true);
+    }
+  };
+
+  await scanFile(expanded, false);
+  const segments = found.length < limit ? await listJsonlSegments(expanded) : [];
+  for (let i = segments.length - 1; i >= 0 && found.length < limit; i--) {
+    await scanFile(segments[i].path, segments[i].compressed);
+  }
+  return found.reverse();
 }
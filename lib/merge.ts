@@ -0,0 +1,204 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import { expandHome } from "./jsonl";
+import { computeWaves } from "./plan";
+import { truncateOutput } from "./outputs";
+import { WORKTREE_BRANCH_PREFIX, branchExists, getWorktreesDir, runGit, worktreeHasChanges } from "./worktree";
+import type { OrchestrationPlan, OrchestrationRun, SessionMetaEntry, WorktreeInfo } from "./types";
+
+/**
+ * `ctl plan merge`: merge the worktree branches of a plan's tasks into one integration
+ * branch, dependencies first. The integration branch is checked out in its own worktree
+ * so the user's checkout is left alone; merging stops at the first conflict and picks up
+ * from there when run again.
+ */
+
+export type MergeStatus = "merged" | "up-to-date" | "conflict" | "skipped" | "pending";
+
+export type MergeStep = {
+  taskId: string;
+  status: MergeStatus;
+  sessionName?: string;
+  worktree?: WorktreeInfo;
+  reason?: string;        // why the task was skipped
+  conflicts?: string[];   // files left with conflicts
+};
+
+export type MergeResult = {
+  branch: string;         // integration branch
+  path: string;           // its worktree
+  steps: MergeStep[];
+  conflictDiff?: string;  // conflicting hunks, when a merge stopped at a conflict
+  resumed?: boolean;      // the conflict is from an earlier run that is not resolved yet
+};
+
+export function integrationBranchName(planId: string): string {
+  return `${WORKTREE_BRANCH_PREFIX}merge-${planId}`;
+}
+
+export function getMergeWorktreePath(dataDir: string, planId: string): string {
+  return join(getWorktreesDir(expandHome(dataDir)), `merge-${planId}`);
+}
+
+/** Each task's latest session launched with --worktree (a retried task has several) */
+export function latestTaskWorktrees(planId: string, metaEntries: SessionMetaEntry[]): Map<string, SessionMetaEntry> {
+  const latest = new Map<string, SessionMetaEntry>();
+  for (const entry of metaEntries) {
+    if (entry.planId === planId && entry.taskId && entry.worktree) latest.set(entry.taskId, entry);
+  }
+  return latest;
+}
+
+/**
+ * Tasks in merge order (dependencies first, as in computeWaves) with the branch each
+ * one's changes are on: its latest session launched with --worktree. With run state,
+ * tasks that did not complete are skipped.
+ */
+export function planMergeSteps(
+  plan: OrchestrationPlan,
+  metaEntries: SessionMetaEntry[],
+  run?: OrchestrationRun
+): MergeStep[] {
+  const latest = latestTaskWorktrees(plan.id, metaEntries);
+
+  return computeWaves(plan.tasks).flat().map((taskId): MergeStep => {
+    const status = run?.tasks[taskId]?.status;
+    if (run && status !== "completed") {
+      return { taskId, status: "skipped", reason: `task is ${status ?? "pending"}` };
+    }
+    const entry = latest.get(taskId);
+    if (!entry) {
+      return { taskId, status: "skipped", reason: "no worktree branch (not launched with --worktree)" };
+    }
+    return { taskId, status: "pending", sessionName: entry.sessionName, worktree: entry.worktree };
+  });
+}
+
+async function unmergedFiles(cwd: string): Promise<string[]> {
+  const output = await runGit(["diff", "--name-only", "--diff-filter=U"], cwd);
+  return output ? output.split("\n") : [];
+}
+
+/** Check out the integration branch in its worktree, creating both as needed */
+async function prepareIntegrationWorktree(
+  branch: string,
+  path: string,
+  repoRoot: string,
+  baseRef: string
+): Promise<void> {
+  if (existsSync(path)) return;
+  if (await branchExists(branch, repoRoot)) {
+    await runGit(["worktree", "add", path, branch], repoRoot);
+  } else {
+    await runGit(["worktree", "add", "-b", branch, path, baseRef], repoRoot);
+  }
+}
+
+/**
+ * Merge the pending steps' branches into the plan's integration branch, which starts
+ * at the first task's base commit. Worktrees with uncommitted changes are skipped
+ * unless commitChanges is set, in which case the changes are committed to the task
+ * branch first. Returns the steps with their outcome; steps after a conflict stay pending.
+ */
+export async function mergePlanBranches(
+  plan: OrchestrationPlan,
+  steps: MergeStep[],
+  options: { dataDir: string; commitChanges?: boolean }
+): Promise<MergeResult> {
+  const first = steps.find((step) => step.status === "pending");
+  if (!first) throw new Error(`No task branches to merge for plan ${plan.id}`);
+
+  const { repoRoot } = first.worktree!;
+  const branch = integrationBranchName(plan.id);
+  const path = getMergeWorktreePath(options.dataDir, plan.id);
+  await prepareIntegrationWorktree(branch, path, repoRoot, first.worktree!.baseRef);
+
+  const descriptions = new Map(plan.tasks.map((task) => [task.id, task.description]));
+  const result: MergeResult = { branch, path, steps: steps.map((step) => ({ ...step })) };
+  // A merge left in progress by an earlier run belongs to the first branch not merged yet
+  let inProgress = await runGit(["rev-parse", "--verify", "--quiet", "MERGE_HEAD"], path).then(() => true, () => false);
+
+  for (const step of result.steps) {
+    if (step.status !== "pending") continue;
+    const worktree = step.worktree!;
+    if (worktree.repoRoot !== repoRoot) {
+      Object.assign(step, { status: "skipped", reason: `in another repository (${worktree.repoRoot})` });
+      continue;
+    }
+    if (!(await branchExists(worktree.branch, repoRoot))) {
+      Object.assign(step, { status: "skipped", reason: `branch ${worktree.branch} no longer exists` });
+      continue;
+    }
+    if (!inProgress && await worktreeHasChanges(worktree)) {
+      if (!options.commitChanges) {
+        Object.assign(step, { status: "skipped", reason: `uncommitted changes in ${worktree.path} (use --commit)` });
+        continue;
+      }
+      await runGit(["add", "-A"], worktree.path);
+      await runGit(["commit", "-q", "-m", `${step.taskId}: ${descriptions.get(step.taskId) ?? "changes"}`], worktree.path);
+    }
+    if (await runGit(["merge-base", "--is-ancestor", worktree.branch, "HEAD"], path).then(() => true, () => false)) {
+      step.status = "up-to-date";
+      continue;
+    }
+
+    if (inProgress) {
+      inProgress = false;
+      const conflicts = await unmergedFiles(path);
+      if (conflicts.length > 0) {
+        Object.assign(step, { status: "conflict", conflicts });
+        result.conflictDiff = await runGit(["diff"], path);
+        result.resumed = true;
+        break;
+      }
+      // Conflicts were resolved but the merge was never committed
+      await runGit(["commit", "-q", "--no-edit"], path);
+      step.status = "merged";
+      continue;
+    }
+
+    try {
+      await runGit(["merge", "-q", "--no-ff", "-m", `Merge task ${step.taskId} (${worktree.branch})`, worktree.branch], path);
+      step.status = "merged";
+    } catch (err) {
+      const conflicts = await unmergedFiles(path);
+      if (conflicts.length === 0) throw err;
+      Object.assign(step, { status: "conflict", conflicts });
+      result.conflictDiff = await runGit(["diff"], path);
+      break;
+    }
+  }
+  return result;
+}
+
+/** Prompt for an agent session that resolves a merge conflict in the integration worktree */
+export function buildResolvePrompt(plan: OrchestrationPlan, result: MergeResult): string {
+  const step = result.steps.find((s) => s.status === "conflict")!;
+  const task = plan.tasks.find((t) => t.id === step.taskId);
+  const hunks = truncateOutput(result.conflictDiff ?? "", "start");
+  return `You are resolving a git merge conflict in ${result.path}, which has branch ${result.branch} checked out.
+
+The branches of a multi-agent plan are being merged there one by one. Merging task "${step.taskId}"${task ? ` (${task.description})` : ""} from branch ${step.worktree?.branch} conflicts in: ${(step.conflicts ?? []).join(", ")}.
+
+Resolve the conflicts so both sides' changes work together, stage the files, and conclude the merge with \`git commit --no-edit\`. Do not merge any other branch.
+
+Goal of the plan:
+${plan.originalPrompt}
+
+Conflicting hunks:
+\`\`\`diff
+${hunks}
+\`\`\`
+`;
+}
+
+export function formatMergeSteps(steps: MergeStep[]): string[] {
+  const width = Math.max(...steps.map((step) => step.taskId.length));
+  return steps.flatMap((step) => {
+    const branch = step.worktree && step.status !== "skipped" ? `  ${step.worktree.branch}` : "";
+    const lines = [`  ${step.status.padEnd(10)} ${step.taskId.padEnd(width)}${branch}`.trimEnd()];
+    if (step.reason) lines.push(`             ${step.reason}`);
+    for (const file of step.conflicts ?? []) lines.push(`             conflict: ${file}`);
+    return lines;
+  });
+}
@@ -0,0 +1,234 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import { expandHome } from "./jsonl";
+import { buildSessionMetaMap } from "./sessions";
+import { resolveSessionName } from "./correlate";
+import { capturePaneFull, filterMeaningfulLines } from "./tmux";
+import { runGit } from "./worktree";
+import { findStopHook } from "./completion";
+import type { HookEntry, SessionMetaEntry, SubTask, TaskOutputs } from "./types";
+
+export type OutputField = "summary" | "diff" | "last_output" | "artifact";
+
+/** A {{task_id.field}} or {{task_id.artifacts.NAME}} reference in a prompt */
+export type TemplateRef = {
+  raw: string;
+  taskId: string;
+  field: OutputField;
+  artifact?: string;
+};
+
+/** An output to capture from a task: a field, and for artifacts the artifact's name */
+export type OutputRequest = Pick<TemplateRef, "field" | "artifact">;
+
+export const OUTPUT_FIELDS = ["summary", "diff", "last_output", "artifacts.NAME"];
+
+const TEMPLATE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+// Keep templated outputs to a size an agent prompt can carry
+const MAX_OUTPUT_CHARS = 8000;
+const LAST_OUTPUT_LINES = 40;
+const CAPTURE_LINES = 500;
+
+// Stop hook payload fields that hold the agent's final message (claude, codex notify, gemini AfterAgent)
+const SUMMARY_FIELDS = ["last_assistant_message", "last-assistant-message", "prompt_response"];
+
+/**
+ * Find output references in a prompt. Only {{...}} expressions that start with a
+ * task id count; anything else (e.g. template syntax the task itself is about) is left alone.
+ * References to a known task with an unknown field are returned as invalid.
+ */
+export function parseTemplateRefs(prompt: string, taskIds: Iterable<string>): { refs: TemplateRef[]; invalid: string[] } {
+  const ids = sortTaskIds(taskIds);
+  const refs: TemplateRef[] = [];
+  const invalid: string[] = [];
+
+  for (const match of prompt.matchAll(TEMPLATE_PATTERN)) {
+    const ref = parseTemplateRef(match[0], match[1], ids);
+    if (ref === "invalid") invalid.push(match[0]);
+    else if (ref) refs.push(ref);
+  }
+
+  return { refs, invalid };
+}
+
+// Longest ids first, in case one id is a dotted prefix of another
+function sortTaskIds(taskIds: Iterable<string>): string[] {
+  return [...taskIds].sort((a, b) => b.length - a.length);
+}
+
+/** One {{expr}} match: a reference, "invalid" for a known task with an unknown field, or undefined */
+function parseTemplateRef(raw: string, expr: string, ids: string[]): TemplateRef | "invalid" | undefined {
+  const taskId = ids.find((id) => expr.startsWith(`${id}.`));
+  if (!taskId) return undefined;
+
+  const rest = expr.slice(taskId.length + 1);
+  if (rest === "summary" || rest === "diff" || rest === "last_output") {
+    return { raw, taskId, field: rest };
+  }
+  if (rest.startsWith("artifacts.") && rest.length > "artifacts.".length) {
+    return { raw, taskId, field: "artifact", artifact: rest.slice("artifacts.".length) };
+  }
+  return "invalid";
+}
+
+/** Upstream task id -> the references dependents make to its outputs */
+export function requiredOutputs(tasks: SubTask[]): Map<string, TemplateRef[]> {
+  const ids = tasks.map((task) => task.id);
+  const required = new Map<string, TemplateRef[]>();
+  for (const task of tasks) {
+    for (const ref of parseTemplateRefs(task.prompt, ids).refs) {
+      required.set(ref.taskId, [...(required.get(ref.taskId) ?? []), ref]);
+    }
+  }
+  return required;
+}
+
+function outputValue(ref: TemplateRef, outputs: TaskOutputs | undefined): string | undefined {
+  switch (ref.field) {
+    case "summary":
+      return outputs?.summary;
+    case "diff":
+      return outputs?.diff;
+    case "last_output":
+      return outputs?.lastOutput;
+    case "artifact":
+      return outputs?.artifacts?.[ref.artifact!];
+  }
+}
+
+/**
+ * Substitute captured outputs into a prompt; references with nothing captured become empty.
+ * One pass over the original prompt, so {{...}} text inside a substituted output is left as is.
+ */
+export function renderTaskPrompt(
+  prompt: string,
+  taskIds: Iterable<string>,
+  outputs: Record<string, TaskOutputs | undefined>
+): { prompt: string; missing: string[] } {
+  const ids = sortTaskIds(taskIds);
+  const missing: string[] = [];
+  const rendered = prompt.replace(TEMPLATE_PATTERN, (raw: string, expr: string) => {
+    const ref = parseTemplateRef(raw, expr, ids);
+    if (!ref || ref === "invalid") return raw;
+    const value = outputValue(ref, outputs[ref.taskId]);
+    if (value === undefined && !missing.includes(raw)) missing.push(raw);
+    return value ?? "";
+  });
+  return { prompt: rendered, missing };
+}
+
+export function truncateOutput(text: string, keep: "start" | "end", max = MAX_OUTPUT_CHARS): string {
+  if (text.length <= max) return text;
+  return keep === "start"
+    ? `${text.slice(0, max)}\n[... truncated]`
+    : `[truncated ...]\n${text.slice(-max)}`;
+}
+
+/** The agent's final message from a Stop hook payload, if the agent reports it */
+export function summaryFromPayload(payload: Record<string, unknown>): string | undefined {
+  for (const field of SUMMARY_FIELDS) {
+    const value = payload[field];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+/** Text of the last assistant message in a Claude Code transcript (JSONL) */
+export async function readTranscriptSummary(transcriptPath: string): Promise<string | undefined> {
+  let content: string;
+  try {
+    content = await readFile(expandHome(transcriptPath), "utf8");
+  } catch {
+    return undefined;
+  }
+
+  const lines = content.split("\n").filter(Boolean);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const entry = JSON.parse(lines[i]) as { type?: string; message?: { content?: unknown } };
+      if (entry.type !== "assistant") continue;
+      const parts = Array.isArray(entry.message?.content) ? entry.message.content : [];
+      const text = parts
+        .filter((part): part is { type: "text"; text: string } => part?.type === "text" && typeof part.text === "string")
+        .map((part) => part.text)
+        .join("\n")
+        .trim();
+      if (text) return text;
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return undefined;
+}
+
+async function captureDiff(meta: SessionMetaEntry | undefined, cwd: string): Promise<string | undefined> {
+  const worktree = meta?.worktree;
+  try {
+    if (worktree && existsSync(worktree.path)) {
+      const diff = await runGit(["diff", worktree.baseRef], worktree.path);
+      const untracked = await runGit(["ls-files", "--others", "--exclude-standard"], worktree.path);
+      return untracked ? `${diff}\n\nUntracked files:\n${untracked}`.trim() : diff;
+    }
+    if (worktree) {
+      return await runGit(["diff", worktree.baseRef, worktree.branch], worktree.repoRoot);
+    }
+    return await runGit(["diff", "HEAD"], cwd);
+  } catch {
+    // Not a git repo, or the branch/base is gone
+    return undefined;
+  }
+}
+
+/**
+ * Capture the requested outputs of a finished task: the final message (Stop hook
+ * payload, then transcript, then pane output), git diff, pane scrollback and declared
+ * artifact files. Template references can be passed as the requests directly.
+ */
+export async function captureTaskOutputs(
+  task: SubTask,
+  session: { sessionName: string; launchedAt: string },
+  requests: OutputRequest[],
+  context: { metaEntries: SessionMetaEntry[]; hooks: HookEntry[]; fallbackCwd: string }
+): Promise<TaskOutputs> {
+  const current = resolveSessionName(session.sessionName, context.metaEntries);
+  const meta = buildSessionMetaMap(context.metaEntries).get(current);
+  const cwd = meta?.cwd ?? context.fallbackCwd;
+  const fields = new Set(requests.map((request) => request.field));
+  const outputs: TaskOutputs = { capturedAt: new Date().toISOString() };
+
+  let lastOutput: string | undefined;
+  if (fields.has("last_output") || fields.has("summary")) {
+    const lines = filterMeaningfulLines((await capturePaneFull(current, CAPTURE_LINES)).split("\n"));
+    if (lines.length > 0) lastOutput = lines.slice(-LAST_OUTPUT_LINES).join("\n");
+  }
+  if (fields.has("last_output") && lastOutput) {
+    outputs.lastOutput = truncateOutput(lastOutput, "end");
+  }
+
+  if (fields.has("summary")) {
+    const stopHook = findStopHook(session, context.metaEntries, context.hooks);
+    const summary = (stopHook ? summaryFromPayload(stopHook.payload) : undefined)
+      ?? (meta?.transcriptPath ? await readTranscriptSummary(meta.transcriptPath) : undefined)
+      ?? lastOutput;
+    if (summary) outputs.summary = truncateOutput(summary, "end");
+  }
+
+  if (fields.has("diff")) {
+    const diff = await captureDiff(meta, cwd);
+    if (diff !== undefined) outputs.diff = truncateOutput(diff, "start");
+  }
+
+  for (const request of requests) {
+    if (request.field !== "artifact") continue;
+    const path = task.artifacts?.[request.artifact!];
+    if (!path) continue;
+    const content = await readFile(resolve(expandHome(cwd), path), "utf8").catch(() => undefined);
+    if (content !== undefined) {
+      outputs.artifacts = { ...outputs.artifacts, [request.artifact!]: truncateOutput(content, "start") };
+    }
+  }
+
+  return outputs;
+}
@@ -0,0 +1,283 @@
+import type { AgentRegistry } from "./agents";
+import { validatePlan } from "./plan";
+import { ANSI, cleanupRawMode, editInEditor, setupRawMode } from "./tui";
+import type { SubTask } from "./types";
+
+export type PlanEditorAction = "launch" | "save" | "quit";
+
+export type PlanEditorResult = { action: PlanEditorAction; tasks: SubTask[] };
+
+export type PlanEditorState = {
+  tasks: SubTask[];
+  selected: number;
+  mode: "tasks" | "deps";
+  depCursor: number;
+  message?: string;
+};
+
+/** What the key loop must do after a key: open $EDITOR on a field, or finish */
+export type PlanEditorCommand =
+  | { type: "edit"; field: "prompt" | "description" }
+  | { type: "done"; action: PlanEditorAction };
+
+const PROMPT_PREVIEW_LINES = 12;
+
+/** Smallest task_N id not already taken */
+export function nextTaskId(tasks: SubTask[]): string {
+  const ids = new Set(tasks.map((task) => task.id));
+  let n = tasks.length + 1;
+  while (ids.has(`task_${n}`)) n++;
+  return `task_${n}`;
+}
+
+export function moveTask(tasks: SubTask[], index: number, delta: number): SubTask[] {
+  const target = index + delta;
+  if (index < 0 || index >= tasks.length || target < 0 || target >= tasks.length) return tasks;
+  const moved = [...tasks];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
+
+/** Remove a task and drop it from every other task's dependencies */
+export function deleteTask(tasks: SubTask[], index: number): SubTask[] {
+  const removed = tasks[index];
+  if (!removed) return tasks;
+  return tasks
+    .filter((_, i) => i !== index)
+    .map((task) => task.dependencies?.includes(removed.id)
+      ? { ...task, dependencies: task.dependencies.filter((dep) => dep !== removed.id) }
+      : task);
+}
+
+/**
+ * Split a task in two: the copy goes right after it with the same agent, prompt and
+ * dependencies, and tasks that waited for the original wait for both halves.
+ */
+export function splitTask(tasks: SubTask[], index: number): SubTask[] {
+  const original = tasks[index];
+  if (!original) return tasks;
+  const copy: SubTask = {
+    ...original,
+    id: nextTaskId(tasks),
+    description: `${original.description} (part 2)`,
+    dependencies: [...(original.dependencies ?? [])],
+  };
+  const updated = tasks.map((task) => task.dependencies?.includes(original.id)
+    ? { ...task, dependencies: [...task.dependencies, copy.id] }
+    : task);
+  return [...updated.slice(0, index + 1), copy, ...updated.slice(index + 1)];
+}
+
+export function cycleAgent(tasks: SubTask[], index: number, registry: AgentRegistry, delta = 1): SubTask[] {
+  const task = tasks[index];
+  const names = Object.keys(registry);
+  if (!task || names.length === 0) return tasks;
+  const current = names.indexOf(task.agent);
+  const next = names[(current + delta + names.length) % names.length];
+  return tasks.map((t, i) => i === index ? { ...t, agent: next } : t);
+}
+
+export function toggleDependency(tasks: SubTask[], index: number, depId: string): SubTask[] {
+  const task = tasks[index];
+  if (!task || task.id === depId) return tasks;
+  const deps = task.dependencies ?? [];
+  const dependencies = deps.includes(depId) ? deps.filter((dep) => dep !== depId) : [...deps, depId];
+  return tasks.map((t, i) => i === index ? { ...t, dependencies } : t);
+}
+
+export function createPlanEditorState(tasks: SubTask[]): PlanEditorState {
+  return { tasks, selected: 0, mode: "tasks", depCursor: 0 };
+}
+
+/** Tasks the selected task can depend on (every other task) */
+function dependencyChoices(state: PlanEditorState): SubTask[] {
+  const selected = state.tasks[state.selected];
+  return state.tasks.filter((task) => task.id !== selected?.id);
+}
+
+/** Apply one key press to the editor state; returns a command when the loop has to act */
+export function handlePlanEditorKey(
+  state: PlanEditorState,
+  key: string,
+  registry: AgentRegistry
+): PlanEditorCommand | undefined {
+  state.message = undefined;
+
+  if (key === "\x03") {
+    return { type: "done", action: "quit" };
+  }
+
+  if (state.mode === "deps") {
+    const choices = dependencyChoices(state);
+    if (key === "\x1b[A" || key === "k") {
+      state.depCursor = Math.max(0, state.depCursor - 1);
+    } else if (key === "\x1b[B" || key === "j") {
+      state.depCursor = Math.min(Math.max(0, choices.length - 1), state.depCursor + 1);
+    } else if (key === " ") {
+      const choice = choices[state.depCursor];
+      if (choice) state.tasks = toggleDependency(state.tasks, state.selected, choice.id);
+    } else if (key === "\x1b" || key === "\r" || key === "d") {
+      state.mode = "tasks";
+    }
+    return undefined;
+  }
+
+  const task = state.tasks[state.selected];
+  const lastIndex = Math.max(0, state.tasks.length - 1);
+
+  if (key === "\x1b[A" || key === "k") {
+    state.selected = Math.max(0, state.selected - 1);
+  } else if (key === "\x1b[B" || key === "j") {
+    state.selected = Math.min(lastIndex, state.selected + 1);
+  } else if (key === "K" || key === "J") {
+    const delta = key === "K" ? -1 : 1;
+    const moved = moveTask(state.tasks, state.selected, delta);
+    if (moved !== state.tasks) {
+      state.tasks = moved;
+      state.selected += delta;
+    }
+  } else if ((key === "a" || key === "A") && task) {
+    state.tasks = cycleAgent(state.tasks, state.selected, registry, key === "a" ? 1 : -1);
+  } else if (key === "e" && task) {
+    return { type: "edit", field: "prompt" };
+  } else if (key === "r" && task) {
+    return { type: "edit", field: "description" };
+  } else if (key === "d" && task) {
+    if (state.tasks.length < 2) {
+      state.message = "No other tasks to depend on";
+    } else {
+      state.mode = "deps";
+      state.depCursor = 0;
+    }
+  } else if (key === "s" && task) {
+    state.tasks = splitTask(state.tasks, state.selected);
+    state.message = `Split ${task.id}: edit the new task's prompt with e`;
+    state.selected += 1;
+  } else if (key === "x" && task) {
+    state.tasks = deleteTask(state.tasks, state.selected);
+    state.selected = Math.min(state.selected, Math.max(0, state.tasks.length - 1));
+    state.message = `Deleted ${task.id}`;
+  } else if (key === "l" || key === "w") {
+    // A saved plan is loaded with --plan-file, which rejects the same errors launching does
+    const verb = key === "l" ? "launch" : "save";
+    const errors = validatePlan(state.tasks);
+    if (state.tasks.length === 0) {
+      state.message = `Nothing to ${verb}: the plan has no tasks`;
+    } else if (errors.length > 0) {
+      state.message = `Fix the plan errors before ${key === "l" ? "launching" : "saving"}`;
+    } else {
+      return { type: "done", action: verb };
+    }
+  } else if (key === "q") {
+    return { type: "done", action: "quit" };
+  }
+  return undefined;
+}
+
+/** Store text from $EDITOR back into the selected task; empty text keeps the old value */
+export function applyEditedField(
+  state: PlanEditorState,
+  field: "prompt" | "description",
+  text: string | undefined
+): void {
+  const value = field === "description" ? text?.split("\n")[0]?.trim() : text?.trim();
+  if (!value) {
+    state.message = text === undefined ? "Editor failed; nothing changed" : `Empty ${field}; nothing changed`;
+    return;
+  }
+  state.tasks = state.tasks.map((task, i) => i === state.selected ? { ...task, [field]: value } : task);
+}
+
+export function renderPlanEditor(state: PlanEditorState, planId: string): string {
+  const width = Math.max(40, (process.stdout.columns || 100) - 2);
+  const clip = (line: string, max = width) => line.length > max ? `${line.slice(0, max - 1)}…` : line;
+  let output = `${ANSI.bold}Plan editor${ANSI.reset} ${ANSI.dim}${planId} - ${state.tasks.length} task(s)${ANSI.reset}\n`;
+  output += `${ANSI.dim}${"─".repeat(Math.min(width, 60))}${ANSI.reset}\n`;
+
+  if (state.tasks.length === 0) {
+    output += `${ANSI.dim}  (no tasks)${ANSI.reset}\n`;
+  }
+  state.tasks.forEach((task, i) => {
+    const active = i === state.selected;
+    const marker = active ? `${ANSI.yellow}▶${ANSI.reset}` : " ";
+    const deps = task.dependencies?.length ? ` ${ANSI.dim}<- ${task.dependencies.join(", ")}${ANSI.reset}` : "";
+    const label = clip(`${i + 1}. [${task.id}] ${task.description}`, width - 20);
+    output += `${marker} ${active ? ANSI.bold : ""}${label}${ANSI.reset} ${ANSI.cyan}${task.agent}${ANSI.reset}${deps}\n`;
+  });
+
+  const selected = state.tasks[state.selected];
+  if (selected && state.mode === "deps") {
+    output += `\n${ANSI.bold}Dependencies of ${selected.id}${ANSI.reset} ${ANSI.dim}(space: toggle, enter/esc: done)${ANSI.reset}\n`;
+    dependencyChoices(state).forEach((task, i) => {
+      const checked = selected.dependencies?.includes(task.id) ? "[x]" : "[ ]";
+      const line = clip(`${checked} ${task.id} ${task.description}`, width - 2);
+      output += i === state.depCursor ? `${ANSI.inverse} ${line} ${ANSI.reset}\n` : `  ${line}\n`;
+    });
+  } else if (selected) {
+    output += `\n${ANSI.bold}Prompt${ANSI.reset} ${ANSI.dim}(${selected.id})${ANSI.reset}\n`;
+    const lines = selected.prompt.split("\n");
+    for (const line of lines.slice(0, PROMPT_PREVIEW_LINES)) {
+      output += `  ${clip(line, width - 2)}\n`;
+    }
+    if (lines.length > PROMPT_PREVIEW_LINES) {
+      output += `  ${ANSI.dim}... ${lines.length - PROMPT_PREVIEW_LINES} more line(s)${ANSI.reset}\n`;
+    }
+  }
+
+  const errors = validatePlan(state.tasks);
+  if (errors.length > 0) {
+    output += `\n${ANSI.red}Plan errors:${ANSI.reset}\n`;
+    for (const error of errors) {
+      output += `  ${ANSI.red}${clip(error, width - 2)}${ANSI.reset}\n`;
+    }
+  }
+
+  if (state.message) {
+    output += `\n${ANSI.yellow}${state.message}${ANSI.reset}\n`;
+  }
+
+  output += `\n${ANSI.dim}j/k:select  J/K:move  a/A:agent  e:edit prompt  r:rename  d:dependencies  s:split  x:delete${ANSI.reset}\n`;
+  output += `${ANSI.dim}l:launch  w:save and exit  q:quit without launching${ANSI.reset}`;
+  return output;
+}
+
+/**
+ * Review and edit a plan's tasks in the terminal before anything launches.
+ * Resolves with the chosen action and the edited tasks.
+ */
+export function runPlanEditor(tasks: SubTask[], planId: string, registry: AgentRegistry): Promise<PlanEditorResult> {
+  const state = createPlanEditorState(tasks);
+  const draw = () => {
+    process.stdout.write(ANSI.clear);
+    process.stdout.write(renderPlanEditor(state, planId));
+  };
+
+  setupRawMode();
+  process.stdout.write(ANSI.hideCursor);
+  draw();
+
+  return new Promise((resolve) => {
+    let editing = false;
+    const onData = async (key: string) => {
+      if (editing) return;
+      const command = handlePlanEditorKey(state, key, registry);
+
+      if (command?.type === "edit") {
+        editing = true;
+        const current = state.tasks[state.selected][command.field];
+        const text = await editInEditor(`${current}\n`, command.field === "prompt" ? ".md" : ".txt");
+        applyEditedField(state, command.field, text);
+        editing = false;
+      } else if (command?.type === "done") {
+        process.stdin.off("data", onData);
+        cleanupRawMode();
+        process.stdin.pause();
+        process.stdout.write(ANSI.clear);
+        resolve({ action: command.action, tasks: state.tasks });
+        return;
+      }
+      draw();
+    };
+    process.stdin.on("data", onData);
+  });
+}
@@ -0,0 +1,306 @@
+import { mkdir } from "fs/promises";
+import { dirname } from "path";
+import { createId } from "./ids";
+import { expandHome } from "./jsonl";
+import { resolveAgentName, type AgentRegistry } from "./agents";
+import { COMPLETION_MODES, parseCompletionMode } from "./completion";
+import { OUTPUT_FIELDS, parseTemplateRefs } from "./outputs";
+import { normalizeTag } from "./sessions";
+import { checkFailurePolicy } from "./failure";
+import type { AgentType, FailurePolicy, OrchestrationPlan, SubTask } from "./types";
+
+type RawTask = Partial<SubTask> & { agent?: string };
+
+/** Plan JSON as written by hand or by --save-plan: a full plan or a bare task array */
+export type PlanInput = (Partial<Omit<OrchestrationPlan, "tasks">> & { tasks?: RawTask[] }) | RawTask[];
+
+export function normalizeAgent(agent: string | undefined, index: number, registry: AgentRegistry): AgentType {
+  const name = resolveAgentName(agent, registry);
+  if (name) return name;
+  throw new Error(`Task ${index + 1} has invalid agent: ${agent} (available: ${Object.keys(registry).join(", ")})`);
+}
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === "object" && value !== null && !Array.isArray(value) &&
+  Object.values(value).every((v) => typeof v === "string");
+
+/** Problems with a task's launch options (cwd, flags, env, timeoutSeconds, tag, onFailure) */
+export function checkTaskOptions(task: Record<string, unknown>): string[] {
+  const issues: string[] = [];
+  if (task.cwd !== undefined && (typeof task.cwd !== "string" || !task.cwd.trim())) {
+    issues.push("cwd must be a non-empty path");
+  }
+  if (task.flags !== undefined && (!Array.isArray(task.flags) || task.flags.some((flag) => typeof flag !== "string"))) {
+    issues.push("flags must be an array of strings");
+  }
+  if (task.env !== undefined && !isStringRecord(task.env)) {
+    issues.push("env must map variable names to string values");
+  }
+  if (task.timeoutSeconds !== undefined &&
+      (typeof task.timeoutSeconds !== "number" || !Number.isFinite(task.timeoutSeconds) || task.timeoutSeconds <= 0)) {
+    issues.push("timeoutSeconds must be a positive number");
+  }
+  if (task.tag !== undefined && typeof task.tag !== "string") {
+    issues.push("tag must be a string");
+  }
+  if (task.markerFile !== undefined && (typeof task.markerFile !== "string" || !task.markerFile.trim())) {
+    issues.push("markerFile must be a non-empty path");
+  }
+  if (task.artifacts !== undefined && !isStringRecord(task.artifacts)) {
+    issues.push("artifacts must map names to file paths");
+  }
+  issues.push(...checkFailurePolicy(task.onFailure));
+  return issues;
+}
+
+/** Resolve an onFailure policy's retryAgent against the registry */
+export function normalizeFailurePolicy(policy: FailurePolicy, label: string, registry: AgentRegistry): FailurePolicy {
+  const [issue] = checkFailurePolicy(policy);
+  if (issue) throw new Error(`${label} ${issue}`);
+  if (policy.retryAgent === undefined) return policy;
+  const retryAgent = resolveAgentName(policy.retryAgent, registry);
+  if (!retryAgent) {
+    throw new Error(`${label} has invalid retryAgent: ${policy.retryAgent} (available: ${Object.keys(registry).join(", ")})`);
+  }
+  return { ...policy, retryAgent };
+}
+
+/** Fill in task defaults (id, description, dependencies) and check agents, completion modes and launch options */
+export function normalizeTasks(rawTasks: RawTask[], registry: AgentRegistry): SubTask[] {
+  return rawTasks.map((task, i) => {
+    if (!task.prompt) {
+      throw new Error(`Task ${i + 1} is missing a prompt`);
+    }
+    const [optionIssue] = checkTaskOptions(task);
+    if (optionIssue) {
+      throw new Error(`Task ${i + 1} ${optionIssue}`);
+    }
+    const completion = task.completion === undefined ? undefined : parseCompletionMode(task.completion);
+    if (task.completion !== undefined && !completion) {
+      throw new Error(`Task ${i + 1} has invalid completion: ${task.completion} (use ${COMPLETION_MODES.join(", ")})`);
+    }
+    const artifacts = task.artifacts;
+    const tag = normalizeTag(task.tag);
+    const onFailure = task.onFailure && normalizeFailurePolicy(task.onFailure, `Task ${i + 1}`, registry);
+    return {
+      id: task.id ?? `task_${i + 1}`,
+      description: task.description ?? `task_${i + 1}`,
+      agent: normalizeAgent(task.agent, i, registry),
+      prompt: task.prompt,
+      dependencies: task.dependencies ?? [],
+      ...(completion ? { completion } : {}),
+      ...(task.markerFile ? { markerFile: task.markerFile } : {}),
+      ...(artifacts ? { artifacts } : {}),
+      ...(task.cwd ? { cwd: task.cwd } : {}),
+      ...(task.flags?.length ? { flags: task.flags } : {}),
+      ...(task.env ? { env: task.env } : {}),
+      ...(task.timeoutSeconds ? { timeoutSeconds: task.timeoutSeconds } : {}),
+      ...(tag ? { tag } : {}),
+      ...(onFailure ? { onFailure } : {}),
+    };
+  });
+}
+
+/** Build a plan from parsed plan JSON, filling in an id and prompt where missing */
+export function parsePlan(
+  parsed: PlanInput,
+  fallbackPrompt: string,
+  registry: AgentRegistry
+): OrchestrationPlan {
+  if (Array.isArray(parsed)) {
+    const tasks = normalizeTasks(parsed, registry);
+    return {
+      id: createId("plan"),
+      originalPrompt: fallbackPrompt || "plan-file",
+      decomposedAt: new Date().toISOString(),
+      tasks,
+      orchestratorAgent: "claude",
+    };
+  }
+
+  const tasks = normalizeTasks(parsed.tasks ?? [], registry);
+  const onFailure = parsed.onFailure && normalizeFailurePolicy(parsed.onFailure, "Plan", registry);
+  return {
+    id: parsed.id ?? createId("plan"),
+    originalPrompt: parsed.originalPrompt ?? (fallbackPrompt || "plan-file"),
+    decomposedAt: parsed.decomposedAt ?? new Date().toISOString(),
+    tasks,
+    orchestratorAgent: parsed.orchestratorAgent ?? "claude",
+    ...(onFailure ? { onFailure } : {}),
+  };
+}
+
+/** Where a plan is saved when no path is given (the plan editor's save) */
+export function getDefaultPlanFile(dataDir: string, planId: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/plans/${planId.replace(/[^A-Za-z0-9_.-]/g, "_")}.json`;
+}
+
+export async function loadPlanFromFile(
+  filePath: string,
+  fallbackPrompt: string,
+  registry: AgentRegistry
+): Promise<OrchestrationPlan> {
+  const contents = await Bun.file(expandHome(filePath)).text();
+  return parsePlan(JSON.parse(contents) as PlanInput, fallbackPrompt, registry);
+}
+
+export async function savePlanToFile(plan: OrchestrationPlan, filePath: string): Promise<void> {
+  const expanded = expandHome(filePath);
+  await mkdir(dirname(expanded), { recursive: true });
+  await Bun.write(expanded, JSON.stringify(plan, null, 2));
+}
+
+/**
+ * Dependency cycles among tasks, each as a path that returns to its first task
+ * (["a", "b", "a"]). Self-dependencies and unknown ids are left to validatePlan.
+ */
+export function findDependencyCycles(tasks: SubTask[]): string[][] {
+  const deps = new Map(tasks.map((task) => [task.id, task.dependencies ?? []]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const dep of deps.get(id) ?? []) {
+      if (dep === id || !deps.has(dep)) continue;
+      if (state.get(dep) === "visiting") {
+        const cycle = [...stack.slice(stack.indexOf(dep)), dep];
+        // The same cycle can be reached from different starting tasks
+        const key = [...cycle.slice(0, -1)].sort().join("\0");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(dep)) {
+        visit(dep);
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const task of tasks) {
+    if (!state.has(task.id)) visit(task.id);
+  }
+  return cycles;
+}
+
+/** Every task a task depends on, directly or through other dependencies */
+export function getAncestors(tasks: SubTask[], taskId: string): Set<string> {
+  const deps = new Map(tasks.map((task) => [task.id, task.dependencies ?? []]));
+  const ancestors = new Set<string>();
+  const queue = [...(deps.get(taskId) ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (ancestors.has(id)) continue;
+    ancestors.add(id);
+    queue.push(...(deps.get(id) ?? []));
+  }
+  return ancestors;
+}
+
+/**
+ * Check {{task_id.*}} output references: the field must exist, the task must be
+ * one this task waits for, and named artifacts must be declared by that task.
+ */
+export function validateTemplateRefs(tasks: SubTask[]): string[] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const errors: string[] = [];
+
+  for (const task of tasks) {
+    const { refs, invalid } = parseTemplateRefs(task.prompt, byId.keys());
+    for (const raw of invalid) {
+      errors.push(`[${task.id}] unknown output ${raw} (use ${OUTPUT_FIELDS.join(", ")})`);
+    }
+    const ancestors = getAncestors(tasks, task.id);
+    for (const ref of refs) {
+      if (!ancestors.has(ref.taskId)) {
+        errors.push(`[${task.id}] ${ref.raw} refers to a task it does not depend on`);
+      } else if (ref.field === "artifact" && !byId.get(ref.taskId)?.artifacts?.[ref.artifact!]) {
+        errors.push(`[${task.id}] ${ref.raw}: ${ref.taskId} declares no artifact "${ref.artifact}"`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Check that task ids are unique, dependencies form a DAG of known tasks, and output references resolve */
+export function validatePlan(tasks: SubTask[]): string[] {
+  const ids = new Set<string>();
+  const errors: string[] = [];
+
+  for (const task of tasks) {
+    if (ids.has(task.id)) {
+      errors.push(`[${task.id}] duplicate task id`);
+    }
+    ids.add(task.id);
+  }
+
+  for (const task of tasks) {
+    for (const dep of task.dependencies ?? []) {
+      if (dep === task.id) {
+        errors.push(`[${task.id}] depends on itself`);
+      } else if (!ids.has(dep)) {
+        errors.push(`[${task.id}] unknown dependency "${dep}"`);
+      }
+    }
+  }
+
+  for (const cycle of findDependencyCycles(tasks)) {
+    errors.push(`dependency cycle: ${cycle.join(" -> ")}`);
+  }
+
+  errors.push(...validateTemplateRefs(tasks));
+  return errors;
+}
+
+/**
+ * Group tasks into waves that can run in parallel: wave 1 has no dependencies,
+ * each later wave depends only on earlier ones. Tasks in a cycle are left out.
+ */
+export function computeWaves(tasks: SubTask[]): string[][] {
+  const ids = new Set(tasks.map((task) => task.id));
+  const placed = new Set<string>();
+  const waves: string[][] = [];
+
+  while (placed.size < ids.size) {
+    const wave = tasks
+      .filter((task) => !placed.has(task.id))
+      .filter((task) => (task.dependencies ?? []).every((dep) => placed.has(dep) || !ids.has(dep)))
+      .map((task) => task.id);
+    if (wave.length === 0) break;
+    for (const id of wave) placed.add(id);
+    waves.push(wave);
+  }
+  return waves;
+}
+
+/**
+ * The longest chain of dependent tasks, which bounds how long the plan takes
+ * however many agents run in parallel.
+ */
+export function findCriticalPath(tasks: SubTask[]): string[] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const longest = new Map<string, string[]>();
+
+  // Waves are in dependency order, so every dependency's chain is known before its dependents'
+  for (const id of computeWaves(tasks).flat()) {
+    let best: string[] = [];
+    for (const dep of byId.get(id)?.dependencies ?? []) {
+      const chain = longest.get(dep);
+      if (chain && chain.length > best.length) best = chain;
+    }
+    longest.set(id, [...best, id]);
+  }
+
+  let path: string[] = [];
+  for (const chain of longest.values()) {
+    if (chain.length > path.length) path = chain;
+  }
+  return path;
+}
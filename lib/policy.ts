@@ -0,0 +1,242 @@
+import { stat, readFile } from "fs/promises";
+import { expandHome } from "./jsonl";
+import { hookEventName } from "./hooks";
+import type { HookDecision, PermissionDecision } from "./types";
+
+// A matcher is a glob or a list of globs. Globs prefixed with "!" must NOT match.
+// "*" matches any run of characters (including "/"), "?" matches a single character,
+// and "{cwd}" expands to the hook payload's cwd.
+export type PolicyMatcher = string | string[];
+
+export type PolicyRule = {
+  name?: string;
+  event?: PolicyMatcher;    // hook event name, e.g. "PreToolUse"
+  tool?: PolicyMatcher;     // tool_name, e.g. "Bash" or "Edit"
+  command?: PolicyMatcher;  // tool_input.command (Bash)
+  path?: PolicyMatcher;     // tool_input.file_path / notebook_path / path
+  cwd?: PolicyMatcher;      // payload cwd
+  decision: PermissionDecision;
+  reason?: string;          // shown to the agent on deny
+};
+
+export type Policy = {
+  rules: PolicyRule[];
+};
+
+/** Hook events whose responses can carry a permission decision */
+export const POLICY_EVENTS = new Set(["PreToolUse", "PermissionRequest"]);
+
+const DECISIONS: PermissionDecision[] = ["allow", "deny", "ask"];
+const MATCHER_FIELDS = ["event", "tool", "command", "path", "cwd"] as const;
+const RULE_FIELDS = new Set<string>(["name", ...MATCHER_FIELDS, "decision", "reason"]);
+
+const isMatcher = (value: unknown): value is PolicyMatcher =>
+  typeof value === "string" || (Array.isArray(value) && value.every((item) => typeof item === "string"));
+
+export function getPolicyFile(dataDir: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/policy.json`;
+}
+
+/** Convert a policy glob into an anchored RegExp */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*") {
+      // "**" behaves the same as "*"
+      while (glob[i + 1] === "*") i++;
+      source += ".*";
+    } else if (ch === "?") {
+      source += ".";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+function matchesField(
+  matcher: PolicyMatcher | undefined,
+  value: string | undefined,
+  cwd: string | undefined
+): boolean {
+  if (matcher === undefined) return true;
+  if (value === undefined) return false;
+
+  const patterns = Array.isArray(matcher) ? matcher : [matcher];
+  const positive: string[] = [];
+  const negative: string[] = [];
+  for (const pattern of patterns) {
+    const expanded = pattern.replace(/\{cwd\}/g, cwd ?? "");
+    if (expanded.startsWith("!")) {
+      negative.push(expanded.slice(1));
+    } else {
+      positive.push(expanded);
+    }
+  }
+
+  if (negative.some((p) => globToRegExp(p).test(value))) return false;
+  if (positive.length === 0) return true;
+  return positive.some((p) => globToRegExp(p).test(value));
+}
+
+function getToolPath(input: Record<string, unknown> | undefined): string | undefined {
+  if (!input) return undefined;
+  const path = input.file_path ?? input.notebook_path ?? input.path;
+  return typeof path === "string" ? path : undefined;
+}
+
+/** Return true if a rule matches the given hook event and payload */
+export function matchesRule(
+  rule: PolicyRule,
+  event: string,
+  payload: Record<string, unknown>
+): boolean {
+  const input = payload.tool_input as Record<string, unknown> | undefined;
+  const cwd = typeof payload.cwd === "string" ? payload.cwd : undefined;
+  const tool = typeof payload.tool_name === "string" ? payload.tool_name : undefined;
+  const command = typeof input?.command === "string" ? input.command : undefined;
+
+  return (
+    matchesField(rule.event, hookEventName(event, payload), cwd) &&
+    matchesField(rule.tool, tool, cwd) &&
+    matchesField(rule.command, command, cwd) &&
+    matchesField(rule.path, getToolPath(input), cwd) &&
+    matchesField(rule.cwd, cwd, cwd)
+  );
+}
+
+/**
+ * Evaluate a policy against a hook. The first matching rule wins.
+ * Returns undefined when no rule matches (the hook stays observational).
+ */
+export function evaluatePolicy(
+  policy: Policy,
+  event: string,
+  payload: Record<string, unknown>
+): HookDecision | undefined {
+  for (let i = 0; i < policy.rules.length; i++) {
+    const rule = policy.rules[i];
+    if (matchesRule(rule, event, payload)) {
+      return {
+        decision: rule.decision,
+        reason: rule.reason,
+        rule: rule.name ?? `rule_${i + 1}`,
+        source: "policy",
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the JSON body Claude Code expects from a hook that makes a decision.
+ * Events that cannot carry a decision get an empty object.
+ */
+export function buildHookResponse(
+  event: string,
+  payload: Record<string, unknown>,
+  decision: HookDecision | undefined
+): Record<string, unknown> {
+  if (!decision) return {};
+  const eventName = hookEventName(event, payload);
+
+  if (eventName === "PreToolUse") {
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: decision.decision,
+        ...(decision.reason ? { permissionDecisionReason: decision.reason } : {}),
+      },
+    };
+  }
+
+  // PermissionRequest has no "ask" behavior - fall through to the normal prompt
+  if (eventName === "PermissionRequest" && decision.decision !== "ask") {
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PermissionRequest",
+        decision: {
+          behavior: decision.decision,
+          ...(decision.decision === "deny" && decision.reason ? { message: decision.reason } : {}),
+        },
+      },
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Validate parsed policy JSON, throwing on malformed rules. Unknown fields are refused:
+ * a misspelled matcher would otherwise leave a rule that matches every tool call.
+ */
+export function parsePolicy(raw: unknown): Policy {
+  const rules = Array.isArray(raw) ? raw : (raw as { rules?: unknown })?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error("policy must be an array of rules or an object with a \"rules\" array");
+  }
+
+  return {
+    rules: rules.map((rule, i) => {
+      if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+        throw new Error(`rule ${i + 1} must be an object`);
+      }
+      const fields = rule as Record<string, unknown>;
+      const unknown = Object.keys(fields).filter((key) => !RULE_FIELDS.has(key));
+      if (unknown.length > 0) {
+        throw new Error(`rule ${i + 1} has unknown field${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`);
+      }
+      const decision = fields.decision as PermissionDecision;
+      if (!DECISIONS.includes(decision)) {
+        throw new Error(`rule ${i + 1} has invalid decision: ${decision}`);
+      }
+      for (const field of MATCHER_FIELDS) {
+        if (fields[field] !== undefined && !isMatcher(fields[field])) {
+          throw new Error(`rule ${i + 1} has invalid ${field}: must be a string or an array of strings`);
+        }
+      }
+      for (const field of ["name", "reason"]) {
+        if (fields[field] !== undefined && typeof fields[field] !== "string") {
+          throw new Error(`rule ${i + 1} has invalid ${field}: must be a string`);
+        }
+      }
+      return rule as PolicyRule;
+    }),
+  };
+}
+
+// Cache the parsed policy until the file changes
+let policyCache: { path: string; mtimeMs: number; policy: Policy } | null = null;
+
+/** Load a policy file, returning null if it does not exist */
+export async function loadPolicy(filePath: string): Promise<Policy | null> {
+  const expanded = expandHome(filePath);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(expanded)).mtimeMs;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      policyCache = null;
+      return null;
+    }
+    throw err;
+  }
+
+  if (policyCache && policyCache.path === expanded && policyCache.mtimeMs === mtimeMs) {
+    return policyCache.policy;
+  }
+
+  const content = await readFile(expanded, "utf8");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${expanded}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const policy = parsePolicy(parsed);
+  policyCache = { path: expanded, mtimeMs, policy };
+  return policy;
+}
@@ -0,0 +1,93 @@
+import { hasSession, listSessions } from "./tmux";
+import { appendSessionMeta, buildSessionMetaMap, readSessionMeta } from "./sessions";
+import { resolveSessionName } from "./correlate";
+import { isProcessAlive } from "./jsonl";
+import type { SessionMetaWrite } from "./storage";
+import type { SessionMetaEntry } from "./types";
+
+/**
+ * Launch queue shared by launch.ts and orchestrate.ts: with --max-parallel N, at
+ * most N sessions with the same prefix run at once across every process using the
+ * data dir. The rest are recorded as "queued" in sessions.jsonl (so watch.ts can
+ * show them) and launched as slots free up, earliest queued first.
+ */
+
+// How often a command with queued launches re-checks for free slots
+export const QUEUE_POLL_MS = 5000;
+
+/** Parse --max-parallel: a positive integer, or undefined for no limit */
+export function parseMaxParallel(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--max-parallel must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/** Launches that can start now with `running` sessions holding slots */
+export function freeSlots(maxParallel: number | undefined, running: number): number {
+  if (maxParallel === undefined) return Infinity;
+  return Math.max(0, maxParallel - running);
+}
+
+/** Record a session that is waiting for a slot; its name is reserved until it launches */
+export async function recordQueuedSession(
+  dataDir: string,
+  entry: Omit<SessionMetaEntry, "id" | "timestamp" | "status" | "queuePid">
+): Promise<SessionMetaWrite> {
+  return appendSessionMeta(dataDir, { ...entry, status: "queued", queuePid: process.pid });
+}
+
+/**
+ * Sessions still waiting for a slot: latest entry is "queued" and the command that
+ * queued them is alive (a killed orchestrate leaves stale queued entries behind).
+ */
+export function getQueuedSessions(
+  entries: SessionMetaEntry[],
+  isAlive: (pid: number) => boolean = isProcessAlive
+): SessionMetaEntry[] {
+  return [...buildSessionMetaMap(entries).values()].filter((meta) =>
+    meta.status === "queued" && (meta.queuePid === undefined || isAlive(meta.queuePid))
+  );
+}
+
+/** A launch.ts session is finished once it exits or is marked done */
+export async function isSessionFinished(sessionName: string, metaEntries: SessionMetaEntry[]): Promise<boolean> {
+  const current = resolveSessionName(sessionName, metaEntries);
+  if (buildSessionMetaMap(metaEntries).get(current)?.status === "done") return true;
+  return !(await hasSession(current));
+}
+
+/**
+ * Slots this process may fill under a limit shared through sessions.jsonl. A session
+ * with the prefix holds a slot while it is alive in tmux and its latest entry is not
+ * queued, done or slot-released (orchestrate releases its tasks' slots once they complete). Sessions
+ * other live processes queued before this process's first queued one go ahead of it.
+ */
+export function sharedFreeSlots(
+  maxParallel: number | undefined,
+  entries: SessionMetaEntry[],
+  prefix: string,
+  context: { liveSessions: Set<string>; pid?: number; isAlive?: (pid: number) => boolean }
+): number {
+  if (maxParallel === undefined) return Infinity;
+  const { liveSessions, pid = process.pid, isAlive = isProcessAlive } = context;
+  const hasPrefix = (meta: SessionMetaEntry) => meta.sessionName.startsWith(`${prefix}-`);
+
+  const running = [...buildSessionMetaMap(entries).values()].filter((meta) =>
+    hasPrefix(meta) && meta.status !== "queued" && meta.status !== "done" && !meta.slotReleasedAt
+      && liveSessions.has(meta.sessionName)
+  ).length;
+  const queued = getQueuedSessions(entries, isAlive).filter(hasPrefix);
+  const firstOwn = queued.filter((meta) => meta.queuePid === pid).map((meta) => meta.timestamp).sort()[0];
+  const ahead = queued.filter((meta) => meta.queuePid !== pid && (firstOwn === undefined || meta.timestamp < firstOwn)).length;
+  return freeSlots(maxParallel, running + ahead);
+}
+
+/** sharedFreeSlots with the current sessions.jsonl and tmux sessions */
+export async function countFreeSlots(dataDir: string, maxParallel: number | undefined, prefix: string): Promise<number> {
+  if (maxParallel === undefined) return Infinity;
+  const [entries, sessions] = await Promise.all([readSessionMeta(dataDir), listSessions()]);
+  return sharedFreeSlots(maxParallel, entries, prefix, { liveSessions: new Set(sessions.map((session) => session.name)) });
+}
@@ -0,0 +1,170 @@
+import { appendSessionMeta } from "./sessions";
+import { captureTaskOutputs, truncateOutput, type OutputRequest } from "./outputs";
+import { extractJson, orchestratorName, runOrchestrator, type OrchestratorSpec } from "./decompose";
+import type { AgentRegistry } from "./agents";
+import type { SessionMetaWrite } from "./storage";
+import type { AgentType, HookEntry, ReviewVerdict, SessionMetaEntry } from "./types";
+
+/**
+ * Reviewer stage for orchestrate.ts and multi-agent launch.ts: once every session has
+ * finished, a reviewer (an agent in print mode, or a local command) reads each session's
+ * summary and diff and answers with a verdict, which is stored in sessions.jsonl.
+ */
+
+/** One finished session shown to the reviewer */
+export type ReviewCandidate = {
+  label: string;          // task id, or session name for launch.ts
+  sessionName: string;
+  launchedAt: string;
+  agent: AgentType;
+  description?: string;   // task description (orchestrate)
+  status?: string;        // task status (orchestrate)
+  summary?: string;
+  diff?: string;
+};
+
+/** "compare": several agents did the same task; "plan": agents did parts of one plan */
+export type ReviewMode = "compare" | "plan";
+
+// The prompt is passed as one argument, which Linux caps at 128 KiB (bytes, not characters)
+const REVIEW_PROMPT_BUDGET = 100_000;
+const MAX_FIELD_BYTES = 8000;
+
+const REVIEW_OUTPUTS: OutputRequest[] = [{ field: "summary" }, { field: "diff" }];
+
+// Truncate to a size in UTF-8 bytes, which multi-byte text reaches before its length does
+function truncateToBytes(text: string, keep: "start" | "end", maxBytes: number): string {
+  let maxChars = Math.max(1, maxBytes);
+  let result = truncateOutput(text, keep, maxChars);
+  while (maxChars > 1 && Buffer.byteLength(result) > maxBytes) {
+    maxChars = Math.max(1, Math.floor(maxChars * maxBytes / Buffer.byteLength(result)) - 1);
+    result = truncateOutput(text, keep, maxChars);
+  }
+  return result;
+}
+
+/** Capture the final message and diff of each session (see captureTaskOutputs) */
+export async function collectReviewCandidates(
+  candidates: ReviewCandidate[],
+  context: { metaEntries: SessionMetaEntry[]; hooks: HookEntry[]; fallbackCwd: string }
+): Promise<ReviewCandidate[]> {
+  return Promise.all(candidates.map(async (candidate) => {
+    const outputs = await captureTaskOutputs(
+      { id: candidate.label, description: candidate.description ?? candidate.label, agent: candidate.agent, prompt: "" },
+      candidate,
+      REVIEW_OUTPUTS,
+      context
+    );
+    return { ...candidate, summary: outputs.summary, diff: outputs.diff };
+  }));
+}
+
+export function buildReviewPrompt(goal: string, candidates: ReviewCandidate[], mode: ReviewMode): string {
+  // Keep the whole prompt under the argument size limit however many sessions there are
+  const available = Math.max(0, REVIEW_PROMPT_BUDGET - Buffer.byteLength(goal));
+  const fieldBytes = Math.min(MAX_FIELD_BYTES, Math.floor(available / Math.max(1, candidates.length) / 2));
+  const sections = candidates.map((candidate) => {
+    const heading = [candidate.label, candidate.description, `agent: ${candidate.agent}`, candidate.status]
+      .filter(Boolean)
+      .join(" - ");
+    const summary = candidate.summary ? truncateToBytes(candidate.summary, "end", fieldBytes) : "(no summary captured)";
+    const diff = candidate.diff?.trim() ? truncateToBytes(candidate.diff, "start", fieldBytes) : "(no changes)";
+    return `## ${heading}\n\n### Final message\n${summary}\n\n### Diff\n\`\`\`diff\n${diff}\n\`\`\``;
+  });
+
+  const task = mode === "compare"
+    ? `Several coding agents worked on the same task independently. Decide which attempt is best ("winner"), note where attempts conflict if someone wanted to combine them, and explain your choice.`
+    : `Several coding agents each worked on one part of a plan, on separate branches. Flag changes that conflict with each other, propose the order to merge them in ("mergeOrder"), and summarize the state of the work. Leave "winner" null unless two tasks are alternatives to each other.`;
+
+  return `You are reviewing the results of a multi-agent run.
+
+${task}
+
+Refer to each session by its label: ${candidates.map((candidate) => `"${candidate.label}"`).join(", ")}.
+
+Output ONLY a JSON object, no other text:
+{
+  "winner": "label or null",
+  "conflicts": ["description of each conflict"],
+  "mergeOrder": ["label", "..."],
+  "summary": "your reasoning"
+}
+
+Goal:
+${goal}
+
+${sections.join("\n\n")}
+`;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Read the reviewer's answer. Labels it did not get are dropped; an answer that is
+ * not a JSON object is kept whole as the summary.
+ */
+export function parseReviewVerdict(
+  output: string,
+  labels: string[]
+): Pick<ReviewVerdict, "winner" | "conflicts" | "mergeOrder" | "summary"> {
+  const value = extractJson(output);
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { summary: truncateOutput(output.trim(), "start") };
+  }
+  const answer = value as Record<string, unknown>;
+  const known = (label: unknown): label is string => typeof label === "string" && labels.includes(label);
+  return {
+    ...(known(answer.winner) ? { winner: answer.winner } : {}),
+    ...(isStringArray(answer.conflicts) && answer.conflicts.length > 0 ? { conflicts: answer.conflicts } : {}),
+    ...(isStringArray(answer.mergeOrder) && answer.mergeOrder.some(known) ? { mergeOrder: answer.mergeOrder.filter(known) } : {}),
+    summary: typeof answer.summary === "string" ? answer.summary.trim() : "",
+  };
+}
+
+/** Run the reviewer on finished sessions and return its verdict */
+export async function reviewSessions(
+  spec: OrchestratorSpec,
+  goal: string,
+  candidates: ReviewCandidate[],
+  mode: ReviewMode,
+  registry: AgentRegistry,
+  cwd?: string
+): Promise<ReviewVerdict> {
+  const output = await runOrchestrator(spec, buildReviewPrompt(goal, candidates, mode), registry, cwd);
+  const labels = candidates.map((candidate) => candidate.label);
+  return {
+    reviewer: orchestratorName(spec),
+    reviewedAt: new Date().toISOString(),
+    reviewed: labels,
+    ...parseReviewVerdict(output, labels),
+  };
+}
+
+/** Store a verdict in sessions.jsonl, keyed by the plan id, launch id and tag it judged */
+export async function recordReview(
+  dataDir: string,
+  entry: { sessionName: string; planId?: string; launchId?: string; tag?: string; review: ReviewVerdict; agent?: AgentType }
+): Promise<SessionMetaWrite> {
+  return appendSessionMeta(dataDir, { ...entry, status: "done", source: "review" });
+}
+
+/** Stored verdicts for a plan id, launch id or tag, oldest first */
+export function findReviews(entries: SessionMetaEntry[], key: string): SessionMetaEntry[] {
+  return entries.filter((entry) =>
+    entry.review && (entry.planId === key || entry.launchId === key || entry.tag === key)
+  );
+}
+
+export function formatReview(verdict: ReviewVerdict): string[] {
+  const lines = [`Review by ${verdict.reviewer} (${verdict.reviewedAt}) of ${verdict.reviewed.join(", ")}`];
+  if (verdict.winner) lines.push(`  Winner: ${verdict.winner}`);
+  if (verdict.mergeOrder?.length) lines.push(`  Merge order: ${verdict.mergeOrder.join(" -> ")}`);
+  for (const conflict of verdict.conflicts ?? []) {
+    lines.push(`  Conflict: ${conflict}`);
+  }
+  if (verdict.summary) {
+    lines.push("", ...verdict.summary.split("\n").map((line) => `  ${line}`.trimEnd()));
+  }
+  return lines;
+}
@@ -0,0 +1,175 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { expandHome } from "./jsonl";
+import { describeSignal, type CompletionSignal, type CompletionTarget } from "./completion";
+import type {
+  OrchestrationPlan,
+  OrchestrationRun,
+  OrchestrationRunOptions,
+  TaskRunState,
+  TaskRunStatus,
+} from "./types";
+
+export function getRunsDir(dataDir: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/runs`;
+}
+
+export function getRunFile(dataDir: string, planId: string): string {
+  // Plan ids from plan files are user-supplied, so keep them to one path segment
+  return `${getRunsDir(dataDir)}/${planId.replace(/[^A-Za-z0-9_.-]/g, "_")}.json`;
+}
+
+/** Start a run with every task pending */
+export function createRun(
+  plan: OrchestrationPlan,
+  options: OrchestrationRunOptions,
+  now = new Date().toISOString()
+): OrchestrationRun {
+  const tasks: Record<string, TaskRunState> = {};
+  for (const task of plan.tasks) {
+    tasks[task.id] = { status: "pending" };
+  }
+  return { planId: plan.id, plan, options, startedAt: now, updatedAt: now, tasks };
+}
+
+/** Write a run's state file (via a temp file, so a killed process never leaves it half-written) */
+export async function saveRun(dataDir: string, run: OrchestrationRun): Promise<void> {
+  const filePath = expandHome(getRunFile(dataDir, run.planId));
+  await mkdir(expandHome(getRunsDir(dataDir)), { recursive: true });
+  run.updatedAt = new Date().toISOString();
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(run, null, 2), "utf8");
+  await rename(tmpPath, filePath);
+}
+
+/** Load a run's state file, or undefined if there is none */
+export async function loadRun(dataDir: string, planId: string): Promise<OrchestrationRun | undefined> {
+  const filePath = expandHome(getRunFile(dataDir, planId));
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+  try {
+    return JSON.parse(content) as OrchestrationRun;
+  } catch (err) {
+    throw new Error(`Invalid run state in ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Serialize saves of one run: launches happen in parallel, and an older
+ * snapshot must never overwrite a newer one.
+ */
+export function createRunSaver(dataDir: string, run: OrchestrationRun): () => Promise<void> {
+  let writing: Promise<void> = Promise.resolve();
+  return () => {
+    const next = writing.then(() => saveRun(dataDir, run));
+    writing = next.catch(() => {});
+    return next;
+  };
+}
+
+export function updateTaskState(run: OrchestrationRun, taskId: string, patch: Partial<TaskRunState>): TaskRunState {
+  const state = { ...run.tasks[taskId], ...patch } as TaskRunState;
+  run.tasks[taskId] = state;
+  return state;
+}
+
+/** Completion target for a launched task, used to keep tracking it after --resume */
+export function taskCompletionTarget(state: TaskRunState): CompletionTarget | undefined {
+  if (!state.sessionName || !state.completion || !state.markerPath || !state.launchedAt) return undefined;
+  return {
+    sessionName: state.sessionName,
+    mode: state.completion,
+    launchedAt: state.launchedAt,
+    markerPath: state.markerPath,
+  };
+}
+
+/** A dependency lets its dependents run once it completed, or failed with onFailure "continue" */
+export function dependencySatisfied(state: TaskRunState | undefined): boolean {
+  return state?.status === "completed" || (state?.status === "failed" && state.ignoreFailure === true);
+}
+
+/** Pending or queued tasks whose dependencies are all satisfied, queued ones first */
+export function readyTasks(run: OrchestrationRun): string[] {
+  const waiting = (status: TaskRunStatus) => run.plan.tasks.filter((task) => run.tasks[task.id]?.status === status);
+  return [...waiting("queued"), ...waiting("pending")]
+    .filter((task) =>
+      (task.dependencies ?? []).every((dep) => dependencySatisfied(run.tasks[dep]))
+    )
+    .map((task) => task.id);
+}
+
+/** Running tasks that have been up longer than their timeoutSeconds */
+export function timedOutTasks(run: OrchestrationRun, now = Date.now()): string[] {
+  return run.plan.tasks
+    .filter((task) => {
+      const state = run.tasks[task.id];
+      if (!task.timeoutSeconds || state?.status !== "running" || !state.launchedAt) return false;
+      return now - Date.parse(state.launchedAt) >= task.timeoutSeconds * 1000;
+    })
+    .map((task) => task.id);
+}
+
+export type WaitReason = "dependencies" | "queued" | "retries" | "running";
+
+/**
+ * Why orchestrate should keep polling the run, or undefined once it can stop.
+ * Queued tasks and retries always keep it going; with --wait (waitForDeps) it also
+ * waits for dependencies and for every running task to reach a final state, so
+ * failure detection, retries and timeouts apply to leaf tasks too. An abort stops it.
+ */
+export function waitReason(run: OrchestrationRun, waitForDeps: boolean): WaitReason | undefined {
+  if (run.abortedBy) return undefined;
+  const states = run.plan.tasks.map((task) => run.tasks[task.id]);
+  const isPending = (state: TaskRunState | undefined) => (state?.status ?? "pending") === "pending";
+  const isRetry = (state: TaskRunState | undefined) => (state?.attempt ?? 1) > 1;
+  if (waitForDeps && states.some((state) => isPending(state) && !isRetry(state))) return "dependencies";
+  if (states.some((state) => state?.status === "queued")) return "queued";
+  if (states.some((state) => isPending(state) && isRetry(state))) return "retries";
+  if (waitForDeps && states.some((state) => state?.status === "running")) return "running";
+  return undefined;
+}
+
+export function countTaskStatuses(run: OrchestrationRun): Record<TaskRunStatus, number> {
+  const counts: Record<TaskRunStatus, number> = { pending: 0, queued: 0, running: 0, completed: 0, failed: 0, skipped: 0 };
+  for (const state of Object.values(run.tasks)) {
+    counts[state.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Final report of a run: status counts, then one line per task with its agent, attempts and outcome.
+ * Running tasks only get a final state while orchestrate watches them, so a run left with any is
+ * reported as still in progress.
+ */
+export function formatRunSummary(run: OrchestrationRun): string[] {
+  const counts = countTaskStatuses(run);
+  const totals = (Object.entries(counts) as Array<[TaskRunStatus, number]>)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+  const aborted = run.abortedBy ? ` (aborted after ${run.abortedBy} failed)` : "";
+  const inProgress = counts.running > 0 ? " - still in progress" : "";
+  const lines = [`Run summary: ${totals.join(", ")}${aborted}${inProgress}`];
+
+  for (const task of run.plan.tasks) {
+    const state = run.tasks[task.id] ?? { status: "pending" };
+    const attempts = state.attempt && state.attempt > 1 ? `, ${state.attempt} attempts` : "";
+    let detail = state.error ?? "";
+    if (state.status === "completed" && state.signal) {
+      detail = describeSignal(state.signal as CompletionSignal);
+    } else if (state.status === "failed" && state.ignoreFailure) {
+      detail = `${detail} (dependents continued)`;
+    }
+    lines.push(`  [${task.id}] ${state.status.padEnd(9)} ${state.agent ?? task.agent}${attempts}${detail ? ` - ${detail}` : ""}`);
+    for (const failure of state.failures ?? []) {
+      lines.push(`      ${failure}`);
+    }
+  }
+  return lines;
+}
@@ -1,5 +1,5 @@
-import { appendJsonl, readJsonl } from "./jsonl";
 import { createId } from "./ids";
+import { openStorage, type SessionMetaQuery, type SessionMetaWrite } from "./storage";
 import { DEFAULT_DATA_DIR, type SessionMetaEntry } from "./types";
 
 const SESSIONS_FILE = "sessions.jsonl";
@@ -24,21 +24,40 @@ export function normalizeTag(tag?: string): string | undefined {
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
+/** Returns the full entry, and a torn line quarantined before it for the caller to report */
 export async function appendSessionMeta(
   dataDir: string,
   entry: Omit<SessionMetaEntry, "id" | "timestamp">
-): Promise<SessionMetaEntry> {
+): Promise<SessionMetaWrite> {
   const full: SessionMetaEntry = {
     id: createId("session"),
     timestamp: new Date().toISOString(),
     ...entry,
   };
-  await appendJsonl(getSessionsFile(dataDir), full);
-  return full;
+  const quarantined = await (await openStorage(dataDir)).appendSessionMeta(full);
+  return { entry: full, quarantined };
 }
 
-export async function readSessionMeta(dataDir: string): Promise<SessionMetaEntry[]> {
-  return readJsonl<SessionMetaEntry>(getSessionsFile(dataDir));
+/**
+ * Append an entry derived from a session's latest entry, which the store reads while
+ * holding its write lock: fields another process added meanwhile are carried forward
+ * instead of being overwritten by a stale copy.
+ */
+async function appendDerivedSessionMeta(
+  dataDir: string,
+  sessionName: string,
+  build: (latest: SessionMetaEntry | undefined) => Omit<SessionMetaEntry, "id" | "timestamp">
+): Promise<SessionMetaWrite> {
+  const storage = await openStorage(dataDir);
+  return storage.updateSessionMeta(sessionName, (latest) => ({
+    id: createId("session"),
+    timestamp: new Date().toISOString(),
+    ...build(latest),
+  }));
+}
+
+export async function readSessionMeta(dataDir: string, query?: SessionMetaQuery): Promise<SessionMetaEntry[]> {
+  return (await openStorage(dataDir)).readSessionMeta(query);
 }
 
 export function buildSessionMetaMap(entries: SessionMetaEntry[]): Map<string, SessionMetaEntry> {
@@ -50,15 +69,22 @@ export function buildSessionMetaMap(entries: SessionMetaEntry[]): Map<string, Se
   return map;
 }
 
+/** Fields of the latest entry that carry forward when appending a new entry for the same session */
+function inheritMeta(meta: SessionMetaEntry | undefined): Omit<SessionMetaEntry, "id" | "timestamp" | "sessionName"> {
+  if (!meta) return {};
+  const { id: _id, timestamp: _timestamp, sessionName: _sessionName, renamedFrom: _renamedFrom, ...rest } = meta;
+  return rest;
+}
+
 /**
  * Mark a session as done by renaming it with "-done" suffix and updating metadata.
- * Returns the new session name and metadata entry, or null if the operation failed.
+ * Returns the new session name and the metadata write, or null if the operation failed.
  */
 export async function markSessionDone(
   dataDir: string,
   sessionName: string,
   existingMeta?: SessionMetaEntry
-): Promise<{ newName: string; entry: SessionMetaEntry } | null> {
+): Promise<(SessionMetaWrite & { newName: string }) | null> {
   // Import tmux functions dynamically to avoid circular deps
   const { hasSession, renameSession } = await import("./tmux");
 
@@ -75,18 +101,45 @@ export async function markSessionDone(
     renamedFrom = sessionName;
   }
 
-  const entry = await appendSessionMeta(dataDir, {
+  const written = await appendDerivedSessionMeta(dataDir, sessionName, (latest = existingMeta) => ({
+    ...inheritMeta(latest),
     sessionName: newName,
-    agent: existingMeta?.agent,
-    promptPreview: existingMeta?.promptPreview,
-    cwd: existingMeta?.cwd,
-    tag: existingMeta?.tag,
-    planId: existingMeta?.planId,
-    taskId: existingMeta?.taskId,
     status: "done",
     renamedFrom,
     source: "watch",
-  });
+  }));
 
-  return { newName, entry };
+  return { newName, ...written };
+}
+
+/**
+ * Record that a session no longer holds a --max-parallel slot (orchestrate's completed
+ * tasks), while the agent may stay open. Its status is left alone: the session is not done.
+ */
+export async function releaseSessionSlot(dataDir: string, sessionName: string): Promise<SessionMetaWrite> {
+  return appendDerivedSessionMeta(dataDir, sessionName, (latest) => ({
+    ...inheritMeta(latest),
+    sessionName,
+    slotReleasedAt: new Date().toISOString(),
+  }));
+}
+
+/**
+ * Record that an agent session_id (from hook payloads) belongs to a tmux session.
+ * Carries the existing metadata forward so the new entry stays the complete record.
+ */
+export async function linkAgentSession(
+  dataDir: string,
+  sessionName: string,
+  agentSessionId: string,
+  transcriptPath: string | undefined,
+  existingMeta?: SessionMetaEntry
+): Promise<SessionMetaWrite> {
+  return appendDerivedSessionMeta(dataDir, sessionName, (latest = existingMeta) => ({
+    ...inheritMeta(latest),
+    sessionName,
+    agentSessionId,
+    transcriptPath: transcriptPath ?? latest?.transcriptPath,
+    source: latest?.source ?? "watch",
+  }));
 }
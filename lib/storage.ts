@@ -0,0 +1,493 @@
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { Database, type SQLQueryBindings } from "bun:sqlite";
+import { appendJsonl, expandHome, readJsonl, readJsonlTail, updateJsonl, type QuarantinedLine } from "./jsonl";
+import { getHooksFile } from "./hooks";
+import { getSessionsFile } from "./sessions";
+import { loadLogRotation, loadStorageBackend, type StorageBackend } from "./config";
+import type { HookEntry, LogRotationPolicy, SessionMetaEntry } from "./types";
+
+/**
+ * Where hooks and session metadata are kept: the JSONL logs (default), or an SQLite
+ * database selected with "storage": "sqlite" in config.json for indexed queries.
+ */
+
+/** Position in the hook order (timestamp, then id) that a page of results ends at */
+export type HookCursor = { timestamp: string; id: string };
+
+/** Hook filters; each given field must match. since is inclusive, until exclusive. */
+export type HookQuery = {
+  events?: string[];
+  sessionId?: string;   // agent's session_id from the payload
+  toolName?: string;
+  cwd?: string;         // payload cwd is this directory or inside it
+  text?: string;        // case-insensitive substring of the payload JSON
+  tag?: string;         // hooks of sessions launched with this tag
+  since?: string;       // ISO timestamps, or durations before now (see parseTimeBound)
+  until?: string;
+  sessionNames?: string[];  // hooks of these tmux sessions, by name or by a linked agent session_id
+  before?: HookCursor;  // only hooks ordered before this one
+  limit?: number;       // only the last N matches
+};
+
+export type SessionMetaQuery = {
+  sessionName?: string;
+  tag?: string;
+  planId?: string;
+  launchId?: string;
+  since?: string;
+  until?: string;
+};
+
+/** A session metadata write: the entry, and a torn line the JSONL backend quarantined first */
+export type SessionMetaWrite = { entry: SessionMetaEntry; quarantined?: QuarantinedLine };
+
+/** Appends return a torn line the JSONL backend quarantined first (see recoverJsonlTail) */
+export type Storage = {
+  backend: StorageBackend;
+  appendHook: (entry: HookEntry) => Promise<QuarantinedLine | undefined>;
+  /** Matching hooks, oldest first */
+  queryHooks: (query?: HookQuery) => Promise<HookEntry[]>;
+  appendSessionMeta: (entry: SessionMetaEntry) => Promise<QuarantinedLine | undefined>;
+  /** Append the entry build makes from the session's latest one, with no other write in between */
+  updateSessionMeta: (
+    sessionName: string,
+    build: (latest: SessionMetaEntry | undefined) => SessionMetaEntry
+  ) => Promise<SessionMetaWrite>;
+  /** Matching metadata entries in the order they were written */
+  readSessionMeta: (query?: SessionMetaQuery) => Promise<SessionMetaEntry[]>;
+  close: () => void;
+};
+
+const SQLITE_FILE = "agentwatch.db";
+
+export function getSqliteFile(dataDir: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/${SQLITE_FILE}`;
+}
+
+const DURATION_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+/**
+ * A since/until bound as an ISO timestamp, so it compares with stored timestamps.
+ * Takes anything Date.parse does ("2024-05-01", "2024-05-01T12:00:00Z") or a
+ * duration before now ("30m", "12h", "7d").
+ */
+export function parseTimeBound(value: string, name: string, now = Date.now()): string {
+  const duration = value.trim().match(/^(\d+(?:\.\d+)?)([smhdw])$/);
+  const time = duration ? now - parseFloat(duration[1]) * DURATION_MS[duration[2]] : Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`Invalid ${name} time "${value}" (use an ISO date or a duration like 12h)`);
+  return new Date(time).toISOString();
+}
+
+/** Resolve since/until once per query, so durations are relative to the same moment */
+function resolveTimeRange<Q extends { since?: string; until?: string }>(query: Q): Q {
+  const now = Date.now();
+  return {
+    ...query,
+    ...(query.since !== undefined ? { since: parseTimeBound(query.since, "since", now) } : {}),
+    ...(query.until !== undefined ? { until: parseTimeBound(query.until, "until", now) } : {}),
+  };
+}
+
+/** Expects a resolved range (see resolveTimeRange) */
+function inTimeRange(timestamp: string, query: { since?: string; until?: string }): boolean {
+  const time = Date.parse(timestamp);
+  if (query.since !== undefined && time < Date.parse(query.since)) return false;
+  if (query.until !== undefined && time >= Date.parse(query.until)) return false;
+  return true;
+}
+
+/** Order of hooks in query results: by timestamp, then id */
+function compareHooks(a: HookCursor, b: HookCursor): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/** A cwd prefix without its trailing slash ("" for the root) */
+function normalizeCwd(cwd: string): string {
+  return expandHome(cwd).replace(/\/+$/, "");
+}
+
+type SessionSet = { names: Set<string>; sessionIds: Set<string> };
+
+/** Session names and agent session_ids of the sessions whose entries match (renamed ones included) */
+function relatedSessions(entries: SessionMetaEntry[], match: (entry: SessionMetaEntry) => boolean): SessionSet {
+  const names = new Set<string>();
+  const sessionIds = new Set<string>();
+  for (const entry of entries) {
+    if (!match(entry)) continue;
+    names.add(entry.sessionName);
+    if (entry.agentSessionId) sessionIds.add(entry.agentSessionId);
+  }
+  return { names, sessionIds };
+}
+
+/** HookQuery as a predicate; tagged and named are required when the query has a tag or sessionNames */
+export function hookMatcher(
+  query: HookQuery,
+  sessions: { tagged?: SessionSet; named?: SessionSet } = {}
+): (hook: HookEntry) => boolean {
+  const range = resolveTimeRange(query);
+  const cwd = query.cwd !== undefined ? normalizeCwd(query.cwd) : undefined;
+  const text = query.text?.toLowerCase();
+  return (hook) => {
+    const { session_id: sessionId, tool_name: toolName, cwd: hookCwd } = hook.payload;
+    if (query.events && !query.events.includes(hook.event)) return false;
+    if (query.sessionId !== undefined && sessionId !== query.sessionId) return false;
+    if (query.toolName !== undefined && toolName !== query.toolName) return false;
+    if (cwd !== undefined && !(typeof hookCwd === "string" && (hookCwd === cwd || hookCwd.startsWith(`${cwd}/`)))) return false;
+    if (text && !JSON.stringify(hook.payload).toLowerCase().includes(text)) return false;
+    const inSessions = (set: SessionSet | undefined) =>
+      (hook.sessionName !== undefined && set?.names.has(hook.sessionName)) ||
+      (typeof sessionId === "string" && set?.sessionIds.has(sessionId));
+    if (query.tag !== undefined && !inSessions(sessions.tagged)) return false;
+    if (query.sessionNames !== undefined && !inSessions(sessions.named)) return false;
+    if (query.before && compareHooks(hook, query.before) >= 0) return false;
+    return inTimeRange(hook.timestamp, range);
+  };
+}
+
+export function sessionMetaMatcher(query: SessionMetaQuery): (entry: SessionMetaEntry) => boolean {
+  query = resolveTimeRange(query);
+  return (entry) =>
+    (query.sessionName === undefined || entry.sessionName === query.sessionName) &&
+    (query.tag === undefined || entry.tag === query.tag) &&
+    (query.planId === undefined || entry.planId === query.planId) &&
+    (query.launchId === undefined || entry.launchId === query.launchId) &&
+    inTimeRange(entry.timestamp, query);
+}
+
+/** The default backend: hooks.jsonl and sessions.jsonl, rotated per config.json "logs" */
+export function createJsonlStorage(
+  dataDir: string,
+  rotation: { hooks?: LogRotationPolicy; sessions?: LogRotationPolicy } = {}
+): Storage {
+  const hooksFile = getHooksFile(expandHome(dataDir));
+  const sessionsFile = getSessionsFile(expandHome(dataDir));
+  // Read on every hook and orchestrate poll, so rotated segments come from the cache
+  const readMeta = () => readJsonl<SessionMetaEntry>(sessionsFile, { cacheSegments: true });
+
+  return {
+    backend: "jsonl",
+    appendHook: (entry) => appendJsonl(hooksFile, entry, rotation.hooks),
+    async queryHooks(query = {}) {
+      const meta = query.tag !== undefined || query.sessionNames !== undefined ? await readMeta() : [];
+      const names = new Set(query.sessionNames);
+      const match = hookMatcher(query, {
+        tagged: query.tag !== undefined ? relatedSessions(meta, (entry) => entry.tag === query.tag) : undefined,
+        named: query.sessionNames !== undefined
+          ? { names, sessionIds: relatedSessions(meta, (entry) => names.has(entry.sessionName)).sessionIds }
+          : undefined,
+      });
+      // The log is in write order, which is time order except for hooks held for approval
+      const hooks = query.limit !== undefined
+        ? await readJsonlTail<HookEntry>(hooksFile, query.limit, match)
+        : (await readJsonl<HookEntry>(hooksFile, { since: resolveTimeRange(query).since })).filter(match);
+      return hooks.sort(compareHooks);
+    },
+    appendSessionMeta: (entry) => appendJsonl(sessionsFile, entry, rotation.sessions),
+    updateSessionMeta: (sessionName, build) => updateJsonl<SessionMetaEntry>(
+      sessionsFile,
+      (entry) => entry.sessionName === sessionName,
+      build,
+      rotation.sessions
+    ),
+    async readSessionMeta(query) {
+      const entries = await readMeta();
+      return query ? entries.filter(sessionMetaMatcher(query)) : entries;
+    },
+    close: () => {},
+  };
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS hooks (
+  id TEXT PRIMARY KEY,
+  timestamp TEXT,
+  event TEXT,
+  session_id TEXT,
+  tool_name TEXT,
+  session_name TEXT,
+  entry TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS hooks_timestamp ON hooks (timestamp, id);
+CREATE INDEX IF NOT EXISTS hooks_event ON hooks (event, timestamp);
+CREATE INDEX IF NOT EXISTS hooks_session_id ON hooks (session_id, timestamp);
+CREATE INDEX IF NOT EXISTS hooks_tool_name ON hooks (tool_name, timestamp);
+CREATE INDEX IF NOT EXISTS hooks_session_name ON hooks (session_name);
+CREATE INDEX IF NOT EXISTS hooks_cwd ON hooks (json_extract(entry, '$.payload.cwd'));
+
+CREATE TABLE IF NOT EXISTS session_meta (
+  id TEXT PRIMARY KEY,
+  timestamp TEXT,
+  session_name TEXT,
+  agent_session_id TEXT,
+  tag TEXT,
+  plan_id TEXT,
+  launch_id TEXT,
+  entry TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS session_meta_timestamp ON session_meta (timestamp);
+CREATE INDEX IF NOT EXISTS session_meta_session_name ON session_meta (session_name);
+CREATE INDEX IF NOT EXISTS session_meta_tag ON session_meta (tag);
+CREATE INDEX IF NOT EXISTS session_meta_plan_id ON session_meta (plan_id);
+CREATE INDEX IF NOT EXISTS session_meta_launch_id ON session_meta (launch_id);
+`;
+
+/** Open (creating if needed) the database, with inserts that ignore ids already stored */
+function openDatabase(file: string) {
+  mkdirSync(dirname(file), { recursive: true });
+  const db = new Database(file, { create: true });
+  // WAL lets the hooks daemon write while CLIs read; busy_timeout waits out other writers
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA busy_timeout = 5000");
+  db.exec(SCHEMA);
+
+  const hookStatement = db.prepare(
+    "INSERT OR IGNORE INTO hooks (id, timestamp, event, session_id, tool_name, session_name, entry) VALUES (?, ?, ?, ?, ?, ?, ?)"
+  );
+  const metaStatement = db.prepare(
+    "INSERT OR IGNORE INTO session_meta (id, timestamp, session_name, agent_session_id, tag, plan_id, launch_id, entry) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+  );
+  const text = (value: unknown) => typeof value === "string" ? value : null;
+
+  return {
+    db,
+    /** Returns whether the hook was new */
+    insertHook: (entry: HookEntry): boolean => hookStatement.run(
+      entry.id, entry.timestamp, entry.event, text(entry.payload.session_id), text(entry.payload.tool_name),
+      entry.sessionName ?? null, JSON.stringify(entry)
+    ).changes > 0,
+    insertSessionMeta: (entry: SessionMetaEntry): boolean => metaStatement.run(
+      entry.id, entry.timestamp, entry.sessionName, entry.agentSessionId ?? null, entry.tag ?? null,
+      entry.planId ?? null, entry.launchId ?? null, JSON.stringify(entry)
+    ).changes > 0,
+  };
+}
+
+function timeConditions(query: { since?: string; until?: string }, where: string[], params: SQLQueryBindings[]): void {
+  const range = resolveTimeRange(query);
+  if (range.since !== undefined) {
+    where.push("timestamp >= ?");
+    params.push(range.since);
+  }
+  if (range.until !== undefined) {
+    where.push("timestamp < ?");
+    params.push(range.until);
+  }
+}
+
+/** Everything in one SQLite file (agentwatch.db in the data dir), queried through indexes */
+export function createSqliteStorage(file: string): Storage {
+  const { db, insertHook, insertSessionMeta } = openDatabase(expandHome(file));
+
+  return {
+    backend: "sqlite",
+    async appendHook(entry) {
+      insertHook(entry);
+      return undefined;
+    },
+    async queryHooks(query = {}) {
+      const where: string[] = [];
+      const params: SQLQueryBindings[] = [];
+      if (query.events) {
+        where.push(`event IN (${query.events.map(() => "?").join(", ") || "NULL"})`);
+        params.push(...query.events);
+      }
+      if (query.sessionId !== undefined) {
+        where.push("session_id = ?");
+        params.push(query.sessionId);
+      }
+      if (query.toolName !== undefined) {
+        where.push("tool_name = ?");
+        params.push(query.toolName);
+      }
+      if (query.cwd !== undefined) {
+        // The directory itself, or anything under "<dir>/" ("0" sorts right after "/")
+        const cwd = normalizeCwd(query.cwd);
+        where.push(`(json_extract(entry, '$.payload.cwd') = ?
+          OR (json_extract(entry, '$.payload.cwd') >= ? AND json_extract(entry, '$.payload.cwd') < ?))`);
+        params.push(cwd, `${cwd}/`, `${cwd}0`);
+      }
+      if (query.text) {
+        where.push("instr(lower(json_extract(entry, '$.payload')), ?) > 0");
+        params.push(query.text.toLowerCase());
+      }
+      if (query.before) {
+        where.push("(timestamp < ? OR (timestamp = ? AND id < ?))");
+        params.push(query.before.timestamp, query.before.timestamp, query.before.id);
+      }
+      if (query.tag !== undefined) {
+        where.push(`(session_name IN (SELECT session_name FROM session_meta WHERE tag = ?)
+          OR session_id IN (SELECT agent_session_id FROM session_meta WHERE tag = ?))`);
+        params.push(query.tag, query.tag);
+      }
+      if (query.sessionNames !== undefined) {
+        const names = query.sessionNames.map(() => "?").join(", ") || "NULL";
+        where.push(`(session_name IN (${names})
+          OR session_id IN (SELECT agent_session_id FROM session_meta WHERE session_name IN (${names})))`);
+        params.push(...query.sessionNames, ...query.sessionNames);
+      }
+      timeConditions(query, where, params);
+
+      const filter = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
+      let sql = `SELECT id, timestamp, entry FROM hooks ${filter}`;
+      if (query.limit !== undefined) {
+        // Newest N, put back in chronological order
+        sql = `SELECT * FROM (${sql} ORDER BY timestamp DESC, id DESC LIMIT ?)`;
+        params.push(Math.max(0, query.limit));
+      }
+      const rows = db.query(`${sql} ORDER BY timestamp, id`).all(...params) as { entry: string }[];
+      return rows.map((row) => JSON.parse(row.entry) as HookEntry);
+    },
+    async appendSessionMeta(entry) {
+      insertSessionMeta(entry);
+      return undefined;
+    },
+    async updateSessionMeta(sessionName, build) {
+      // IMMEDIATE takes the write lock before the read
+      return db.transaction(() => {
+        const row = db.query("SELECT entry FROM session_meta WHERE session_name = ? ORDER BY timestamp DESC, rowid DESC LIMIT 1")
+          .get(sessionName) as { entry: string } | null;
+        const entry = build(row ? JSON.parse(row.entry) as SessionMetaEntry : undefined);
+        insertSessionMeta(entry);
+        return { entry };
+      }).immediate();
+    },
+    async readSessionMeta(query = {}) {
+      const where: string[] = [];
+      const params: SQLQueryBindings[] = [];
+      const columns = [
+        ["session_name", query.sessionName],
+        ["tag", query.tag],
+        ["plan_id", query.planId],
+        ["launch_id", query.launchId],
+      ] as const;
+      for (const [column, value] of columns) {
+        if (value === undefined) continue;
+        where.push(`${column} = ?`);
+        params.push(value);
+      }
+      timeConditions(query, where, params);
+
+      const filter = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
+      const rows = db.query(`SELECT entry FROM session_meta ${filter} ORDER BY timestamp, rowid`).all(...params) as { entry: string }[];
+      return rows.map((row) => JSON.parse(row.entry) as SessionMetaEntry);
+    },
+    close: () => db.close(),
+  };
+}
+
+// One storage per data dir for the life of the process
+const opened = new Map<string, Promise<Storage>>();
+
+/** The data dir's storage, as selected by config.json (throws if the config is invalid) */
+export function openStorage(dataDir: string): Promise<Storage> {
+  const key = expandHome(dataDir);
+  let storage = opened.get(key);
+  if (!storage) {
+    storage = (async (): Promise<Storage> => {
+      if (await loadStorageBackend(dataDir) === "sqlite") return createSqliteStorage(getSqliteFile(key));
+      return createJsonlStorage(dataDir, {
+        hooks: await loadLogRotation(dataDir, "hooks"),
+        sessions: await loadLogRotation(dataDir, "sessions"),
+      });
+    })();
+    // A config error is reported again on the next call rather than cached
+    storage.catch(() => opened.delete(key));
+    opened.set(key, storage);
+  }
+  return storage;
+}
+
+/** Hooks from the data dir's storage (see HookQuery), oldest first */
+export async function readHooks(dataDir: string, query?: HookQuery): Promise<HookEntry[]> {
+  return (await openStorage(dataDir)).queryHooks(query);
+}
+
+/** A page of search results (oldest first); nextCursor fetches the page before it */
+export type HookPage = {
+  hooks: HookEntry[];
+  nextCursor?: string;
+};
+
+export const DEFAULT_HOOK_PAGE_SIZE = 50;
+
+export function encodeHookCursor(hook: HookCursor): string {
+  return Buffer.from(JSON.stringify([hook.timestamp, hook.id])).toString("base64url");
+}
+
+export function decodeHookCursor(cursor: string): HookCursor {
+  try {
+    const [timestamp, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as unknown[];
+    if (typeof timestamp === "string" && typeof id === "string") return { timestamp, id };
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor "${cursor}"`);
+}
+
+/**
+ * The newest `limit` hooks matching a query, or with `before` set the ones before
+ * an earlier page, so following nextCursor walks back in time.
+ */
+export async function searchHooks(storage: Storage, query: HookQuery, limit: number): Promise<HookPage> {
+  // One extra tells whether there is another page
+  const hooks = await storage.queryHooks({ ...query, limit: limit + 1 });
+  if (hooks.length <= limit) return { hooks };
+  const page = hooks.slice(1);
+  return { hooks: page, nextCursor: encodeHookCursor(page[0]) };
+}
+
+const splitList = (value: string | undefined) => value?.split(",").map((s) => s.trim()).filter(Boolean);
+
+/**
+ * Build a search from GET /hooks query params (also used by ctl hooks):
+ * ?event=A,B&tool=Bash&session_id=...&cwd=/repo&q=text&tag=T&since=1d&until=...&limit=N&cursor=C
+ */
+export function parseHookSearch(params: Record<string, string | undefined>): { query: HookQuery; limit: number } {
+  const limit = params.limit !== undefined ? Number(params.limit) : DEFAULT_HOOK_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) throw new Error(`limit must be a positive integer, got "${params.limit}"`);
+
+  const events = splitList(params.event);
+  const now = Date.now();
+  const query: HookQuery = {
+    ...(events?.length ? { events } : {}),
+    ...(params.tool ? { toolName: params.tool } : {}),
+    ...(params.session_id ? { sessionId: params.session_id } : {}),
+    ...(params.cwd ? { cwd: params.cwd } : {}),
+    ...(params.q ? { text: params.q } : {}),
+    ...(params.tag ? { tag: params.tag } : {}),
+    // Durations in both bounds count back from the same moment
+    ...(params.since ? { since: parseTimeBound(params.since, "since", now) } : {}),
+    ...(params.until ? { until: parseTimeBound(params.until, "until", now) } : {}),
+    ...(params.cursor ? { before: decodeHookCursor(params.cursor) } : {}),
+  };
+  return { query, limit };
+}
+
+export type ImportCounts = { read: number; added: number };
+
+/**
+ * Backfill the SQLite database from hooks.jsonl and sessions.jsonl (rotated segments
+ * included). Entries already in the database are skipped, so it can be run again.
+ */
+export async function importJsonlToSqlite(
+  dataDir: string,
+  file = getSqliteFile(expandHome(dataDir))
+): Promise<{ file: string; hooks: ImportCounts; sessions: ImportCounts }> {
+  const hooks = await readJsonl<HookEntry>(getHooksFile(expandHome(dataDir)));
+  const sessions = await readJsonl<SessionMetaEntry>(getSessionsFile(expandHome(dataDir)));
+
+  const { db, insertHook, insertSessionMeta } = openDatabase(expandHome(file));
+  try {
+    const counts = db.transaction(() => ({
+      hooks: { read: hooks.length, added: hooks.filter(insertHook).length },
+      sessions: { read: sessions.length, added: sessions.filter(insertSessionMeta).length },
+    }))();
+    return { file, ...counts };
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,173 @@
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import { createId } from "./ids";
+import { expandHome } from "./jsonl";
+import { parsePlan, type PlanInput } from "./plan";
+import type { AgentRegistry } from "./agents";
+import type { OrchestrationPlan } from "./types";
+
+/**
+ * Plan templates: plan JSON in <data-dir>/templates/<name>.json whose descriptions and
+ * prompts contain {{param}} placeholders, filled in by orchestrate's --set NAME=VALUE.
+ */
+
+export type TemplateParam = {
+  name: string;
+  description?: string;
+  default?: string;
+  required: boolean;  // no default
+};
+
+export type PlanTemplate = {
+  name: string;
+  file: string;
+  description?: string;
+  params: TemplateParam[];
+  input: PlanInput;
+};
+
+// A placeholder is a bare name; {{task_id.field}} output references have a dot and are left alone
+const PARAM_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g;
+
+export function getTemplatesDir(dataDir: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/templates`;
+}
+
+/** The text a template fills in: the plan's prompt and each task's description and prompt */
+function templateTexts(input: PlanInput): string[] {
+  const tasks = Array.isArray(input) ? input : input.tasks ?? [];
+  const texts = tasks.flatMap((task) => [task.description, task.prompt]);
+  if (!Array.isArray(input)) texts.unshift(input.originalPrompt);
+  return texts.filter((text): text is string => typeof text === "string");
+}
+
+/** Placeholder names used in a template, in order of first use */
+export function findTemplateParams(input: PlanInput): string[] {
+  const names = new Set<string>();
+  for (const text of templateTexts(input)) {
+    for (const match of text.matchAll(PARAM_PATTERN)) names.add(match[1]);
+  }
+  return [...names];
+}
+
+function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PARAM_PATTERN, (raw, name: string) => values[name] ?? raw);
+}
+
+/**
+ * Parse template JSON: a plan (or bare task array), optionally with a "description" and
+ * "params" describing each placeholder ({ "method": { "description": "...", "default": "GET" } }).
+ */
+export function parseTemplate(name: string, file: string, value: unknown): PlanTemplate {
+  if (!value || typeof value !== "object") {
+    throw new Error(`Template ${name} must be a plan object or task array`);
+  }
+  if (Array.isArray(value)) {
+    return { name, file, params: findTemplateParams(value).map((param) => ({ name: param, required: true })), input: value };
+  }
+
+  const { description, params: declared, ...input } = value as Exclude<PlanInput, unknown[]> & { description?: unknown; params?: unknown };
+  if (description !== undefined && typeof description !== "string") {
+    throw new Error(`Template ${name}: description must be a string`);
+  }
+  if (declared !== undefined && (!declared || typeof declared !== "object" || Array.isArray(declared))) {
+    throw new Error(`Template ${name}: params must map parameter names to { description, default }`);
+  }
+
+  const params = new Map<string, TemplateParam>();
+  for (const param of findTemplateParams(input)) {
+    params.set(param, { name: param, required: true });
+  }
+  for (const [param, spec] of Object.entries((declared ?? {}) as Record<string, unknown>)) {
+    const { description: about, default: fallback } = (spec ?? {}) as { description?: unknown; default?: unknown };
+    if ((about !== undefined && typeof about !== "string") || (fallback !== undefined && typeof fallback !== "string")) {
+      throw new Error(`Template ${name}: params.${param} description and default must be strings`);
+    }
+    params.set(param, {
+      name: param,
+      ...(about ? { description: about } : {}),
+      ...(fallback !== undefined ? { default: fallback } : {}),
+      required: fallback === undefined,
+    });
+  }
+  return { name, file, ...(description ? { description } : {}), params: [...params.values()], input };
+}
+
+/** Load <data-dir>/templates/<name>.json */
+export async function loadTemplate(dataDir: string, name: string): Promise<PlanTemplate> {
+  if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+    throw new Error(`Invalid template name "${name}"`);
+  }
+  const file = join(expandHome(getTemplatesDir(dataDir)), `${name}.json`);
+  let content: string;
+  try {
+    content = await readFile(file, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    const available = (await listTemplates(dataDir)).map((template) => template.name);
+    throw new Error(`No template "${name}" in ${getTemplatesDir(dataDir)} (available: ${available.join(", ") || "none"})`);
+  }
+  try {
+    return parseTemplate(name, file, JSON.parse(content));
+  } catch (err) {
+    throw new Error(err instanceof SyntaxError ? `Invalid JSON in ${file}: ${err.message}` : (err as Error).message);
+  }
+}
+
+/** Every template in the data dir, by name; ones that fail to load carry the error instead */
+export async function listTemplates(dataDir: string): Promise<(PlanTemplate | { name: string; file: string; error: string })[]> {
+  const dir = expandHome(getTemplatesDir(dataDir));
+  const files = await readdir(dir).catch(() => [] as string[]);
+  const names = files.filter((file) => file.endsWith(".json")).map((file) => file.slice(0, -".json".length)).sort();
+  return Promise.all(names.map((name) =>
+    loadTemplate(dataDir, name).catch((err: Error) => ({ name, file: join(dir, `${name}.json`), error: err.message }))
+  ));
+}
+
+/** Parse repeatable --set NAME=VALUE options */
+export function parseSetOptions(values: string[] | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const value of values ?? []) {
+    const eq = value.indexOf("=");
+    if (eq <= 0) throw new Error(`--set expects NAME=VALUE, got "${value}"`);
+    result[value.slice(0, eq).trim()] = value.slice(eq + 1);
+  }
+  return result;
+}
+
+/**
+ * Fill in a template's parameters and build a plan from it, with a new plan id so
+ * each use is its own run. Throws on missing or unknown parameters.
+ */
+export function instantiateTemplate(
+  template: PlanTemplate,
+  values: Record<string, string>,
+  fallbackPrompt: string,
+  registry: AgentRegistry
+): OrchestrationPlan {
+  const known = new Set(template.params.map((param) => param.name));
+  const unknown = Object.keys(values).filter((name) => !known.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown parameter(s) for template ${template.name}: ${unknown.join(", ")} (takes: ${[...known].join(", ") || "none"})`);
+  }
+  const missing = template.params.filter((param) => param.required && values[param.name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Template ${template.name} needs: ${missing.map((param) => `--set ${param.name}=...`).join(" ")}`);
+  }
+
+  const filled: Record<string, string> = {};
+  for (const param of template.params) {
+    filled[param.name] = values[param.name] ?? param.default!;
+  }
+  const fill = (text: string | undefined) => text === undefined ? undefined : fillPlaceholders(text, filled);
+  const fillTasks = (tasks: Exclude<PlanInput, unknown[]>["tasks"]) =>
+    tasks?.map((task) => ({ ...task, description: fill(task.description), prompt: fill(task.prompt) }));
+
+  const input = template.input;
+  const goal = fallbackPrompt || fill(template.description) || `template ${template.name}`;
+  const plan = Array.isArray(input)
+    ? parsePlan(fillTasks(input)!, goal, registry)
+    : parsePlan({ ...input, originalPrompt: fill(input.originalPrompt), tasks: fillTasks(input.tasks) }, goal, registry);
+  return { ...plan, id: createId("plan"), decomposedAt: new Date().toISOString() };
+}
@@ -1,5 +1,9 @@
-import type { TmuxSessionInfo, TmuxWindowInfo, TmuxPaneInfo, AgentType, ProcessStats, ProcessTreeStats } from "./types";
-import { AGENT_CONFIGS } from "./types";
+import { rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { TmuxSessionInfo, TmuxWindowInfo, TmuxPaneInfo, AgentConfig, AgentType, ProcessStats, ProcessTreeStats } from "./types";
+import { BUILTIN_AGENTS, matchAgentProcess, type AgentRegistry } from "./agents";
+import { SESSION_ENV_VAR } from "./correlate";
 
 /** Fast DJB2 hash for content change detection */
 export function quickHash(str: string): string {
@@ -22,6 +26,9 @@ const HAS_SERVER_CACHE_TTL = 5000;
 // Timeout for tmux/ps commands to prevent hanging on stalled server
 const COMMAND_TIMEOUT_MS = 5000;
 
+// tmux rejects commands over about 16KB, so longer prompts go through a file
+const MAX_INLINE_PROMPT_BYTES = 8000;
+
 /** Run a command with a timeout, returning undefined if it times out */
 async function withTimeout<T>(
   promise: Promise<T>,
@@ -403,16 +410,29 @@ export async function hasSession(sessionName: string): Promise<boolean> {
   return exitCode === 0;
 }
 
-/** Launch an agent in a new tmux session with a prompt */
+/**
+ * Launch an agent in a new tmux session with a prompt.
+ * The session name is exported as $AWM_SESSION so hooks can be correlated back to it.
+ * With exitCodeFile, the agent's exit code is written there when it exits.
+ * Prompts too long for a tmux command are written to a temp file the shell reads (and removes) at launch.
+ */
 export async function launchAgentSession(
-  agent: AgentType,
+  config: AgentConfig,
   prompt: string,
   sessionName: string,
   cwd: string,
-  extraFlags: string[] = []
+  extraFlags: string[] = [],
+  env: Record<string, string> = {},
+  exitCodeFile?: string
 ): Promise<void> {
-  const config = AGENT_CONFIGS[agent];
-  const escapedPrompt = escapeShellArg(prompt);
+  let promptArg = `'${escapeShellArg(prompt)}'`;
+  let promptFile: string | undefined;
+  if (Buffer.byteLength(prompt) > MAX_INLINE_PROMPT_BYTES) {
+    promptFile = join(tmpdir(), `awm-prompt-${sessionName}-${Date.now()}.txt`);
+    await writeFile(promptFile, prompt, { mode: 0o600 });
+    const quotedFile = `'${escapeShellArg(promptFile)}'`;
+    promptArg = `"$(cat ${quotedFile}; rm -f ${quotedFile})"`;
+  }
 
   // Build command: command [defaultFlags] [extraFlags] [promptFlag] 'prompt'
   const parts = [config.command];
@@ -429,16 +449,28 @@ export async function launchAgentSession(
     parts.push(config.promptFlag);
   }
 
-  parts.push(`'${escapedPrompt}'`);
+  parts.push(promptArg);
 
-  const fullCmd = parts.join(" ");
+  let fullCmd = parts.join(" ");
+  if (exitCodeFile) {
+    fullCmd += `; echo $? > '${escapeShellArg(exitCodeFile)}'`;
+  }
+
+  const envArgs: string[] = [];
+  for (const [key, value] of Object.entries({ [SESSION_ENV_VAR]: sessionName, ...env })) {
+    envArgs.push("-e", `${key}=${value}`);
+  }
 
   const proc = Bun.spawn(
-    ["tmux", "new-session", "-d", "-s", sessionName, "-c", cwd, fullCmd],
+    ["tmux", "new-session", "-d", "-s", sessionName, "-c", cwd, ...envArgs, fullCmd],
     { stdout: "pipe", stderr: "pipe" }
   );
 
   const exitCode = await withTimeout(proc.exited, COMMAND_TIMEOUT_MS);
+  if (exitCode !== 0 && promptFile) {
+    await rm(promptFile, { force: true });
+  }
+
   if (exitCode === undefined) {
     proc.kill();
     throw new Error(`tmux session creation timed out after ${COMMAND_TIMEOUT_MS}ms`);
@@ -479,13 +511,6 @@ export async function capturePanesMultiline(
   return new Map(results);
 }
 
-/** Known agent binary names for detection */
-const KNOWN_AGENTS: Record<string, AgentType> = {
-  claude: "claude",
-  codex: "codex",
-  gemini: "gemini",
-};
-
 /** Get all descendant PIDs of a process using in-memory tree */
 function getDescendantsFromTree(pid: number, childrenMap: Map<number, number[]>): number[] {
   const children = childrenMap.get(pid) || [];
@@ -635,7 +660,10 @@ export type DetectedAgent = {
 };
 
 /** Detect agents for multiple PIDs efficiently with a single ps call */
-export async function detectAgentsBatch(pids: number[]): Promise<Map<number, DetectedAgent>> {
+export async function detectAgentsBatch(
+  pids: number[],
+  registry: AgentRegistry = BUILTIN_AGENTS
+): Promise<Map<number, DetectedAgent>> {
   if (pids.length === 0) return new Map();
 
   try {
@@ -686,7 +714,7 @@ export async function detectAgentsBatch(pids: number[]): Promise<Map<number, Det
       }
     }
 
-    // Check each requested PID and its descendants for known agents
+    // Check each requested PID and its descendants for registered agents
     const result = new Map<number, DetectedAgent>();
     const pidSet = new Set(pids);
 
@@ -698,25 +726,12 @@ export async function detectAgentsBatch(pids: number[]): Promise<Map<number, Det
         const info = processInfo.get(checkPid);
         if (!info) continue;
 
-        const commLower = info.comm.toLowerCase();
-
-        // Check if this is a known agent binary
-        if (KNOWN_AGENTS[commLower]) {
-          result.set(pid, { agent: KNOWN_AGENTS[commLower], command: info.args });
+        // Binary name, or args for interpreted agents (e.g., "node /path/to/claude")
+        const agent = matchAgentProcess(info.comm, info.args, registry);
+        if (agent) {
+          result.set(pid, { agent, command: info.args });
           break;
         }
-
-        // Check args for agent names (e.g., "node /path/to/claude")
-        const argsLower = info.args.toLowerCase();
-        let found = false;
-        for (const [name, agent] of Object.entries(KNOWN_AGENTS)) {
-          if (argsLower.includes(`/${name}`) || argsLower.includes(` ${name} `)) {
-            result.set(pid, { agent, command: info.args });
-            found = true;
-            break;
-          }
-        }
-        if (found) break;
       }
     }
 
@@ -727,7 +742,10 @@ export async function detectAgentsBatch(pids: number[]): Promise<Map<number, Det
 }
 
 /** Detect agent type from a pane's process tree (uses batch internally) */
-export async function detectAgentFromPid(pid: number): Promise<DetectedAgent | undefined> {
-  const batch = await detectAgentsBatch([pid]);
+export async function detectAgentFromPid(
+  pid: number,
+  registry: AgentRegistry = BUILTIN_AGENTS
+): Promise<DetectedAgent | undefined> {
+  const batch = await detectAgentsBatch([pid], registry);
   return batch.get(pid);
 }
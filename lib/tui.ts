@@ -0,0 +1,66 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export const ANSI = {
+  clear: "\x1b[2J\x1b[H",
+  bold: "\x1b[1m",
+  dim: "\x1b[2m",
+  inverse: "\x1b[7m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  blue: "\x1b[34m",
+  cyan: "\x1b[36m",
+  red: "\x1b[31m",
+  magenta: "\x1b[35m",
+  reset: "\x1b[0m",
+  hideCursor: "\x1b[?25l",
+  showCursor: "\x1b[?25h",
+};
+
+export function setupRawMode(): void {
+  if (process.stdin.isTTY) {
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.setEncoding("utf8");
+  }
+}
+
+export function cleanupRawMode(): void {
+  if (process.stdin.isTTY) {
+    process.stdin.setRawMode(false);
+  }
+  process.stdout.write(ANSI.showCursor);
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, "");
+}
+
+/**
+ * Edit text in $VISUAL / $EDITOR (vi if neither is set), handing the terminal over
+ * while it runs. Returns the saved text, or undefined if the editor failed.
+ */
+export async function editInEditor(text: string, suffix = ".txt"): Promise<string | undefined> {
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  const dir = mkdtempSync(join(tmpdir(), "awm-edit-"));
+  const file = join(dir, `edit${suffix}`);
+  writeFileSync(file, text, "utf8");
+
+  cleanupRawMode();
+  process.stdin.pause();
+  try {
+    // The editor setting may carry its own arguments (e.g. "code --wait")
+    const proc = Bun.spawn(["sh", "-c", `${editor} "$1"`, "sh", file], {
+      stdin: "inherit",
+      stdout: "inherit",
+      stderr: "inherit",
+    });
+    if (await proc.exited !== 0) return undefined;
+    return readFileSync(file, "utf8");
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+    setupRawMode();
+    process.stdout.write(ANSI.hideCursor);
+  }
+}
@@ -1,4 +1,5 @@
-export type AgentType = "claude" | "codex" | "gemini";
+// Name of an agent in the registry: built-in (claude, codex, gemini) or from config.json
+export type AgentType = string;
 
 export type LaunchedSession = {
   id: string;
@@ -7,14 +8,47 @@ export type LaunchedSession = {
   prompt: string;
   cwd: string;
   startedAt: string;
+  worktree?: WorktreeInfo;
 };
 
+// When orchestrate --wait treats a task as finished
+export type CompletionMode = "exit" | "stop" | "done" | "marker" | "any";
+
 export type SubTask = {
   id: string;
   description: string;
   agent: AgentType;
   prompt: string;
   dependencies?: string[];
+  completion?: CompletionMode;  // default: orchestrate --completion
+  markerFile?: string;          // marker path relative to the task cwd (default: <data-dir>/markers/<session>.done)
+  artifacts?: Record<string, string>;  // artifact name -> file path relative to the task cwd
+  cwd?: string;                 // working directory (relative to orchestrate --cwd)
+  flags?: string[];             // extra agent flags, after the --<agent>-flags ones
+  env?: Record<string, string>; // extra environment variables for the session
+  timeoutSeconds?: number;      // with --wait, fail the task and kill its session after this long
+  tag?: string;                 // session tag (default: orchestrate --tag)
+  onFailure?: FailurePolicy;    // overrides the plan's onFailure field by field
+};
+
+// What a failed task does after its retries: skip its dependents, let them run anyway, or stop the run
+export type FailureAction = "skip" | "continue" | "abort";
+
+// How orchestrate handles a failed task (launch error, non-zero exit, timeout, tool failure streak)
+export type FailurePolicy = {
+  retries?: number;          // relaunch up to N times before giving up (default: 0)
+  retryAgent?: AgentType;    // agent for the retries (default: the task's own)
+  then?: FailureAction;      // default: skip
+  maxToolFailures?: number;  // this many PostToolUseFailure hooks in a row fail the task (default: off)
+};
+
+// Outputs captured from a finished task for {{task_id.*}} templates in dependent prompts
+export type TaskOutputs = {
+  capturedAt: string;
+  summary?: string;     // {{id.summary}}: the agent's final message
+  diff?: string;        // {{id.diff}}: git diff of the task's changes
+  lastOutput?: string;  // {{id.last_output}}: last lines of pane output
+  artifacts?: Record<string, string>;  // {{id.artifacts.NAME}}: artifact file contents
 };
 
 export type OrchestrationPlan = {
@@ -22,7 +56,61 @@ export type OrchestrationPlan = {
   originalPrompt: string;
   decomposedAt: string;
   tasks: SubTask[];
-  orchestratorAgent: AgentType;
+  orchestratorAgent: AgentType;  // agent name, or "cmd:..." for a local command
+  onFailure?: FailurePolicy;     // default for every task
+};
+
+export type TaskRunStatus = "pending" | "queued" | "running" | "completed" | "failed" | "skipped";
+
+export type TaskRunState = {
+  status: TaskRunStatus;
+  sessionName?: string;         // reserved when queued, set on launch
+  completion?: CompletionMode;  // criterion the task was launched with
+  markerPath?: string;
+  launchedAt?: string;
+  completedAt?: string;         // completed, failed or skipped
+  signal?: string;              // what completed the task (e.g. "stop-hook")
+  error?: string;               // why the task failed or was skipped
+  outputs?: TaskOutputs;        // captured on completion when dependents reference them
+  attempt?: number;             // current attempt, from 1 (set once a task is retried)
+  agent?: AgentType;            // agent of the current attempt, when a retry switched agents
+  failures?: string[];          // errors of earlier attempts
+  ignoreFailure?: boolean;      // failed with onFailure "continue": dependents run anyway
+};
+
+// Settings an orchestration run was started with, reused by --resume
+export type OrchestrationRunOptions = {
+  cwd: string;
+  prefix: string;
+  tag?: string;
+  worktree: boolean;
+  completion: CompletionMode;
+  agentFlags: Record<AgentType, string[]>;
+  maxParallel?: number;  // running task limit (--max-parallel)
+  review?: string;       // reviewer once every task finished (--review): agent name or "cmd:..."
+};
+
+// State of an orchestration run, stored in <data-dir>/runs/<plan id>.json
+export type OrchestrationRun = {
+  planId: string;
+  plan: OrchestrationPlan;
+  options: OrchestrationRunOptions;
+  startedAt: string;
+  updatedAt: string;
+  tasks: Record<string, TaskRunState>;  // task id -> state
+  abortedBy?: string;   // task whose failure stopped the run (onFailure "abort")
+  review?: ReviewVerdict;  // set once the reviewer has answered
+};
+
+// A reviewer's judgement of the sessions from one plan or launch
+export type ReviewVerdict = {
+  reviewer: string;       // agent name, or "cmd:..."
+  reviewedAt: string;
+  reviewed: string[];     // task ids (orchestrate) or session names (launch) the reviewer saw
+  winner?: string;        // best of competing attempts at the same task
+  conflicts?: string[];   // changes that clash with each other
+  mergeOrder?: string[];  // order to merge the branches in
+  summary: string;        // the reviewer's reasoning, or its raw answer if that was not JSON
 };
 
 export type TmuxPaneInfo = {
@@ -56,11 +144,22 @@ export type TmuxSessionInfo = {
   windowList: TmuxWindowInfo[];
 };
 
+export type PermissionDecision = "allow" | "deny" | "ask";
+
+export type HookDecision = {
+  decision: PermissionDecision;
+  reason?: string;
+  rule?: string;  // name of the policy rule that matched
+  source: "policy" | "user" | "timeout";
+};
+
 export type HookEntry = {
   id: string;
   timestamp: string;
   event: string;
   payload: Record<string, unknown>;
+  decision?: HookDecision;  // set when the hooks server answered with a decision
+  sessionName?: string;     // tmux session the hook was correlated to
 };
 
 export type SessionMetaEntry = {
@@ -71,11 +170,25 @@ export type SessionMetaEntry = {
   promptPreview?: string;
   cwd?: string;
   tag?: string;
+  launchId?: string;  // shared by every session from one launch.ts run
   planId?: string;
   taskId?: string;
-  status?: "running" | "done";
+  status?: "queued" | "running" | "done";
+  queuePid?: number;  // process that will launch a queued session
+  slotReleasedAt?: string;  // when a completed task stopped holding a --max-parallel slot (agent may stay open)
   renamedFrom?: string;
-  source?: "launch" | "orchestrate" | "watch";
+  agentSessionId?: string;  // agent's own session_id (from hook payloads)
+  transcriptPath?: string;
+  worktree?: WorktreeInfo;  // set when launched with --worktree
+  source?: "launch" | "orchestrate" | "watch" | "review" | "merge";
+  review?: ReviewVerdict;   // on "review" entries: the verdict for this planId/launchId/tag
+};
+
+export type WorktreeInfo = {
+  path: string;      // worktree directory
+  branch: string;    // branch created for the session
+  baseRef: string;   // commit the branch started from
+  repoRoot: string;  // main checkout the worktree belongs to
 };
 
 export type ProcessStats = {
@@ -92,6 +205,7 @@ export type ProcessTreeStats = ProcessStats & {
 export type PaneActivityState = {
   contentHash: string;
   lastContentChange: number;  // timestamp
+  level?: ActivityLevel;  // last assessed level, for transition events
 };
 
 export type ActivityLevel = "active" | "working" | "waiting" | "idle";
@@ -100,21 +214,25 @@ export type AgentConfig = {
   command: string;
   defaultFlags?: string[];
   promptFlag?: string; // If agent needs a flag before prompt (e.g., "-p")
+  processNames?: string[];  // process names that identify the agent (default: command basename)
+  hookAdapter?: string | HookAdapter;  // built-in adapter name or inline mapping
+  description?: string;  // what the agent is good at, shown to the orchestrator
+  printFlags?: string[];  // flags before the prompt for a one-shot answer on stdout (orchestrate --orchestrator)
+};
+
+// How an agent's hooks map onto Claude Code hook events
+export type HookAdapter = {
+  events?: Record<string, string>;  // agent event name -> Claude Code event name
+  sessionIdField?: string;  // payload field holding the agent's session id
 };
 
-export const AGENT_CONFIGS: Record<AgentType, AgentConfig> = {
-  claude: {
-    command: "claude",
-    defaultFlags: [],
-  },
-  codex: {
-    command: "codex",
-    defaultFlags: [],
-  },
-  gemini: {
-    command: "gemini",
-    defaultFlags: [], // Could add "--yolo" here for auto-approval
-  },
+// Rotation and retention for an append-only JSONL log (config.json "logs")
+export type LogRotationPolicy = {
+  maxSizeMB?: number;     // rotate once the active file reaches this size
+  maxAgeDays?: number;    // rotate once the active file's first entry is this old
+  compress?: boolean;     // gzip rotated segments
+  keepSegments?: number;  // delete the oldest segments beyond this many
+  keepDays?: number;      // delete segments rotated more than this many days ago
 };
 
 export const DEFAULT_SESSION_PREFIX = "awm";
@@ -0,0 +1,168 @@
+import { existsSync } from "fs";
+import { mkdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join, relative, resolve } from "path";
+import { expandHome } from "./jsonl";
+import type { WorktreeInfo } from "./types";
+
+/** Prefix for branches created for per-session worktrees */
+export const WORKTREE_BRANCH_PREFIX = "awm/";
+
+// Timeout for git commands (worktree add checks out a full tree)
+const GIT_TIMEOUT_MS = 60000;
+
+export function getWorktreesDir(dataDir: string): string {
+  const normalized = dataDir.endsWith("/") ? dataDir.slice(0, -1) : dataDir;
+  return `${normalized}/worktrees`;
+}
+
+export function worktreeBranchName(sessionName: string): string {
+  return `${WORKTREE_BRANCH_PREFIX}${sessionName}`;
+}
+
+/** A completed task's worktree that a dependent task's worktree starts from */
+export type WorktreeDependency = {
+  taskId: string;
+  worktree: WorktreeInfo;
+};
+
+/** Run git in a directory, returning trimmed stdout or throwing with git's stderr */
+export async function runGit(args: string[], cwd: string, env?: Record<string, string>): Promise<string> {
+  const proc = Bun.spawn(["git", ...args], {
+    cwd,
+    ...(env ? { env: { ...process.env, ...env } } : {}),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const timer = setTimeout(() => proc.kill(), GIT_TIMEOUT_MS);
+
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  clearTimeout(timer);
+
+  if (exitCode !== 0) {
+    throw new Error(`git ${args[0]} failed: ${stderr.trim() || `exit code ${exitCode}`}`);
+  }
+  return stdout.trim();
+}
+
+/** True if the repo has a local branch of that name */
+export async function branchExists(branch: string, repoRoot: string): Promise<boolean> {
+  return runGit(["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`], repoRoot).then(() => true, () => false);
+}
+
+/**
+ * Commit holding a worktree's current files, untracked ones included, built in a temporary
+ * index so the worktree's branch, index and files are left alone. Without uncommitted
+ * changes (or once the worktree is removed) this is the tip of its branch.
+ */
+export async function snapshotWorktree(worktree: WorktreeInfo, message: string): Promise<string> {
+  if (!(await worktreeHasChanges(worktree))) {
+    return runGit(["rev-parse", "--verify", `${worktree.branch}^{commit}`], worktree.repoRoot);
+  }
+  const env = { GIT_INDEX_FILE: join(tmpdir(), `awm-index-${process.pid}-${Date.now()}`) };
+  try {
+    await runGit(["read-tree", "HEAD"], worktree.path, env);
+    await runGit(["add", "-A"], worktree.path, env);
+    const tree = await runGit(["write-tree"], worktree.path, env);
+    return await runGit(["commit-tree", tree, "-p", "HEAD", "-m", message], worktree.path);
+  } finally {
+    await rm(env.GIT_INDEX_FILE, { force: true });
+  }
+}
+
+/**
+ * Create a worktree and branch for a session, based on the current HEAD of the repo containing cwd.
+ * A task with dependencies starts from their work instead: a snapshot of the first dependency's
+ * worktree, with the others' snapshots merged in. Dependencies in another repository or whose
+ * branch is gone are left out; throws if the dependencies' changes conflict.
+ * Returns the worktree details plus the directory inside it that corresponds to cwd.
+ */
+export async function createWorktree(
+  cwd: string,
+  sessionName: string,
+  dataDir: string,
+  dependencies: WorktreeDependency[] = []
+): Promise<{ worktree: WorktreeInfo; cwd: string }> {
+  const expandedCwd = resolve(expandHome(cwd));
+  const repoRoot = await runGit(["rev-parse", "--show-toplevel"], expandedCwd).catch(() => {
+    throw new Error(`--worktree requires a git repository: ${cwd}`);
+  });
+  const head = await runGit(["rev-parse", "--verify", "HEAD^{commit}"], repoRoot);
+
+  const bases: Array<{ taskId: string; commit: string }> = [];
+  for (const { taskId, worktree } of dependencies) {
+    if (worktree.repoRoot !== repoRoot || !(await branchExists(worktree.branch, repoRoot))) continue;
+    bases.push({ taskId, commit: await snapshotWorktree(worktree, `${taskId}: uncommitted changes`) });
+  }
+
+  const worktreesDir = getWorktreesDir(expandHome(dataDir));
+  await mkdir(worktreesDir, { recursive: true });
+
+  const path = join(worktreesDir, sessionName);
+  const branch = worktreeBranchName(sessionName);
+  const [first, ...others] = bases;
+  await runGit(["worktree", "add", "-b", branch, path, first?.commit ?? head], repoRoot);
+
+  for (const other of others) {
+    try {
+      await runGit(["merge", "-q", "--no-ff", "-m", `Merge dependency ${other.taskId}`, other.commit], path);
+    } catch (err) {
+      await removeWorktree({ path, branch, baseRef: head, repoRoot }, { deleteBranch: true, force: true }).catch(() => {});
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`Dependencies ${first.taskId} and ${other.taskId} have conflicting changes: ${msg}`);
+    }
+  }
+  const base = bases.length > 0 ? await runGit(["rev-parse", "HEAD"], path) : head;
+
+  // The subdirectory may hold no tracked files, in which case the checkout lacks it
+  const worktreeCwd = join(path, relative(repoRoot, expandedCwd));
+  await mkdir(worktreeCwd, { recursive: true });
+
+  return {
+    worktree: { path, branch, baseRef: base, repoRoot },
+    cwd: worktreeCwd,
+  };
+}
+
+/** True if the worktree has uncommitted or untracked changes */
+export async function worktreeHasChanges(worktree: WorktreeInfo): Promise<boolean> {
+  if (!existsSync(worktree.path)) return false;
+  const status = await runGit(["status", "--porcelain"], worktree.path);
+  return status.length > 0;
+}
+
+/**
+ * Remove a session's worktree. The branch is kept (it holds the agent's commits)
+ * unless deleteBranch is set. Returns what was removed.
+ */
+export async function removeWorktree(
+  worktree: WorktreeInfo,
+  options: { deleteBranch?: boolean; force?: boolean } = {}
+): Promise<{ removedPath: boolean; deletedBranch: boolean }> {
+  let removedPath = false;
+  if (existsSync(worktree.path)) {
+    const args = ["worktree", "remove", worktree.path];
+    if (options.force) args.push("--force");
+    await runGit(args, worktree.repoRoot);
+    removedPath = true;
+  } else {
+    // Directory already gone - drop git's stale record of it
+    await runGit(["worktree", "prune"], worktree.repoRoot);
+  }
+
+  let deletedBranch = false;
+  if (options.deleteBranch) {
+    const exists = await runGit(["rev-parse", "--verify", "--quiet", `refs/heads/${worktree.branch}`], worktree.repoRoot)
+      .then(() => true, () => false);
+    if (exists) {
+      await runGit(["branch", "-D", worktree.branch], worktree.repoRoot);
+      deletedBranch = true;
+    }
+  }
+
+  return { removedPath, deletedBranch };
+}
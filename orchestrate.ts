@@ -1,87 +1,87 @@
 import { parseArgs } from "util";
 import { createId, createSessionName } from "./lib/ids";
-import { launchAgentSession, hasSession } from "./lib/tmux";
-import { appendSessionMeta, makePromptPreview, normalizeTag } from "./lib/sessions";
-import { expandHome } from "./lib/jsonl";
+import { launchAgentSession, hasSession, killSession } from "./lib/tmux";
+import { appendSessionMeta, makePromptPreview, normalizeTag, readSessionMeta, releaseSessionSlot } from "./lib/sessions";
+import { expandHome, warnQuarantined } from "./lib/jsonl";
+import { readHooks } from "./lib/storage";
+import { resolveSessionName } from "./lib/correlate";
+import { captureTaskOutputs, renderTaskPrompt, requiredOutputs } from "./lib/outputs";
+import { createWorktree, removeWorktree, type WorktreeDependency } from "./lib/worktree";
+import { latestTaskWorktrees } from "./lib/merge";
+import {
+  loadAgentRegistry,
+  parseAgentFlagOptions,
+  resolveAgentName,
+  type AgentRegistry,
+} from "./lib/agents";
+import {
+  computeWaves,
+  findCriticalPath,
+  getDefaultPlanFile,
+  loadPlanFromFile,
+  savePlanToFile,
+  validatePlan,
+} from "./lib/plan";
+import {
+  DEFAULT_ORCHESTRATOR,
+  decomposeTask,
+  orchestratorName,
+  parseOrchestratorSpec,
+  type OrchestratorSpec,
+} from "./lib/decompose";
+import { runPlanEditor } from "./lib/plan-editor";
+import { GRAPH_FORMATS, parseGraphFormat, renderPlanGraph, type GraphFormat } from "./lib/graph";
+import { instantiateTemplate, loadTemplate, parseSetOptions, type PlanTemplate } from "./lib/templates";
+import { collectReviewCandidates, formatReview, recordReview, reviewSessions, type ReviewCandidate } from "./lib/review";
+import {
+  COMPLETION_MODES,
+  DEFAULT_COMPLETION_MODE,
+  checkCompletion,
+  createCompletionWaker,
+  describeSignal,
+  getMarkerPath,
+  markerInstruction,
+  needsHooks,
+  parseCompletionMode,
+  type CompletionTarget,
+} from "./lib/completion";
+import {
+  createRun,
+  createRunSaver,
+  formatRunSummary,
+  getRunFile,
+  getRunsDir,
+  loadRun,
+  readyTasks,
+  taskCompletionTarget,
+  timedOutTasks,
+  updateTaskState,
+  waitReason,
+} from "./lib/runs";
+import { countFreeSlots, parseMaxParallel, recordQueuedSession } from "./lib/queue";
+import {
+  describeFailurePolicy,
+  detectFailure,
+  getExitCodeFile,
+  parseFailureOptions,
+  resolveFailurePolicy,
+} from "./lib/failure";
 import {
   type AgentType,
+  type CompletionMode,
+  type FailurePolicy,
+  type HookEntry,
+  type SessionMetaEntry,
   type SubTask,
   type OrchestrationPlan,
+  type OrchestrationRun,
   DEFAULT_DATA_DIR,
+  DEFAULT_HOOKS_PORT,
   DEFAULT_SESSION_PREFIX,
 } from "./lib/types";
-import { dirname } from "path";
-import { mkdir } from "fs/promises";
-import { readFileSync } from "fs";
-
-const DECOMPOSITION_PROMPT = `You are a task decomposer. Given a complex task, break it down into independent sub-tasks that can be worked on in parallel by different coding agents.
-
-For each sub-task, specify:
-1. A short description (2-5 words)
-2. The recommended agent: "claude", "codex", or "gemini"
-3. The detailed prompt to give that agent
-4. Dependencies (IDs of tasks that must complete first, or empty array for independent tasks)
-
-Output ONLY a JSON array, no other text:
-[
-  {
-    "description": "Short task name",
-    "agent": "claude",
-    "prompt": "Detailed instructions for the agent...",
-    "dependencies": []
-  }
-]
-
-Guidelines:
-- Prefer "claude" for complex reasoning, refactoring, debugging
-- Prefer "codex" for straightforward code generation, tests
-- Prefer "gemini" for research, documentation, exploration
-- Make tasks as independent as possible to maximize parallelism
-- Each task should be completable in a single agent session
-
-Task to decompose:
-`;
-
-async function decomposeWithClaude(prompt: string): Promise<SubTask[]> {
-  const fullPrompt = DECOMPOSITION_PROMPT + prompt;
-
-  console.log("Asking Claude to decompose the task...\n");
-
-  const proc = Bun.spawn(["claude", "-p", fullPrompt], {
-    stdout: "pipe",
-    stderr: "pipe",
-  });
-
-  const output = await new Response(proc.stdout).text();
-  const exitCode = await proc.exited;
-
-  if (exitCode !== 0) {
-    const stderr = await new Response(proc.stderr).text();
-    throw new Error(`Claude exited with code ${exitCode}: ${stderr}`);
-  }
-
-  // Extract JSON from response
-  const jsonMatch = output.match(/\[[\s\S]*\]/);
-  if (!jsonMatch) {
-    console.error("Claude output:", output);
-    throw new Error("Could not find JSON array in Claude response");
-  }
-
-  const tasks = JSON.parse(jsonMatch[0]) as Array<{
-    description: string;
-    agent: AgentType;
-    prompt: string;
-    dependencies?: string[];
-  }>;
-
-  return tasks.map((task, i) => ({
-    id: `task_${i + 1}`,
-    description: task.description,
-    agent: task.agent,
-    prompt: task.prompt,
-    dependencies: task.dependencies ?? [],
-  }));
-}
+import { mkdir, rm } from "fs/promises";
+import { existsSync, readFileSync } from "fs";
+import { dirname, resolve } from "path";
 
 type AgentFlags = Partial<Record<AgentType, string[]>>;
 
@@ -97,109 +97,545 @@ async function readPromptInput(promptFile: string): Promise<string> {
   return Bun.file(expandHome(promptFile)).text();
 }
 
-function normalizeAgent(agent: string | undefined, index: number): AgentType {
-  const normalized = (agent ?? "").toLowerCase();
-  if (normalized === "claude" || normalized === "codex" || normalized === "gemini") {
-    return normalized;
+async function launchSubTask(
+  task: SubTask,
+  cwd: string,
+  prefix: string,
+  agentFlags: AgentFlags = {},
+  dataDir: string,
+  tag: string | undefined,
+  planId: string,
+  registry: AgentRegistry,
+  useWorktree = false,
+  defaultCompletion: CompletionMode = DEFAULT_COMPLETION_MODE,
+  reservedName?: string,
+  dependencies: WorktreeDependency[] = []
+): Promise<CompletionTarget> {
+  // Queued tasks launch under the name reserved for them
+  const sessionName = reservedName ?? createSessionName(prefix, `${task.agent}-${task.id}`);
+
+  // A task can run in another directory or repo than the rest of the plan
+  const baseCwd = task.cwd ? resolve(expandHome(cwd), expandHome(task.cwd)) : cwd;
+  if (task.cwd && !existsSync(baseCwd)) {
+    throw new Error(`cwd does not exist: ${baseCwd}`);
   }
-  throw new Error(`Task ${index + 1} has invalid agent: ${agent}`);
-}
 
-function normalizeTasks(rawTasks: Array<Partial<SubTask> & { agent?: string }>): SubTask[] {
-  return rawTasks.map((task, i) => {
-    if (!task.prompt) {
-      throw new Error(`Task ${i + 1} is missing a prompt`);
-    }
-    return {
-      id: task.id ?? `task_${i + 1}`,
-      description: task.description ?? `task_${i + 1}`,
-      agent: normalizeAgent(task.agent, i),
-      prompt: task.prompt,
-      dependencies: task.dependencies ?? [],
-    };
-  });
-}
+  // Each task gets its own branch so parallel tasks don't edit the same checkout,
+  // starting from its dependencies' work
+  const prepared = useWorktree ? await createWorktree(baseCwd, sessionName, dataDir, dependencies) : undefined;
+  const taskCwd = prepared?.cwd ?? baseCwd;
 
-function validatePlanDependencies(tasks: SubTask[]): string[] {
-  const ids = new Set(tasks.map((task) => task.id));
-  const errors: string[] = [];
+  const mode = task.completion ?? defaultCompletion;
+  const markerPath = getMarkerPath(dataDir, sessionName, taskCwd, task.markerFile);
+  if (mode === "marker") {
+    // A marker left by an earlier run would complete the task immediately
+    await rm(markerPath, { force: true });
+    await mkdir(dirname(markerPath), { recursive: true });
+  }
+  const prompt = mode === "marker" ? task.prompt + markerInstruction(markerPath) : task.prompt;
+  const launchedAt = new Date().toISOString();
+  // The agent's exit code is how a non-zero exit fails the task
+  const exitCodeFile = expandHome(getExitCodeFile(dataDir, sessionName));
 
-  for (const task of tasks) {
-    for (const dep of task.dependencies ?? []) {
-      if (!ids.has(dep)) {
-        errors.push(`[${task.id}] unknown dependency "${dep}"`);
-      }
+  try {
+    await mkdir(dirname(exitCodeFile), { recursive: true });
+    const flags = [...(agentFlags[task.agent] || []), ...(task.flags ?? [])];
+    await launchAgentSession(registry[task.agent], prompt, sessionName, taskCwd, flags, task.env, exitCodeFile);
+  } catch (err) {
+    if (prepared) {
+      await removeWorktree(prepared.worktree, { deleteBranch: true, force: true }).catch(() => {});
     }
+    throw err;
   }
 
-  return errors;
+  try {
+    const { quarantined } = await appendSessionMeta(dataDir, {
+      sessionName,
+      agent: task.agent,
+      promptPreview: makePromptPreview(task.prompt),
+      cwd: taskCwd,
+      tag: task.tag ?? tag,
+      planId,
+      taskId: task.id,
+      worktree: prepared?.worktree,
+      source: "orchestrate",
+    });
+    warnQuarantined(quarantined);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`Warning: failed to write session metadata: ${msg}`);
+  }
+  return { sessionName, mode, launchedAt, markerPath };
 }
 
-async function loadPlanFromFile(
-  filePath: string,
-  fallbackPrompt: string
-): Promise<OrchestrationPlan> {
-  const contents = await Bun.file(expandHome(filePath)).text();
-  const parsed = JSON.parse(contents) as Partial<OrchestrationPlan> | Array<Partial<SubTask>>;
+const POLL_INTERVAL_MS = 5000;
 
-  if (Array.isArray(parsed)) {
-    const tasks = normalizeTasks(parsed);
-    return {
-      id: createId("plan"),
-      originalPrompt: fallbackPrompt || "plan-file",
-      decomposedAt: new Date().toISOString(),
-      tasks,
-      orchestratorAgent: "claude",
-    };
+type RunContext = {
+  dataDir: string;
+  registry: AgentRegistry;
+  hooksPort: number;
+  waitForDeps: boolean;
+  resuming: boolean;
+};
+
+/** Show where a stored run stands, then continue scheduling it (settings come from the run, not the command line) */
+async function resumeRun(run: OrchestrationRun, ctx: RunContext): Promise<void> {
+  const unknownAgents = run.plan.tasks
+    .map((task) => ({ id: task.id, state: run.tasks[task.id], agent: run.tasks[task.id]?.agent ?? task.agent }))
+    .filter(({ state, agent }) => ["pending", "queued"].includes(state?.status) && !resolveAgentName(agent, ctx.registry))
+    .map(({ id, agent }) => `${id} (${agent})`);
+  if (unknownAgents.length > 0) {
+    console.error(`Error: Pending tasks use unknown agents: ${unknownAgents.join(", ")}`);
+    process.exit(1);
   }
 
-  const tasks = normalizeTasks(parsed.tasks ?? []);
-  return {
-    id: parsed.id ?? createId("plan"),
-    originalPrompt: parsed.originalPrompt ?? fallbackPrompt || "plan-file",
-    decomposedAt: parsed.decomposedAt ?? new Date().toISOString(),
-    tasks,
-    orchestratorAgent: parsed.orchestratorAgent ?? "claude",
-  };
+  console.log("═".repeat(60));
+  console.log("agentwatch-minimal orchestrator");
+  console.log("═".repeat(60));
+  console.log();
+  console.log(`Resuming: ${run.planId} (started ${run.startedAt})`);
+  console.log(`Task: "${run.plan.originalPrompt}"`);
+  console.log(`CWD: ${run.options.cwd}`);
+  console.log();
+
+  console.log("─".repeat(60));
+  console.log("Task status:");
+  console.log("─".repeat(60));
+  const metaEntries = await readSessionMeta(ctx.dataDir);
+  for (const task of run.plan.tasks) {
+    const state = run.tasks[task.id] ?? { status: "pending" };
+    let detail = state.sessionName ?? "";
+    if (state.status === "running" && state.sessionName) {
+      const current = resolveSessionName(state.sessionName, metaEntries);
+      detail = (await hasSession(current)) ? `${current} (reattached)` : `${current} (session gone)`;
+    } else if (state.error) {
+      detail = state.error;
+    }
+    console.log(`  [${task.id}] ${state.status.padEnd(9)} ${detail}`.trimEnd());
+  }
+  console.log();
+
+  await runPlan(run, ctx);
 }
 
-async function savePlanToFile(plan: OrchestrationPlan, filePath: string): Promise<void> {
-  const expanded = expandHome(filePath);
-  await mkdir(dirname(expanded), { recursive: true });
-  await Bun.write(expanded, JSON.stringify(plan, null, 2));
+function resumeCommand(planId: string, dataDir: string): string {
+  const dataDirArg = dataDir === DEFAULT_DATA_DIR ? "" : ` --data-dir ${dataDir}`;
+  return `bun run orchestrate.ts --resume ${planId}${dataDirArg}`;
 }
 
-async function launchSubTask(
-  task: SubTask,
-  cwd: string,
-  prefix: string,
-  agentFlags: AgentFlags = {},
-  dataDir: string,
-  tag: string | undefined,
-  planId: string
-): Promise<string> {
-  const sessionName = createSessionName(prefix, `${task.agent}-${task.id}`);
-  await launchAgentSession(task.agent, task.prompt, sessionName, cwd, agentFlags[task.agent] || []);
-  try {
-    await appendSessionMeta(dataDir, {
+/**
+ * Launch the run's ready tasks and, with waitForDeps, launch the rest as their
+ * dependencies complete. Failed tasks follow their onFailure policy. Every task
+ * status change is saved to the run state file.
+ */
+async function runPlan(run: OrchestrationRun, ctx: RunContext): Promise<void> {
+  const { plan, options } = run;
+  const { dataDir, registry } = ctx;
+  const tasksById = new Map(plan.tasks.map((task) => [task.id, task]));
+  const statusOf = (taskId: string) => run.tasks[taskId]?.status;
+  // A retry can run the task on another agent
+  const agentOf = (task: SubTask) => run.tasks[task.id]?.agent ?? task.agent;
+
+  const saveRunState = createRunSaver(dataDir, run);
+  const persist = async () => {
+    try {
+      await saveRunState();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`Warning: failed to save run state: ${msg}`);
+    }
+  };
+
+  // Track launched sessions: taskId -> session and completion criterion (including earlier launches when resuming)
+  const launched: Map<string, CompletionTarget> = new Map();
+  for (const [taskId, state] of Object.entries(run.tasks)) {
+    const target = taskCompletionTarget(state);
+    if (target) launched.set(taskId, target);
+  }
+
+  // Upstream task id -> {{task_id.*}} references dependents make to its outputs
+  const required = requiredOutputs(plan.tasks);
+
+  const captureOutputs = async (taskId: string, metaEntries: SessionMetaEntry[], hooks: HookEntry[]) => {
+    const refs = required.get(taskId);
+    const target = launched.get(taskId);
+    if (!refs || !target) return;
+    const outputs = await captureTaskOutputs(tasksById.get(taskId)!, target, refs, {
+      metaEntries,
+      hooks,
+      fallbackCwd: options.cwd,
+    });
+    updateTaskState(run, taskId, { outputs });
+  };
+
+  // Fill in {{task_id.*}} references, capturing outputs of dependencies that completed without them (e.g. before a resume)
+  const renderPrompt = async (task: SubTask): Promise<string> => {
+    const uncaptured = [...required.entries()]
+      .filter(([taskId, refs]) =>
+        statusOf(taskId) === "completed" && !run.tasks[taskId].outputs && refs.some((ref) => task.prompt.includes(ref.raw))
+      )
+      .map(([taskId]) => taskId);
+    if (uncaptured.length > 0) {
+      const metaEntries = await readSessionMeta(dataDir);
+      const hooks = await readHooks(dataDir);
+      for (const taskId of uncaptured) await captureOutputs(taskId, metaEntries, hooks);
+    }
+
+    const outputs = Object.fromEntries(Object.entries(run.tasks).map(([taskId, state]) => [taskId, state.outputs]));
+    const { prompt, missing } = renderTaskPrompt(task.prompt, tasksById.keys(), outputs);
+    if (missing.length > 0) {
+      console.warn(`  [${task.id}] nothing captured for ${missing.join(", ")}`);
+    }
+    return prompt;
+  };
+
+  // Stop launching: tasks that have not started are skipped, running sessions are left alone
+  const abortRun = (taskId: string) => {
+    run.abortedBy = taskId;
+    for (const task of plan.tasks) {
+      if (statusOf(task.id) !== "pending" && statusOf(task.id) !== "queued") continue;
+      updateTaskState(run, task.id, {
+        status: "skipped",
+        error: `run aborted (${taskId} failed)`,
+        completedAt: new Date().toISOString(),
+      });
+    }
+  };
+
+  const runningCount = () => plan.tasks.filter((task) => statusOf(task.id) === "running").length;
+  const queuedHere = new Set<string>();
+
+  // Apply the task's onFailure policy: retry it (possibly on another agent), or give up and skip its dependents, let them run, or abort the run
+  const failTask = async (taskId: string, error: string) => {
+    const task = tasksById.get(taskId)!;
+    const state = run.tasks[taskId];
+    const policy = resolveFailurePolicy(plan, task);
+    const attempt = state.attempt ?? 1;
+    const failures = [...(state.failures ?? []), `attempt ${attempt} (${agentOf(task)}): ${error}`];
+
+    if (attempt <= policy.retries) {
+      const agent = policy.retryAgent ?? agentOf(task);
+      queuedHere.delete(taskId);
+      // A fresh session name, so the retry never collides with the failed session
+      updateTaskState(run, taskId, { status: "pending", attempt: attempt + 1, agent, failures, sessionName: undefined, error: undefined });
+      console.error(`  [${taskId}] ${error} - retrying on ${agent} (attempt ${attempt + 1} of ${policy.retries + 1})`);
+    } else {
+      updateTaskState(run, taskId, {
+        status: "failed",
+        error,
+        failures: failures.length > 1 ? failures.slice(0, -1) : undefined,
+        completedAt: new Date().toISOString(),
+        ...(policy.then === "continue" ? { ignoreFailure: true } : {}),
+      });
+      console.error(`  [${taskId}] failed: ${error}${policy.then === "continue" ? " (dependents continue anyway)" : ""}`);
+      if (policy.then === "abort") {
+        abortRun(taskId);
+        console.error(`  Aborting run: ${taskId} failed`);
+      }
+    }
+    await persist();
+  };
+
+  // Worktrees of a task's completed dependencies, which its own worktree starts from
+  const dependencyWorktrees = async (task: SubTask): Promise<WorktreeDependency[]> => {
+    const completed = (task.dependencies ?? []).filter((dep) => statusOf(dep) === "completed");
+    if (!options.worktree || completed.length === 0) return [];
+    const latest = latestTaskWorktrees(plan.id, await readSessionMeta(dataDir));
+    return completed.flatMap((taskId) => {
+      const worktree = latest.get(taskId)?.worktree;
+      return worktree ? [{ taskId, worktree }] : [];
+    });
+  };
+
+  const launchTask = async (task: SubTask): Promise<CompletionTarget> => {
+    try {
+      const prompt = await renderPrompt(task);
+      const target = await launchSubTask(
+        { ...task, agent: agentOf(task), prompt }, options.cwd, options.prefix, options.agentFlags, dataDir, options.tag,
+        plan.id, registry, options.worktree, options.completion,
+        statusOf(task.id) === "queued" ? run.tasks[task.id].sessionName : undefined,
+        await dependencyWorktrees(task)
+      );
+      launched.set(task.id, target);
+      updateTaskState(run, task.id, {
+        status: "running",
+        sessionName: target.sessionName,
+        completion: target.mode,
+        markerPath: target.markerPath,
+        launchedAt: target.launchedAt,
+      });
+      return target;
+    } catch (err) {
+      await failTask(task.id, err instanceof Error ? err.message : String(err));
+      throw err;
+    } finally {
+      await persist();
+    }
+  };
+
+
+  // Reserve a session name and record the task as queued until a slot frees up
+  const queueTask = async (task: SubTask) => {
+    if (queuedHere.has(task.id)) return;
+    queuedHere.add(task.id);
+    const sessionName = run.tasks[task.id].sessionName ?? createSessionName(options.prefix, `${agentOf(task)}-${task.id}`);
+    updateTaskState(run, task.id, { status: "queued", sessionName });
+    await persist();
+    await recordQueuedSession(dataDir, {
       sessionName,
-      agent: task.agent,
+      agent: agentOf(task),
       promptPreview: makePromptPreview(task.prompt),
-      cwd,
-      tag,
-      planId,
+      tag: task.tag ?? options.tag,
+      planId: plan.id,
       taskId: task.id,
       source: "orchestrate",
+    }).then(({ quarantined }) => warnQuarantined(quarantined))
+      .catch((err) => console.error(`Warning: failed to write session metadata: ${err instanceof Error ? err.message : err}`));
+    console.log(`  [${task.id}] queued (--max-parallel ${options.maxParallel} reached)`);
+  };
+
+  // Launch ready tasks in parallel, up to the --max-parallel limit shared with other commands; the rest are queued
+  const launchReady = async (tasks: SubTask[]) => {
+    const slots = await countFreeSlots(dataDir, options.maxParallel, options.prefix);
+    const now = tasks.slice(0, slots);
+    const results = await Promise.allSettled(now.map(launchTask));
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      // Launch failures were reported by failTask
+      if (result.status === "fulfilled") {
+        console.log(`  [${now[i].id}] ${now[i].description} -> ${result.value.sessionName}`);
+      }
+    }
+    for (const task of run.abortedBy ? [] : tasks.slice(slots)) {
+      await queueTask(task);
+    }
+  };
+
+  await persist();
+
+  const ready = readyTasks(run).map((taskId) => tasksById.get(taskId)!);
+
+  if (ready.length > 0 || !ctx.resuming) {
+    const limit = options.maxParallel && ready.length > await countFreeSlots(dataDir, options.maxParallel, options.prefix)
+      ? ` (at most ${options.maxParallel} at once)`
+      : " in parallel";
+    console.log("─".repeat(60));
+    console.log(`Launching ${ready.length} ${ctx.resuming ? "ready" : "independent"} task(s)${limit}...`);
+    console.log("─".repeat(60));
+    console.log();
+  }
+
+  await launchReady(ready);
+
+  const isRetry = (taskId: string) => (run.tasks[taskId]?.attempt ?? 1) > 1;
+  const dependent = plan.tasks.filter((task) => statusOf(task.id) === "pending" && task.dependencies?.length);
+  const hasPending = () => dependent.some((task) => statusOf(task.id) === "pending");
+  // With --review, wait until every task has finished (an aborted run is not reviewed)
+  const reviewing = Boolean(options.review) && !run.review;
+  const keepWaiting = () => waitReason(run, ctx.waitForDeps) !== undefined;
+
+  if (dependent.length > 0) {
+    console.log();
+    console.log(`${dependent.length} task(s) have dependencies:`);
+    for (const task of dependent) {
+      console.log(`  [${task.id}] depends on: ${task.dependencies!.join(", ")}`);
+    }
+  }
+
+  if (keepWaiting()) {
+    console.log();
+    console.log("─".repeat(60));
+    const reason = waitReason(run, ctx.waitForDeps);
+    if (reason === "dependencies") {
+      console.log("Waiting for dependencies to complete...");
+    } else if (reason === "queued") {
+      console.log(`Waiting for free slots (--max-parallel ${options.maxParallel})...`);
+    } else if (reason === "retries") {
+      console.log("Retrying failed tasks...");
+    } else if (reviewing) {
+      console.log("Waiting for every task to finish before the review...");
+    } else {
+      console.log("Waiting for running tasks to finish...");
+    }
+    console.log(`(if interrupted, continue with: ${resumeCommand(plan.id, dataDir)})`);
+    console.log("─".repeat(60));
+
+    // Re-check as soon as the hooks server reports a Stop hook or session change
+    const waker = createCompletionWaker(ctx.hooksPort);
+
+    while (keepWaiting()) {
+      const metaEntries = await readSessionMeta(dataDir);
+
+      for (const taskId of timedOutTasks(run)) {
+        const target = launched.get(taskId);
+        if (target) await killSession(resolveSessionName(target.sessionName, metaEntries));
+        await failTask(taskId, `timed out after ${tasksById.get(taskId)!.timeoutSeconds}s`);
+      }
+
+      // Check which running tasks have failed or met their completion criterion
+      const running = [...launched].filter(([taskId]) => statusOf(taskId) === "running");
+      const wantsSummary = running.some(([taskId]) => required.get(taskId)?.some((ref) => ref.field === "summary"));
+      const watchesTools = running.some(([taskId]) => resolveFailurePolicy(plan, tasksById.get(taskId)!).maxToolFailures);
+      // Only hooks since the oldest running task launched can matter, so older rotated logs are skipped
+      const since = running.map(([, target]) => target.launchedAt).sort()[0];
+      const hooks = needsHooks(running.map(([, target]) => target)) || wantsSummary || watchesTools
+        ? await readHooks(dataDir, { since })
+        : [];
+      for (const [taskId, target] of running) {
+        if (run.abortedBy) break;
+        const failure = await detectFailure(target, resolveFailurePolicy(plan, tasksById.get(taskId)!), {
+          metaEntries,
+          hooks,
+          exitCodeFile: getExitCodeFile(dataDir, target.sessionName),
+        });
+        if (failure) {
+          // Already gone after a non-zero exit; a session stuck failing tool calls is stopped
+          await killSession(resolveSessionName(target.sessionName, metaEntries));
+          await failTask(taskId, failure);
+          continue;
+        }
+        const signal = await checkCompletion(target, { metaEntries, hooks });
+        if (signal) {
+          // Capture now, while the pane and its scrollback are still around
+          await captureOutputs(taskId, metaEntries, hooks);
+          updateTaskState(run, taskId, { status: "completed", signal, completedAt: new Date().toISOString() });
+          await persist();
+          console.log(`  [${taskId}] completed (${describeSignal(signal)})`);
+          // Free its --max-parallel slot for every command sharing the limit, even if the agent stays open
+          if (signal !== "marked-done") {
+            await releaseSessionSlot(dataDir, resolveSessionName(target.sessionName, metaEntries))
+              .then(({ quarantined }) => warnQuarantined(quarantined))
+              .catch((err) => console.error(`Warning: failed to write session metadata: ${err instanceof Error ? err.message : err}`));
+          }
+        }
+      }
+
+      // Skip tasks whose dependencies failed
+      for (const task of dependent) {
+        if (statusOf(task.id) !== "pending") continue;
+        const failedDeps = (task.dependencies ?? []).filter((d) =>
+          statusOf(d) === "skipped" || (statusOf(d) === "failed" && !run.tasks[d].ignoreFailure)
+        );
+        if (failedDeps.length > 0) {
+          updateTaskState(run, task.id, {
+            status: "skipped",
+            error: `failed deps: ${failedDeps.join(", ")}`,
+            completedAt: new Date().toISOString(),
+          });
+          await persist();
+          console.error(`  [${task.id}] skipped (failed deps: ${failedDeps.join(", ")})`);
+        }
+      }
+
+      // Launch queued tasks and retries, then (with --wait) tasks whose dependencies are all satisfied
+      const launchable = run.abortedBy ? [] : readyTasks(run)
+        .map((taskId) => tasksById.get(taskId)!)
+        .filter((task) => statusOf(task.id) === "queued" || isRetry(task.id) || ctx.waitForDeps);
+      for (const task of launchable) {
+        if (statusOf(task.id) === "pending" && !isRetry(task.id)) console.log(`  [${task.id}] dependencies ready, launching...`);
+      }
+      if (launchable.length > 0) await launchReady(launchable);
+
+      if (keepWaiting()) {
+        await waker.wait(POLL_INTERVAL_MS);
+      }
+    }
+    waker.close();
+  }
+
+  if (!ctx.waitForDeps && !run.abortedBy && hasPending()) {
+    console.log();
+    console.log("Run with --wait to auto-launch dependent tasks, or launch manually:");
+    for (const task of dependent.filter((t) => statusOf(t.id) === "pending")) {
+      console.log(`  bun run launch.ts "${task.prompt.slice(0, 50)}..." --agents ${task.agent}`);
+    }
+    console.log();
+    console.log("Or continue this run later (waits for dependencies):");
+    console.log(`  ${resumeCommand(plan.id, dataDir)}`);
+  }
+
+  if (reviewing && !run.abortedBy) {
+    await reviewRun(run, ctx, persist);
+  }
+
+  console.log();
+  console.log("─".repeat(60));
+  for (const line of formatRunSummary(run)) {
+    console.log(line);
+  }
+  if (runningCount() > 0) {
+    // Nothing records the outcome of these once orchestrate exits; a resume picks them back up
+    console.log();
+    if (run.abortedBy) {
+      console.log(`${runningCount()} task(s) were still running when the run aborted; their sessions are left open and their outcome is not recorded`);
+    } else {
+      console.log(`${runningCount()} task(s) still running; their outcome is not recorded until you resume the run:`);
+      console.log(`  ${resumeCommand(plan.id, dataDir)}`);
+    }
+  }
+
+  console.log();
+  console.log("═".repeat(60));
+  console.log("Sessions created:");
+  for (const [, { sessionName }] of launched) {
+    console.log(`  tmux attach -t ${sessionName}`);
+  }
+  console.log();
+  console.log("Watch all sessions:");
+  console.log(`  bun run watch.ts --filter ${options.prefix}`);
+  console.log();
+  console.log(`Run state: ${expandHome(getRunFile(dataDir, plan.id))}`);
+}
+
+/** Have the --review agent judge the diffs and summaries of every task that ran, and store its verdict */
+async function reviewRun(run: OrchestrationRun, ctx: RunContext, persist: () => Promise<void>): Promise<void> {
+  const { plan, options } = run;
+  const candidates: ReviewCandidate[] = plan.tasks.flatMap((task) => {
+    const state = run.tasks[task.id];
+    if (!state?.sessionName || !state.launchedAt || !["completed", "failed"].includes(state.status)) return [];
+    return [{
+      label: task.id,
+      sessionName: state.sessionName,
+      launchedAt: state.launchedAt,
+      agent: state.agent ?? task.agent,
+      description: task.description,
+      status: state.status,
+    }];
+  });
+
+  console.log();
+  console.log("─".repeat(60));
+  if (candidates.length === 0) {
+    console.log("Review skipped: no task ran to completion");
+    return;
+  }
+  console.log(`Asking ${options.review} to review ${candidates.length} task(s)...`);
+
+  try {
+    const spec = parseOrchestratorSpec(options.review!, ctx.registry, "reviewer");
+    const metaEntries = await readSessionMeta(ctx.dataDir);
+    const hooks = await readHooks(ctx.dataDir);
+    const collected = await collectReviewCandidates(candidates, { metaEntries, hooks, fallbackCwd: options.cwd });
+    const verdict = await reviewSessions(spec, plan.originalPrompt, collected, "plan", ctx.registry, options.cwd);
+    run.review = verdict;
+    await persist();
+    const { quarantined } = await recordReview(ctx.dataDir, {
+      sessionName: createSessionName(options.prefix, "review"),
+      planId: plan.id,
+      tag: options.tag,
+      agent: spec.kind === "agent" ? spec.agent : undefined,
+      review: verdict,
     });
+    warnQuarantined(quarantined);
+    console.log();
+    for (const line of formatReview(verdict)) {
+      console.log(line);
+    }
   } catch (err) {
-    const msg = err instanceof Error ? err.message : String(err);
-    console.error(`Warning: failed to write session metadata: ${msg}`);
+    console.error(`Review failed: ${err instanceof Error ? err.message : String(err)}`);
   }
-  return sessionName;
 }
 
-const POLL_INTERVAL_MS = 5000;
-
 async function main() {
   const { values, positionals } = parseArgs({
     args: Bun.argv.slice(2),
@@ -207,49 +643,101 @@ async function main() {
       cwd: { type: "string", short: "c" },
       prefix: { type: "string", short: "p", default: DEFAULT_SESSION_PREFIX },
       "dry-run": { type: "boolean", short: "n" },
+      edit: { type: "boolean", short: "e" },
+      graph: { type: "string" },
       wait: { type: "boolean", short: "w" },
       "prompt-file": { type: "string" },
       "plan-file": { type: "string" },
+      template: { type: "string" },
+      set: { type: "string", multiple: true },
+      orchestrator: { type: "string", short: "o", default: DEFAULT_ORCHESTRATOR },
       "save-plan": { type: "string" },
+      resume: { type: "string" },
       "data-dir": { type: "string", short: "d", default: DEFAULT_DATA_DIR },
       tag: { type: "string" },
+      worktree: { type: "boolean", default: false },
+      completion: { type: "string", default: DEFAULT_COMPLETION_MODE },
+      "hooks-port": { type: "string", default: String(DEFAULT_HOOKS_PORT) },
+      "max-parallel": { type: "string" },
+      retries: { type: "string" },
+      "retry-agent": { type: "string" },
+      "on-failure": { type: "string" },
+      "max-tool-failures": { type: "string" },
+      review: { type: "string" },
       "claude-flags": { type: "string" },
       "codex-flags": { type: "string" },
       "gemini-flags": { type: "string" },
+      "agent-flags": { type: "string", multiple: true },
       help: { type: "boolean", short: "h" },
     },
     allowPositionals: true,
   });
 
   const hasPromptInput = positionals.length > 0 || values["prompt-file"];
-  const hasPlanFile = Boolean(values["plan-file"]);
+  const hasPlanFile = Boolean(values["plan-file"] || values.template);
 
-  if (values.help || (!hasPromptInput && !hasPlanFile)) {
+  const resumeId = values.resume;
+
+  if (values.help || (!hasPromptInput && !hasPlanFile && !resumeId)) {
     console.log(`agentwatch-minimal orchestrator
 
 Usage:
   bun run orchestrate.ts "complex task description" [options]
+  bun run orchestrate.ts --resume <plan-id>
 
 Options:
   -c, --cwd           Working directory for agents
   -p, --prefix        Session name prefix (default: awm)
   -n, --dry-run       Show decomposition plan without launching agents
+  -e, --edit          Review and edit the plan in a TUI before launching (or save it)
+  --graph             Print the plan as a mermaid or dot dependency diagram
   -w, --wait          Wait for dependencies and launch dependent tasks automatically
+  --completion        When --wait treats a task as done: exit, stop, done, marker, any
+                      (default: ${DEFAULT_COMPLETION_MODE}; tasks can set their own "completion")
+  --hooks-port        Hooks server port for completion events (default: ${DEFAULT_HOOKS_PORT})
+  --max-parallel      Run at most N sessions with this prefix at once, counting other launch and
+                      orchestrate commands; the rest wait as "queued" (default: no limit)
+  --retries           Relaunch a failed task up to N times (default: 0)
+  --retry-agent       Agent to use for retries (default: the task's own)
+  --on-failure        After the retries: skip (dependents are skipped, default), continue
+                      (dependents run anyway) or abort (stop launching tasks)
+  --max-tool-failures Fail a task after N PostToolUseFailure hooks in a row
+                      (plans can set all of these per task with "onFailure")
+  --review            Once every task has finished, have this agent (or cmd:COMMAND) review
+                      their diffs and summaries (implies --wait)
   --prompt-file       Read task prompt from file ("-" for stdin)
-  --plan-file         Use an existing plan JSON instead of Claude decomposition
+  --plan-file         Use an existing plan JSON instead of decomposing the task
+  --template          Use a plan template from <data-dir>/templates (list them: ctl templates)
+  --set               Fill in a template parameter as NAME=VALUE (repeatable)
+  -o, --orchestrator  Agent that decomposes the task (default: ${DEFAULT_ORCHESTRATOR}), or cmd:COMMAND
+                      to run a local command with the decomposition prompt on stdin
   --save-plan         Save plan JSON to a file
+  --resume            Continue a stored run (<data-dir>/runs/<plan-id>.json) after orchestrate exited
+                      (--max-parallel and the failure options can change the stored settings)
   -d, --data-dir      Data directory for session metadata (default: ${DEFAULT_DATA_DIR})
   --tag               Tag to label sessions
+  --worktree          Run each task in its own git worktree and branch (awm/<session>)
   --claude-flags      Extra flags for Claude agents
   --codex-flags       Extra flags for Codex agents
   --gemini-flags      Extra flags for Gemini agents
+  --agent-flags       Extra flags for any agent as NAME=FLAGS (repeatable)
   -h, --help          Show this help
 
 Examples:
   bun run orchestrate.ts "Build a REST API with auth, validation, and tests"
   bun run orchestrate.ts "Refactor the payment module" --dry-run
+  bun run orchestrate.ts --plan-file ./plan.json --dry-run --graph mermaid
+  bun run orchestrate.ts "Refactor the payment module" --edit
+  bun run orchestrate.ts "Add a CLI flag" --orchestrator codex --dry-run
+  bun run orchestrate.ts "Add a CLI flag" --orchestrator "cmd:./scripts/fake-plan.sh" -n
   bun run orchestrate.ts "Complex task" --wait --gemini-flags "--yolo"
+  bun run orchestrate.ts "Complex task" --wait --completion marker
+  bun run orchestrate.ts --plan-file ./plan.json --wait --max-parallel 3
+  bun run orchestrate.ts --plan-file ./plan.json --wait --retries 1 --retry-agent codex --on-failure abort
+  bun run orchestrate.ts --plan-file ./plan.json --worktree --review claude
+  bun run orchestrate.ts --template add-endpoint --set name=users --set method=POST --dry-run
   bun run orchestrate.ts --prompt-file ./task.txt --save-plan ./plan.json
+  bun run orchestrate.ts --resume plan_m1abc23_x7k9p2q4
 `);
     process.exit(0);
   }
@@ -259,6 +747,31 @@ Examples:
     process.exit(1);
   }
 
+  if (resumeId && (hasPromptInput || hasPlanFile || values["dry-run"] || values.edit)) {
+    console.error("Error: --resume continues a stored run; it cannot be combined with a prompt, --plan-file, --template, --dry-run or --edit.");
+    process.exit(1);
+  }
+
+  if (values["plan-file"] && values.template) {
+    console.error("Error: Provide either --plan-file or --template, not both.");
+    process.exit(1);
+  }
+
+  if (values.set && !values.template) {
+    console.error("Error: --set fills in a --template's parameters; pass --template too.");
+    process.exit(1);
+  }
+
+  if (values.edit && values["dry-run"]) {
+    console.error("Error: --edit already lets you save without launching; drop --dry-run.");
+    process.exit(1);
+  }
+
+  if (values.edit && !process.stdin.isTTY) {
+    console.error("Error: --edit needs an interactive terminal.");
+    process.exit(1);
+  }
+
   let prompt = positionals.join(" ");
   if (values["prompt-file"]) {
     prompt = await readPromptInput(values["prompt-file"]!);
@@ -267,9 +780,56 @@ Examples:
   const cwd = values.cwd ?? process.cwd();
   const prefix = values.prefix!;
   const dryRun = values["dry-run"] ?? false;
-  const waitForDeps = values.wait ?? false;
+  // The review needs every task to finish, so it waits like --wait
+  const waitForDeps = (values.wait ?? false) || values.review !== undefined;
   const dataDir = values["data-dir"]!;
   const tag = normalizeTag(values.tag);
+  const useWorktree = values.worktree ?? false;
+  const hooksPort = parseInt(values["hooks-port"]!, 10);
+
+  const defaultCompletion = parseCompletionMode(values.completion);
+  if (!defaultCompletion) {
+    console.error(`Error: --completion must be one of: ${COMPLETION_MODES.join(", ")}`);
+    process.exit(1);
+  }
+
+  let registry: AgentRegistry;
+  let extraAgentFlags: Record<AgentType, string>;
+  let orchestrator: OrchestratorSpec;
+  let graphFormat: GraphFormat | undefined;
+  if (values.graph !== undefined) {
+    graphFormat = parseGraphFormat(values.graph);
+    if (!graphFormat) {
+      console.error(`Error: --graph must be one of: ${GRAPH_FORMATS.join(", ")}`);
+      process.exit(1);
+    }
+  }
+
+  let maxParallel: number | undefined;
+  let failurePolicy: FailurePolicy | undefined;
+  let reviewer: OrchestratorSpec | undefined;
+  let template: PlanTemplate | undefined;
+  let templateValues: Record<string, string> = {};
+  try {
+    registry = await loadAgentRegistry(dataDir);
+    extraAgentFlags = parseAgentFlagOptions(values["agent-flags"], registry);
+    orchestrator = parseOrchestratorSpec(values.orchestrator!, registry);
+    maxParallel = parseMaxParallel(values["max-parallel"]);
+    failurePolicy = parseFailureOptions({
+      retries: values.retries,
+      retryAgent: values["retry-agent"],
+      then: values["on-failure"],
+      maxToolFailures: values["max-tool-failures"],
+    }, registry);
+    if (values.review !== undefined) reviewer = parseOrchestratorSpec(values.review, registry, "reviewer");
+    if (values.template) {
+      template = await loadTemplate(dataDir, values.template);
+      templateValues = parseSetOptions(values.set);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
 
   // Parse agent-specific flags
   const agentFlags: AgentFlags = {
@@ -277,6 +837,25 @@ Examples:
     codex: parseFlags(values["codex-flags"]),
     gemini: parseFlags(values["gemini-flags"]),
   };
+  for (const [agent, flags] of Object.entries(extraAgentFlags)) {
+    agentFlags[agent] = [...(agentFlags[agent] ?? []), ...parseFlags(flags)];
+  }
+
+  if (resumeId) {
+    const run = await loadRun(dataDir, resumeId).catch((err: Error) => {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    });
+    if (!run) {
+      console.error(`Error: No run state for ${resumeId} in ${expandHome(getRunsDir(dataDir))}`);
+      process.exit(1);
+    }
+    // The only settings a resume can change: e.g. lower the limit or allow retries for the rest of the run
+    if (maxParallel !== undefined) run.options.maxParallel = maxParallel;
+    if (failurePolicy) run.plan.onFailure = { ...run.plan.onFailure, ...failurePolicy };
+    await resumeRun(run, { dataDir, registry, hooksPort, waitForDeps: true, resuming: true });
+    return;
+  }
 
   console.log("═".repeat(60));
   console.log("agentwatch-minimal orchestrator");
@@ -287,24 +866,72 @@ Examples:
   } else if (values["plan-file"]) {
     console.log(`Task: "plan-file"`);
   }
+  if (template) {
+    const settings = Object.entries(templateValues).map(([name, value]) => `${name}=${value}`);
+    console.log(`Template: ${template.name}${settings.length > 0 ? ` (${settings.join(", ")})` : ""}`);
+  }
   console.log(`CWD: ${cwd}`);
   console.log();
 
   // Decompose the task
   let plan: OrchestrationPlan;
   if (values["plan-file"]) {
-    plan = await loadPlanFromFile(values["plan-file"]!, prompt);
+    plan = await loadPlanFromFile(values["plan-file"]!, prompt, registry);
+  } else if (template) {
+    try {
+      plan = instantiateTemplate(template, templateValues, prompt, registry);
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
   } else {
-    const tasks = await decomposeWithClaude(prompt);
+    console.log(`Asking ${orchestratorName(orchestrator)} to decompose the task...\n`);
+    let tasks: SubTask[];
+    try {
+      tasks = await decomposeTask(prompt, orchestrator, registry, {
+        cwd,
+        onRetry: (errors) => {
+          console.log("Unusable plan, asking again:");
+          for (const error of errors) {
+            console.log(`  ${error}`);
+          }
+          console.log();
+        },
+      });
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
     plan = {
       id: createId("plan"),
       originalPrompt: prompt,
       decomposedAt: new Date().toISOString(),
       tasks,
-      orchestratorAgent: "claude",
+      orchestratorAgent: orchestratorName(orchestrator),
     };
   }
 
+  // Command-line failure options override the plan's own onFailure (tasks' onFailure still wins)
+  if (failurePolicy) {
+    plan.onFailure = { ...plan.onFailure, ...failurePolicy };
+  }
+
+  if (values.edit) {
+    const result = await runPlanEditor(plan.tasks, plan.id, registry);
+    plan.tasks = result.tasks;
+    if (result.action === "quit") {
+      console.log("Plan editor closed - no agents launched");
+      return;
+    }
+    if (result.action === "save") {
+      const savePath = values["save-plan"] ?? getDefaultPlanFile(dataDir, plan.id);
+      await savePlanToFile(plan, savePath);
+      console.log(`Saved plan to ${expandHome(savePath)}`);
+      console.log(`Launch it with: bun run orchestrate.ts --plan-file ${expandHome(savePath)}`);
+      return;
+    }
+  }
+
   if (values["save-plan"]) {
     const savePath = values["save-plan"]!;
     await savePlanToFile(plan, savePath);
@@ -319,6 +946,27 @@ Examples:
   for (const task of plan.tasks) {
     console.log(`[${task.id}] ${task.description}`);
     console.log(`  Agent: ${task.agent}`);
+    if (task.completion) {
+      console.log(`  Completion: ${task.completion}`);
+    }
+    if (task.cwd) {
+      console.log(`  CWD: ${task.cwd}`);
+    }
+    if (task.flags?.length) {
+      console.log(`  Flags: ${task.flags.join(" ")}`);
+    }
+    if (task.env) {
+      console.log(`  Env: ${Object.keys(task.env).join(", ")}`);
+    }
+    if (task.timeoutSeconds) {
+      console.log(`  Timeout: ${task.timeoutSeconds}s`);
+    }
+    if (task.tag) {
+      console.log(`  Tag: ${task.tag}`);
+    }
+    if (task.onFailure) {
+      console.log(`  On failure: ${describeFailurePolicy(task.onFailure)}`);
+    }
     console.log(`  Prompt: ${task.prompt.slice(0, 80)}${task.prompt.length > 80 ? "..." : ""}`);
     if (task.dependencies && task.dependencies.length > 0) {
       console.log(`  Depends on: ${task.dependencies.join(", ")}`);
@@ -326,15 +974,32 @@ Examples:
     console.log();
   }
 
-  const depErrors = validatePlanDependencies(plan.tasks);
+  const depErrors = validatePlan(plan.tasks);
   if (depErrors.length > 0) {
-    console.error("Invalid dependencies in plan:");
+    console.error("Invalid plan:");
     for (const err of depErrors) {
       console.error(`  ${err}`);
     }
     process.exit(1);
   }
 
+  if (plan.onFailure) {
+    console.log(`On failure: ${describeFailurePolicy(plan.onFailure)}`);
+  }
+  const waves = computeWaves(plan.tasks);
+  console.log("Execution waves:");
+  waves.forEach((wave, i) => console.log(`  ${i + 1}: ${wave.join(", ")}`));
+  const criticalPath = findCriticalPath(plan.tasks);
+  console.log(`Critical path (${criticalPath.length} task(s)): ${criticalPath.join(" -> ")}`);
+  console.log();
+
+  if (graphFormat) {
+    console.log(`Plan graph (${graphFormat}):`);
+    console.log();
+    process.stdout.write(renderPlanGraph(plan, graphFormat));
+    console.log();
+  }
+
   if (dryRun) {
     console.log("─".repeat(60));
     console.log("Dry run - no agents launched");
@@ -342,118 +1007,26 @@ Examples:
     return;
   }
 
-  // Separate independent and dependent tasks
-  const independent = plan.tasks.filter(
-    (t) => !t.dependencies || t.dependencies.length === 0
-  );
-  const dependent = plan.tasks.filter(
-    (t) => t.dependencies && t.dependencies.length > 0
-  );
-
-  console.log("─".repeat(60));
-  console.log(`Launching ${independent.length} independent task(s) in parallel...`);
-  console.log("─".repeat(60));
-  console.log();
-
-  // Track launched sessions: taskId -> sessionName
-  const launched: Map<string, string> = new Map();
-  // Track completed tasks (session no longer exists)
-  const completed: Set<string> = new Set();
-  const failed: Set<string> = new Set();
-
-  // Launch independent tasks in parallel
-  const independentResults = await Promise.allSettled(
-    independent.map((task) => launchSubTask(task, cwd, prefix, agentFlags, dataDir, tag, plan.id))
-  );
-
-  for (let i = 0; i < independentResults.length; i++) {
-    const result = independentResults[i];
-    const task = independent[i];
-    if (result.status === "fulfilled") {
-      launched.set(task.id, result.value);
-      console.log(`  [${task.id}] ${task.description} -> ${result.value}`);
-    } else {
-      failed.add(task.id);
-      console.error(`  [${task.id}] Failed: ${result.reason}`);
-    }
-  }
+  const run = createRun(plan, {
+    cwd,
+    prefix,
+    tag,
+    worktree: useWorktree,
+    completion: defaultCompletion,
+    maxParallel,
+    review: reviewer && orchestratorName(reviewer),
+    agentFlags: Object.fromEntries(
+      Object.entries(agentFlags).filter((entry): entry is [string, string[]] => (entry[1]?.length ?? 0) > 0)
+    ),
+  });
 
-  if (dependent.length > 0) {
+  const previous = await loadRun(dataDir, plan.id).catch(() => undefined);
+  if (previous && Object.values(previous.tasks).some((t) => ["pending", "queued", "running"].includes(t.status))) {
+    console.log(`Note: replacing unfinished run state for ${plan.id} (use --resume ${plan.id} to continue it instead)`);
     console.log();
-    console.log(`${dependent.length} task(s) have dependencies:`);
-    for (const task of dependent) {
-      console.log(`  [${task.id}] depends on: ${task.dependencies!.join(", ")}`);
-    }
-
-    if (waitForDeps) {
-      console.log();
-      console.log("─".repeat(60));
-      console.log("Waiting for dependencies to complete...");
-      console.log("─".repeat(60));
-
-      const pending = new Set(dependent.map((t) => t.id));
-
-      while (pending.size > 0) {
-        // Check which launched tasks have completed (session gone)
-        for (const [taskId, sessionName] of launched) {
-          if (!completed.has(taskId)) {
-            const stillRunning = await hasSession(sessionName);
-            if (!stillRunning) {
-              completed.add(taskId);
-              console.log(`  [${taskId}] completed`);
-            }
-          }
-        }
-
-        // Find tasks whose dependencies are all completed
-        for (const task of dependent) {
-          if (!pending.has(task.id)) continue;
-          const deps = task.dependencies ?? [];
-          const failedDeps = deps.filter((d) => failed.has(d));
-          if (failedDeps.length > 0) {
-            pending.delete(task.id);
-            failed.add(task.id);
-            console.error(`  [${task.id}] skipped (failed deps: ${failedDeps.join(", ")})`);
-            continue;
-          }
-          const allDepsComplete = deps.every((d) => completed.has(d));
-
-          if (allDepsComplete) {
-            pending.delete(task.id);
-            try {
-              console.log(`  [${task.id}] dependencies ready, launching...`);
-              const sessionName = await launchSubTask(task, cwd, prefix, agentFlags, dataDir, tag, plan.id);
-              launched.set(task.id, sessionName);
-              console.log(`  [${task.id}] ${task.description} -> ${sessionName}`);
-            } catch (err) {
-              failed.add(task.id);
-              console.error(`  [${task.id}] Failed: ${err}`);
-            }
-          }
-        }
-
-        if (pending.size > 0) {
-          await Bun.sleep(POLL_INTERVAL_MS);
-        }
-      }
-    } else {
-      console.log();
-      console.log("Run with --wait to auto-launch dependent tasks, or launch manually:");
-      for (const task of dependent) {
-        console.log(`  bun run launch.ts "${task.prompt.slice(0, 50)}..." --agents ${task.agent}`);
-      }
-    }
   }
 
-  console.log();
-  console.log("═".repeat(60));
-  console.log("Sessions created:");
-  for (const [, sessionName] of launched) {
-    console.log(`  tmux attach -t ${sessionName}`);
-  }
-  console.log();
-  console.log("Watch all sessions:");
-  console.log(`  bun run watch.ts --filter ${prefix}`);
+  await runPlan(run, { dataDir, registry, hooksPort, waitForDeps, resuming: false });
 }
 
 main().catch(console.error);
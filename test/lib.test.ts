@@ -1,12 +1,105 @@
 import { describe, test, expect } from "bun:test";
 import { createId, createSessionName } from "../lib/ids";
-import { expandHome } from "../lib/jsonl";
+import {
+  appendJsonl,
+  expandHome,
+  formatQuarantinedLine,
+  getQuarantineFile,
+  listJsonlSegments,
+  pruneJsonlSegments,
+  readJsonl,
+  readJsonlTail,
+  recoverJsonlTail,
+  rotateJsonl,
+  updateJsonl,
+  withFileLock,
+} from "../lib/jsonl";
+import { checkLogRotationPolicy } from "../lib/config";
+import {
+  createJsonlStorage,
+  createSqliteStorage,
+  decodeHookCursor,
+  encodeHookCursor,
+  getSqliteFile,
+  importJsonlToSqlite,
+  openStorage,
+  parseHookSearch,
+  parseTimeBound,
+  searchHooks,
+  type HookPage,
+  type HookQuery,
+} from "../lib/storage";
 import { isShellPrompt, filterMeaningfulLines } from "../lib/tmux";
-import { formatHookPayload } from "../lib/hooks";
+import { formatHookPayload, normalizeHookEvent } from "../lib/hooks";
+import { globToRegExp, evaluatePolicy, buildHookResponse, parsePolicy, type Policy } from "../lib/policy";
 import { formatHookNotification } from "../lib/notify";
 import { makePromptPreview, normalizeTag, buildSessionMetaMap } from "../lib/sessions";
-import { DEFAULT_SESSION_PREFIX, DEFAULT_HOOKS_PORT, type SessionMetaEntry } from "../lib/types";
-import { homedir } from "os";
+import { buildSessionIdMap, correlateHook, getSessionAliases, hookBelongsToSession } from "../lib/correlate";
+import {
+  createEventBus,
+  diffSessions,
+  matchesEventFilter,
+  parseEventFilter,
+  parseSSEFrame,
+  snapshotSessions,
+  type WatchEvent,
+} from "../lib/events";
+import { DEFAULT_SESSION_PREFIX, DEFAULT_HOOKS_PORT, type HookEntry, type OrchestrationPlan, type SessionMetaEntry, type SubTask } from "../lib/types";
+import { parseNumstat, selectComparedSessions, renderCompareMarkdown, renderCompareTable, type CompareReport } from "../lib/compare";
+import {
+  BUILTIN_AGENTS,
+  adaptHookEvent,
+  buildAgentRegistry,
+  getAgentCommands,
+  getHookAdapter,
+  matchAgentProcess,
+  parseAgentFlagOptions,
+  parseAgentList,
+} from "../lib/agents";
+import { checkCompletion, findStopHook, getMarkerPath, parseCompletionMode, type CompletionTarget } from "../lib/completion";
+import { parseTemplateRefs, renderTaskPrompt, requiredOutputs, summaryFromPayload, readTranscriptSummary, truncateOutput } from "../lib/outputs";
+import { extractJson, decomposeTask, parseDecomposition, parseOrchestratorSpec } from "../lib/decompose";
+import { checkTaskOptions, computeWaves, findCriticalPath, findDependencyCycles, parsePlan, validatePlan } from "../lib/plan";
+import {
+  applyEditedField,
+  createPlanEditorState,
+  deleteTask,
+  handlePlanEditorKey,
+  moveTask,
+  nextTaskId,
+  splitTask,
+  toggleDependency,
+} from "../lib/plan-editor";
+import {
+  createRun,
+  createRunSaver,
+  formatRunSummary,
+  getRunFile,
+  loadRun,
+  readyTasks,
+  taskCompletionTarget,
+  timedOutTasks,
+  updateTaskState,
+  waitReason,
+} from "../lib/runs";
+import { freeSlots, getQueuedSessions, parseMaxParallel, sharedFreeSlots } from "../lib/queue";
+import {
+  checkFailurePolicy,
+  describeFailurePolicy,
+  detectFailure,
+  parseFailureOptions,
+  resolveFailurePolicy,
+  toolFailureStreak,
+} from "../lib/failure";
+import { buildReviewPrompt, findReviews, formatReview, parseReviewVerdict, reviewSessions, type ReviewCandidate } from "../lib/review";
+import { buildResolvePrompt, formatMergeSteps, integrationBranchName, mergePlanBranches, planMergeSteps } from "../lib/merge";
+import { findTemplateParams, instantiateTemplate, listTemplates, parseSetOptions, parseTemplate } from "../lib/templates";
+import { parseGraphFormat, renderDot, renderMermaid, taskStatusesFromSessions } from "../lib/graph";
+import { createWorktree, removeWorktree, runGit, worktreeBranchName } from "../lib/worktree";
+import { homedir, tmpdir } from "os";
+import { mkdtempSync, mkdirSync, existsSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { join } from "path";
+import { gzipSync } from "zlib";
 
 describe("ids", () => {
   test("createId generates unique IDs with prefix", () => {
@@ -52,6 +145,233 @@ describe("jsonl", () => {
     expect(expandHome("relative")).toBe("relative");
     expect(expandHome("./relative")).toBe("./relative");
   });
+
+  test("appendJsonl rotates by size and reads span the segments", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-jsonl-"));
+    try {
+      const file = join(dir, "hooks.jsonl");
+      // ~100 bytes per entry, so a 250-byte limit rotates every third append
+      const policy = { maxSizeMB: 250 / (1024 * 1024), compress: true };
+      for (let i = 0; i < 7; i++) {
+        await appendJsonl(file, { i, pad: "x".repeat(80) }, policy);
+      }
+      const segments = await listJsonlSegments(file);
+      expect(segments.map((segment) => segment.compressed)).toEqual([true, true]);
+      expect(segments.every((segment) => segment.path.endsWith(".jsonl.gz"))).toBe(true);
+
+      expect((await readJsonl<{ i: number }>(file)).map((entry) => entry.i)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+      expect((await readJsonlTail<{ i: number }>(file, 1)).map((entry) => entry.i)).toEqual([6]);
+      expect((await readJsonlTail<{ i: number }>(file, 5)).map((entry) => entry.i)).toEqual([2, 3, 4, 5, 6]);
+      // Segments rotated before since are skipped
+      const later = new Date(Date.now() + 60_000).toISOString();
+      expect((await readJsonl<{ i: number }>(file, { since: later })).map((entry) => entry.i)).toEqual([6]);
+      expect(await readJsonl(file, { since: "2024-01-01T00:00:00.000Z" })).toHaveLength(7);
+
+      // A corrupt segment is skipped like a malformed line
+      writeFileSync(segments[0].path, "not gzip");
+      expect((await readJsonl<{ i: number }>(file)).map((entry) => entry.i)).toEqual([3, 4, 5, 6]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("readJsonlTail scans backwards across chunk boundaries", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-jsonl-"));
+    try {
+      const file = join(dir, "hooks.jsonl");
+      // Lines longer than a read chunk, multi-byte characters and a torn last line
+      const lines = [
+        JSON.stringify({ i: 0, event: "Stop", text: "é".repeat(40_000) }),
+        JSON.stringify({ i: 1, event: "PreToolUse", text: "x".repeat(70_000) }),
+        "not json",
+        JSON.stringify({ i: 2, event: "Stop", text: "日本語" }),
+        "",
+        JSON.stringify({ i: 3, event: "PreToolUse" }),
+      ];
+      writeFileSync(file, lines.join("\n") + "\n" + '{"i": 4, "ev');
+
+      const all = await readJsonlTail<{ i: number; text?: string }>(file, 10);
+      expect(all.map((entry) => entry.i)).toEqual([0, 1, 2, 3]);
+      expect(all[0].text).toBe("é".repeat(40_000));
+      expect(all[2].text).toBe("日本語");
+
+      const stops = await readJsonlTail<{ i: number; event: string }>(file, 1, (entry) => entry.event === "Stop");
+      expect(stops.map((entry) => entry.i)).toEqual([2]);
+      expect(await readJsonlTail(file, 0)).toEqual([]);
+      expect(await readJsonlTail(join(dir, "missing.jsonl"), 5)).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("readJsonl with cacheSegments parses each rotated segment once", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-jsonl-"));
+    try {
+      const file = join(dir, "sessions.jsonl");
+      const entry = (i: number) => JSON.stringify({ i }) + "\n";
+      const old = join(dir, "sessions.2024-01-01T00-00-00-000Z.jsonl");
+      writeFileSync(old, entry(0));
+      writeFileSync(join(dir, "sessions.2024-01-02T00-00-00-000Z.jsonl.gz"), gzipSync(entry(1)));
+      writeFileSync(file, entry(2));
+
+      const read = async () => (await readJsonl<{ i: number }>(file, { cacheSegments: true })).map((e) => e.i);
+      const first = await readJsonl<{ i: number }>(file, { cacheSegments: true });
+      expect(first.map((e) => e.i)).toEqual([0, 1, 2]);
+      first[0].i = 99;
+
+      // Rotated segments come from the cache (and a caller's change does not reach it); the active file is re-read
+      writeFileSync(old, entry(5));
+      writeFileSync(file, entry(2) + entry(3));
+      expect(await read()).toEqual([0, 1, 2, 3]);
+      // Compression only renames a segment, and pruned segments drop out
+      writeFileSync(`${old}.gz`, gzipSync(entry(5)));
+      rmSync(old);
+      expect(await read()).toEqual([0, 1, 2, 3]);
+      rmSync(`${old}.gz`);
+      expect(await read()).toEqual([1, 2, 3]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("readJsonlTail filters across plain and compressed segments", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-jsonl-"));
+    try {
+      const file = join(dir, "hooks.jsonl");
+      const entry = (i: number) => JSON.stringify({ i, even: i % 2 === 0 }) + "\n";
+      writeFileSync(join(dir, "hooks.2024-01-01T00-00-00-000Z.jsonl.gz"), gzipSync(entry(0) + entry(1) + entry(2)));
+      writeFileSync(join(dir, "hooks.2024-01-02T00-00-00-000Z.jsonl"), entry(3) + entry(4) + entry(5));
+      writeFileSync(file, entry(6) + entry(7));
+
+      const even = (e: { even: boolean }) => e.even;
+      expect((await readJsonlTail<{ i: number; even: boolean }>(file, 2, even)).map((e) => e.i)).toEqual([4, 6]);
+      expect((await readJsonlTail<{ i: number; even: boolean }>(file, 10, even)).map((e) => e.i)).toEqual([0, 2, 4, 6]);
+      expect((await readJsonlTail<{ i: number }>(file, 4)).map((e) => e.i)).toEqual([4, 5, 6, 7]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("appendJsonl serializes writers across processes and breaks stale locks", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-jsonl-"));
+    try {
+      const file = join(dir, "sessions.jsonl");
+      // A lock left behind by a process that no longer exists
+      writeFileSync(`${file}.lock`, "999999999\n");
+      // Several processes appending large lines at once
+      const script = `import { appendJsonl } from ${JSON.stringify(join(import.meta.dir, "../lib/jsonl"))};
+        const [file, who] = process.argv.slice(-2);
+        await Promise.all(Array.from({ length: 20 }, (_, i) => appendJsonl(file, { who, i, pad: "x".repeat(16384) })));`;
+      const writers = ["a", "b", "c"].map((who) => Bun.spawn(["bun", "-e", script, file, who], { stderr: "pipe" }));
+      expect(await Promise.all(writers.map((proc) => proc.exited))).toEqual([0, 0, 0]);
+
+      const lines = readFileSync(file, "utf8").split("\n").filter(Boolean);
+      expect(lines.length).toBe(60);
+      expect(lines.every((line) => JSON.parse(line).pad.length === 16384)).toBe(true);
+      expect(existsSync(`${file}.lock`)).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("withFileLock breaks an expired lock and releases only its own", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-jsonl-"));
+    try {
+      const file = join(dir, "hooks.jsonl");
+      // A live holder that stopped refreshing its lock a minute ago
+      writeFileSync(`${file}.lock`, `${process.pid}\n`);
+      const old = new Date(Date.now() - 60_000);
+      utimesSync(`${file}.lock`, old, old);
+
+      await withFileLock(file, async () => {
+        expect(readFileSync(`${file}.lock`, "utf8")).toBe(`${process.pid}\n`);
+        // Another process broke this lock as stale and took it
+        rmSync(`${file}.lock`);
+        writeFileSync(`${file}.lock`, "999999999\n");
+      });
+      expect(readFileSync(`${file}.lock`, "utf8")).toBe("999999999\n");
+      expect(readdirSync(dir)).toEqual(["hooks.jsonl.lock"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("updateJsonl reads and appends without other writes in between", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-jsonl-"));
+    try {
+      const file = join(dir, "counter.jsonl");
+      await Promise.all(Array.from({ length: 10 }, () =>
+        updateJsonl<{ n: number }>(file, () => true, (latest) => ({ n: (latest?.n ?? 0) + 1 }))
+      ));
+      expect((await readJsonl<{ n: number }>(file)).map((entry) => entry.n)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("recoverJsonlTail quarantines a torn last line", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-jsonl-"));
+    try {
+      const file = join(dir, "hooks.jsonl");
+      writeFileSync(file, '{"i":0}\n{"i":1,"payload":{"cwd":"/sr');
+      const quarantined = await appendJsonl(file, { i: 2 });
+      expect(quarantined).toEqual({ file, quarantineFile: getQuarantineFile(file), offset: 8, text: '{"i":1,"payload":{"cwd":"/sr' });
+      expect(formatQuarantinedLine(quarantined!)).toBe(`[agentwatch] Moved a torn line (28 bytes) from the end of ${file} to ${getQuarantineFile(file)}`);
+      expect(await appendJsonl(file, { i: 3 })).toBeUndefined();
+      expect(readFileSync(file, "utf8")).toBe('{"i":0}\n{"i":2}\n{"i":3}\n');
+      const [record] = await readJsonl<{ file: string; offset: number; text: string }>(getQuarantineFile(file));
+      expect(record).toMatchObject({ file: "hooks.jsonl", offset: 8, text: '{"i":1,"payload":{"cwd":"/sr' });
+      expect(await listJsonlSegments(file)).toEqual([]);
+
+      // A complete entry that only lacks its newline is kept
+      writeFileSync(file, '{"i":0}');
+      expect(await recoverJsonlTail(file)).toBeUndefined();
+      expect(readFileSync(file, "utf8")).toBe('{"i":0}\n');
+      expect(await recoverJsonlTail(join(dir, "missing.jsonl"))).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("rotateJsonl rotates by the age of the first entry and prunes old segments", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-jsonl-"));
+    try {
+      const file = join(dir, "sessions.jsonl");
+      writeFileSync(file, JSON.stringify({ timestamp: "2024-01-01T00:00:00.000Z" }) + "\n");
+      expect(await rotateJsonl(file, { maxAgeDays: 2 }, new Date("2024-01-02T00:00:00.000Z"))).toBeUndefined();
+      const segment = await rotateJsonl(file, { maxAgeDays: 2 }, new Date("2024-01-03T00:00:00.000Z"));
+      expect(segment).toBe(join(dir, "sessions.2024-01-03T00-00-00-000Z.jsonl"));
+      expect(existsSync(file)).toBe(false);
+      expect(await rotateJsonl(file, { maxAgeDays: 2 })).toBeUndefined();
+
+      writeFileSync(join(dir, "sessions.2024-01-05T00-00-00-000Z.jsonl"), "");
+      writeFileSync(join(dir, "sessions.2024-01-05T00-00-00-000Z-1.jsonl.gz"), "");
+      writeFileSync(join(dir, "hooks.2024-01-01T00-00-00-000Z.jsonl"), "");
+      expect((await listJsonlSegments(file)).map((s) => s.path.slice(dir.length + 1))).toEqual([
+        "sessions.2024-01-03T00-00-00-000Z.jsonl",
+        "sessions.2024-01-05T00-00-00-000Z.jsonl",
+        "sessions.2024-01-05T00-00-00-000Z-1.jsonl.gz",
+      ]);
+
+      const now = new Date("2024-01-10T00:00:00.000Z");
+      expect(await pruneJsonlSegments(file, { keepDays: 6 }, now)).toEqual([join(dir, "sessions.2024-01-03T00-00-00-000Z.jsonl")]);
+      expect(await pruneJsonlSegments(file, { keepSegments: 1 }, now)).toEqual([join(dir, "sessions.2024-01-05T00-00-00-000Z.jsonl")]);
+      expect(existsSync(join(dir, "hooks.2024-01-01T00-00-00-000Z.jsonl"))).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("checkLogRotationPolicy validates config.json logs", () => {
+    expect(checkLogRotationPolicy(undefined, "hooks")).toEqual([]);
+    expect(checkLogRotationPolicy({ maxSizeMB: 50, compress: true, keepSegments: 0 }, "hooks")).toEqual([]);
+    expect(checkLogRotationPolicy({ maxSizeMB: 0, keepSegments: 1.5, compress: "yes" }, "hooks")).toEqual([
+      "logs.hooks.maxSizeMB must be a positive number",
+      "logs.hooks.keepSegments must be a non-negative integer",
+      "logs.hooks.compress must be true or false",
+    ]);
+    expect(checkLogRotationPolicy([], "sessions")).toEqual(["logs.sessions must be an object"]);
+  });
 });
 
 describe("types", () => {
@@ -146,6 +466,87 @@ describe("hooks", () => {
   });
 });
 
+describe("hook events", () => {
+  test("normalizeHookEvent converts kebab-case URLs", () => {
+    expect(normalizeHookEvent("pre-tool-use")).toBe("PreToolUse");
+    expect(normalizeHookEvent("permission-request")).toBe("PermissionRequest");
+    expect(normalizeHookEvent("PostToolUseFailure")).toBe("PostToolUseFailure");
+    expect(normalizeHookEvent("stop")).toBe("Stop");
+  });
+});
+
+describe("policy", () => {
+  const policy: Policy = {
+    rules: [
+      { name: "no-force-push", tool: "Bash", command: "git push*--force*", decision: "deny", reason: "No force pushes" },
+      { event: "PreToolUse", tool: ["Edit", "Write"], path: "!{cwd}/*", decision: "deny", reason: "Stay in the repo" },
+      { tool: "Read", decision: "allow" },
+    ],
+  };
+
+  test("globToRegExp treats * as any characters", () => {
+    expect(globToRegExp("rm -rf *").test("rm -rf /tmp/x")).toBe(true);
+    expect(globToRegExp("src/**").test("src/a/b.ts")).toBe(true);
+    expect(globToRegExp("a?c").test("abc")).toBe(true);
+    expect(globToRegExp("a.c").test("abc")).toBe(false);
+  });
+
+  test("evaluatePolicy returns the first matching rule", () => {
+    const decision = evaluatePolicy(policy, "pre-tool-use", {
+      tool_name: "Bash",
+      tool_input: { command: "git push origin main --force" },
+    });
+    expect(decision?.decision).toBe("deny");
+    expect(decision?.rule).toBe("no-force-push");
+  });
+
+  test("evaluatePolicy expands {cwd} and supports negation", () => {
+    const inside = evaluatePolicy(policy, "PreToolUse", {
+      cwd: "/repo",
+      tool_name: "Edit",
+      tool_input: { file_path: "/repo/src/index.ts" },
+    });
+    const outside = evaluatePolicy(policy, "PreToolUse", {
+      cwd: "/repo",
+      tool_name: "Edit",
+      tool_input: { file_path: "/etc/hosts" },
+    });
+    expect(inside).toBeUndefined();
+    expect(outside?.reason).toBe("Stay in the repo");
+  });
+
+  test("buildHookResponse formats PreToolUse and PermissionRequest decisions", () => {
+    const deny = { decision: "deny" as const, reason: "nope", source: "policy" as const };
+    expect(buildHookResponse("PreToolUse", {}, deny)).toEqual({
+      hookSpecificOutput: { hookEventName: "PreToolUse", permissionDecision: "deny", permissionDecisionReason: "nope" },
+    });
+    expect(buildHookResponse("permission-request", {}, deny)).toEqual({
+      hookSpecificOutput: { hookEventName: "PermissionRequest", decision: { behavior: "deny", message: "nope" } },
+    });
+    expect(buildHookResponse("PermissionRequest", {}, { decision: "ask", source: "policy" })).toEqual({});
+    expect(buildHookResponse("PostToolUse", {}, deny)).toEqual({});
+    expect(buildHookResponse("PreToolUse", {}, undefined)).toEqual({});
+  });
+
+  test("parsePolicy rejects invalid decisions", () => {
+    expect(parsePolicy([{ tool: "Bash", decision: "allow" }]).rules).toHaveLength(1);
+    expect(() => parsePolicy({ rules: [{ decision: "maybe" }] })).toThrow();
+    expect(() => parsePolicy({})).toThrow();
+  });
+
+  test("parsePolicy refuses unknown fields and non-string matchers", () => {
+    // A misspelled matcher would leave a rule that allows every tool call
+    expect(() => parsePolicy([{ tools: "Read", decision: "allow" }, { tool: "Bash", decision: "deny" }]))
+      .toThrow("rule 1 has unknown field: tools");
+    expect(() => parsePolicy([{ tool: 5, decision: "deny" }])).toThrow("rule 1 has invalid tool");
+    expect(() => parsePolicy([{ command: ["rm *", 1], decision: "deny" }])).toThrow("rule 1 has invalid command");
+    expect(() => parsePolicy([{ tool: "Bash", decision: "deny", reason: 3 }])).toThrow("rule 1 has invalid reason");
+    expect(() => parsePolicy(["deny"])).toThrow("rule 1 must be an object");
+    expect(parsePolicy([{ name: "n", event: ["PreToolUse"], tool: "Bash", command: "!git *", path: "*", cwd: "{cwd}*", decision: "ask", reason: "r" }]).rules)
+      .toHaveLength(1);
+  });
+});
+
 describe("notify", () => {
   test("formatHookNotification uses default templates", () => {
     const hook = {
@@ -269,3 +670,1431 @@ describe("sessions", () => {
     expect(map.get("awm-claude-abc")?.status).toBe("done");
   });
 });
+
+describe("storage", () => {
+  const hook = (id: string, timestamp: string, event: string, payload: Record<string, unknown>, sessionName?: string): HookEntry =>
+    ({ id, timestamp, event, payload, ...(sessionName ? { sessionName } : {}) });
+  const hooks = [
+    hook("h1", "2024-05-01T10:00:00.000Z", "PreToolUse", { session_id: "s1", tool_name: "Bash" }, "awm-a"),
+    hook("h2", "2024-05-01T11:00:00.000Z", "PostToolUse", { session_id: "s1", tool_name: "Bash" }),
+    hook("h3", "2024-05-01T12:00:00.000Z", "PreToolUse", { session_id: "s2", tool_name: "Edit" }),
+    hook("h4", "2024-05-01T13:00:00.000Z", "Stop", { session_id: "s2" }, "awm-b"),
+  ];
+  const meta: SessionMetaEntry[] = [
+    { id: "m1", timestamp: "2024-05-01T09:00:00.000Z", sessionName: "awm-a", tag: "fix", agentSessionId: "s1" },
+    { id: "m2", timestamp: "2024-05-01T09:30:00.000Z", sessionName: "awm-b", tag: "docs", launchId: "launch_1" },
+    { id: "m3", timestamp: "2024-05-01T14:00:00.000Z", sessionName: "awm-a", tag: "fix", status: "done" },
+  ];
+
+  for (const backend of ["jsonl", "sqlite"] as const) {
+    test(`${backend} backend answers hook and session queries`, async () => {
+      const dir = mkdtempSync(join(tmpdir(), "awm-storage-"));
+      const storage = backend === "sqlite" ? createSqliteStorage(getSqliteFile(dir)) : createJsonlStorage(dir);
+      try {
+        for (const entry of meta) await storage.appendSessionMeta(entry);
+        for (const entry of hooks) await storage.appendHook(entry);
+        const ids = async (query?: HookQuery) => (await storage.queryHooks(query)).map((h) => h.id);
+
+        expect(await ids()).toEqual(["h1", "h2", "h3", "h4"]);
+        expect(await ids({ events: ["PreToolUse", "Stop"] })).toEqual(["h1", "h3", "h4"]);
+        expect(await ids({ sessionId: "s1" })).toEqual(["h1", "h2"]);
+        expect(await ids({ toolName: "Bash", limit: 1 })).toEqual(["h2"]);
+        expect(await ids({ since: "2024-05-01T11:00:00Z", until: "2024-05-01T13:00:00Z" })).toEqual(["h2", "h3"]);
+        // Tagged sessions match by name or by their agent session_id
+        expect(await ids({ tag: "fix" })).toEqual(["h1", "h2"]);
+        expect(await ids({ tag: "docs" })).toEqual(["h4"]);
+        expect(await ids({ limit: 2 })).toEqual(["h3", "h4"]);
+        expect(await ids({ events: [] })).toEqual([]);
+        // Sessions by name, or by an agent session_id linked to them
+        expect(await ids({ sessionNames: ["awm-a"] })).toEqual(["h1", "h2"]);
+        expect(await ids({ sessionNames: ["awm-b", "awm-gone"], limit: 1 })).toEqual(["h4"]);
+        expect(await ids({ sessionNames: [] })).toEqual([]);
+
+        expect((await storage.readSessionMeta()).map((e) => e.id)).toEqual(["m1", "m2", "m3"]);
+        expect((await storage.readSessionMeta({ sessionName: "awm-a" })).map((e) => e.id)).toEqual(["m1", "m3"]);
+        expect((await storage.readSessionMeta({ launchId: "launch_1" })).map((e) => e.id)).toEqual(["m2"]);
+        expect((await storage.readSessionMeta({ tag: "fix", since: "2024-05-01T10:00:00Z" })).map((e) => e.id)).toEqual(["m3"]);
+        expect((await storage.readSessionMeta())[2]).toEqual(meta[2]);
+
+        const updated = await Promise.all(["s3", "s4"].map((agentSessionId, i) =>
+          storage.updateSessionMeta("awm-b", (latest) => ({
+            ...latest!,
+            id: `m${4 + i}`,
+            timestamp: `2024-05-01T15:0${i}:00.000Z`,
+            agentSessionId: [latest?.agentSessionId, agentSessionId].filter(Boolean).join(","),
+          }))
+        ));
+        expect(updated.map(({ entry }) => entry.agentSessionId)).toEqual(["s3", "s3,s4"]);
+        expect((await storage.readSessionMeta({ sessionName: "awm-b" })).at(-1)).toMatchObject({ tag: "docs", launchId: "launch_1" });
+        await expect(storage.queryHooks({ since: "yesterday-ish" })).rejects.toThrow('Invalid since time "yesterday-ish"');
+      } finally {
+        storage.close();
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  }
+
+  for (const backend of ["jsonl", "sqlite"] as const) {
+    test(`${backend} backend searches by cwd and text, a page at a time`, async () => {
+      const dir = mkdtempSync(join(tmpdir(), "awm-storage-"));
+      const storage = backend === "sqlite" ? createSqliteStorage(getSqliteFile(dir)) : createJsonlStorage(dir);
+      try {
+        const cwds = ["/src/app", "/src/app/lib", "/src/app2", "/src/app", "/tmp"];
+        for (let i = 0; i < 5; i++) {
+          await storage.appendHook(hook(`h${i}`, `2024-05-01T1${i}:00:00.000Z`, "PreToolUse",
+            { tool_name: "Bash", cwd: cwds[i], tool_input: { command: i % 2 ? "npm test" : "git status" } }));
+        }
+        const ids = (page: HookPage) => page.hooks.map((h) => h.id);
+
+        const search = parseHookSearch({ cwd: "/src/app/", limit: "2" });
+        const first = await searchHooks(storage, search.query, search.limit);
+        expect(ids(first)).toEqual(["h1", "h3"]);
+        const second = await searchHooks(storage, parseHookSearch({ cwd: "/src/app", limit: "2", cursor: first.nextCursor }).query, 2);
+        expect(ids(second)).toEqual(["h0"]);
+        expect(second.nextCursor).toBeUndefined();
+
+        const text = parseHookSearch({ q: "NPM Test", since: "2024-05-01T11:30:00Z" });
+        expect(ids(await searchHooks(storage, text.query, text.limit))).toEqual(["h3"]);
+        expect(ids(await searchHooks(storage, { cwd: "/" }, 10))).toEqual(["h0", "h1", "h2", "h3", "h4"]);
+      } finally {
+        storage.close();
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  }
+
+  test("parseHookSearch reads GET /hooks params", () => {
+    const now = Date.parse("2024-05-02T00:00:00.000Z");
+    expect(parseTimeBound("12h", "since", now)).toBe("2024-05-01T12:00:00.000Z");
+    expect(parseTimeBound("2024-05-01", "since", now)).toBe("2024-05-01T00:00:00.000Z");
+
+    const cursor = encodeHookCursor({ timestamp: "2024-05-01T10:00:00.000Z", id: "hook_1" });
+    expect(decodeHookCursor(cursor)).toEqual({ timestamp: "2024-05-01T10:00:00.000Z", id: "hook_1" });
+    expect(parseHookSearch({ event: "PreToolUse, Stop", tool: "Bash", session_id: "s1", cursor, limit: "5" })).toEqual({
+      query: { events: ["PreToolUse", "Stop"], toolName: "Bash", sessionId: "s1", before: decodeHookCursor(cursor) },
+      limit: 5,
+    });
+    expect(parseHookSearch({}).limit).toBe(50);
+    expect(() => parseHookSearch({ limit: "0" })).toThrow("limit must be a positive integer");
+    expect(() => parseHookSearch({ until: "soon" })).toThrow('Invalid until time "soon"');
+    expect(() => parseHookSearch({ cursor: "nope" })).toThrow('Invalid cursor "nope"');
+  });
+
+  test("importJsonlToSqlite backfills once and openStorage follows config.json", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-storage-"));
+    try {
+      const jsonl = createJsonlStorage(dir);
+      for (const entry of meta) await jsonl.appendSessionMeta(entry);
+      for (const entry of hooks) await jsonl.appendHook(entry);
+
+      const first = await importJsonlToSqlite(dir);
+      expect(first.hooks).toEqual({ read: 4, added: 4 });
+      expect(first.sessions).toEqual({ read: 3, added: 3 });
+      const again = await importJsonlToSqlite(dir);
+      expect(again.hooks).toEqual({ read: 4, added: 0 });
+
+      expect((await openStorage(dir)).backend).toBe("jsonl");
+      const other = mkdtempSync(join(tmpdir(), "awm-storage-"));
+      try {
+        writeFileSync(join(other, "config.json"), JSON.stringify({ storage: "mongo" }));
+        await expect(openStorage(other)).rejects.toThrow("storage must be one of: jsonl, sqlite");
+        writeFileSync(join(other, "config.json"), JSON.stringify({ storage: "sqlite" }));
+        const storage = await openStorage(other);
+        expect(storage.backend).toBe("sqlite");
+        storage.close();
+      } finally {
+        rmSync(other, { recursive: true, force: true });
+      }
+
+      const sqlite = createSqliteStorage(first.file);
+      try {
+        expect((await sqlite.queryHooks({ tag: "fix" })).map((h) => h.id)).toEqual(["h1", "h2"]);
+        expect(await sqlite.readSessionMeta()).toEqual(meta);
+      } finally {
+        sqlite.close();
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("correlate", () => {
+  const entries: SessionMetaEntry[] = [
+    { id: "s1", timestamp: "2024-01-01T00:00:00Z", sessionName: "awm-claude-a", cwd: "/repo", source: "launch" },
+    { id: "s2", timestamp: "2024-01-01T01:00:00Z", sessionName: "awm-claude-b", cwd: "/repo", source: "launch" },
+    { id: "s3", timestamp: "2024-01-01T02:00:00Z", sessionName: "awm-claude-a", cwd: "/repo", agentSessionId: "sid-a", source: "watch" },
+    { id: "s4", timestamp: "2024-01-01T03:00:00Z", sessionName: "awm-claude-a-done", renamedFrom: "awm-claude-a", agentSessionId: "sid-a", status: "done", source: "watch" },
+  ];
+
+  test("buildSessionIdMap follows renames", () => {
+    expect(buildSessionIdMap(entries.slice(0, 3)).get("sid-a")).toBe("awm-claude-a");
+    expect(buildSessionIdMap(entries).get("sid-a")).toBe("awm-claude-a-done");
+  });
+
+  test("getSessionAliases includes previous names", () => {
+    expect(getSessionAliases("awm-claude-a-done", entries)).toEqual(["awm-claude-a-done", "awm-claude-a"]);
+  });
+
+  test("correlateHook prefers the session header", () => {
+    const name = correlateHook({ session_id: "sid-x", cwd: "/repo" }, "2024-01-02T00:00:00Z", {
+      headerSession: "awm-codex-z",
+      sessionIds: new Map(),
+      metaEntries: entries,
+    });
+    expect(name).toBe("awm-codex-z");
+  });
+
+  test("correlateHook falls back to the latest unclaimed session in the same cwd", () => {
+    const sessionIds = new Map([["sid-a", "awm-claude-a"]]);
+    const name = correlateHook({ session_id: "sid-b", cwd: "/repo" }, "2024-01-01T01:30:00Z", {
+      sessionIds,
+      metaEntries: entries.slice(0, 3),
+    });
+    expect(name).toBe("awm-claude-b");
+
+    const unknown = correlateHook({ session_id: "sid-c", cwd: "/elsewhere" }, "2024-01-01T01:30:00Z", {
+      sessionIds,
+      metaEntries: entries.slice(0, 3),
+    });
+    expect(unknown).toBeUndefined();
+  });
+
+  test("hookBelongsToSession matches by session name or session_id", () => {
+    const sessionIds = new Map([["sid-a", "awm-claude-a"]]);
+    const tagged = { id: "h1", timestamp: "", event: "Stop", payload: {}, sessionName: "awm-claude-a" };
+    const untagged = { id: "h2", timestamp: "", event: "Stop", payload: { session_id: "sid-a" } };
+    expect(hookBelongsToSession(tagged, ["awm-claude-a"], sessionIds)).toBe(true);
+    expect(hookBelongsToSession(untagged, ["awm-claude-a"], sessionIds)).toBe(true);
+    expect(hookBelongsToSession(untagged, ["awm-claude-b"], sessionIds)).toBe(false);
+  });
+});
+
+describe("events", () => {
+  test("diffSessions reports created, done and killed sessions", () => {
+    const metaMap = buildSessionMetaMap([
+      { id: "s1", timestamp: "2024-01-01T00:00:00Z", sessionName: "awm-a-done", renamedFrom: "awm-a", status: "done", source: "watch" },
+    ]);
+    const prev = snapshotSessions(["awm-a", "awm-b"], new Map());
+    const next = snapshotSessions(["awm-a-done", "awm-c"], metaMap);
+    const events = diffSessions(prev, next, metaMap, "t");
+
+    expect(events.map((e) => [e.action, e.sessionName, e.previousName])).toEqual([
+      ["done", "awm-a-done", "awm-a"],
+      ["created", "awm-c", undefined],
+      ["killed", "awm-b", undefined],
+    ]);
+    expect(diffSessions(next, next, metaMap)).toEqual([]);
+  });
+
+  test("matchesEventFilter filters by type, event and session prefix", () => {
+    const hook: WatchEvent = {
+      type: "hook",
+      timestamp: "t",
+      hook: { id: "h1", timestamp: "t", event: "pre-tool-use", payload: {}, sessionName: "awm-claude-a" },
+    };
+    const killed: WatchEvent = { type: "session", timestamp: "t", action: "killed", sessionName: "other" };
+
+    expect(matchesEventFilter(hook, parseEventFilter({ event: "PreToolUse" }))).toBe(true);
+    expect(matchesEventFilter(hook, parseEventFilter({ session: "awm-claude" }))).toBe(true);
+    expect(matchesEventFilter(hook, parseEventFilter({ type: "session" }))).toBe(false);
+    expect(matchesEventFilter(killed, parseEventFilter({ type: "session", event: "killed,created" }))).toBe(true);
+    expect(matchesEventFilter(killed, parseEventFilter({ session: "awm" }))).toBe(false);
+  });
+
+  test("event bus delivers to subscribers until they unsubscribe", () => {
+    const bus = createEventBus();
+    const ids: number[] = [];
+    const unsubscribe = bus.subscribe((_event, id) => ids.push(id));
+    const event: WatchEvent = { type: "session", timestamp: "t", action: "created", sessionName: "a" };
+
+    bus.publish(event);
+    unsubscribe();
+    bus.publish(event);
+    expect(ids).toEqual([1]);
+    expect(bus.size()).toBe(0);
+  });
+
+  test("parseSSEFrame reads data lines and skips comments", () => {
+    expect(parseSSEFrame(": keepalive")).toBeUndefined();
+    const frame = 'id: 3\nevent: session\ndata: {"type":"session","action":"killed","sessionName":"a","timestamp":"t"}';
+    expect(parseSSEFrame(frame)).toEqual({ type: "session", action: "killed", sessionName: "a", timestamp: "t" });
+  });
+});
+
+describe("worktree", () => {
+  test("createWorktree adds a branch per session and removeWorktree cleans it up", async () => {
+    const root = mkdtempSync(join(tmpdir(), "awm-worktree-"));
+    try {
+      const repo = join(root, "repo");
+      mkdirSync(join(repo, "pkg"), { recursive: true });
+      await runGit(["init", "-q"], repo);
+      await runGit(["-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-q", "--allow-empty", "-m", "init"], repo);
+
+      const { worktree, cwd } = await createWorktree(join(repo, "pkg"), "awm-claude-x", join(root, "data"));
+      expect(worktree.branch).toBe(worktreeBranchName("awm-claude-x"));
+      expect(worktree.path).toBe(join(root, "data", "worktrees", "awm-claude-x"));
+      expect(cwd).toBe(join(worktree.path, "pkg"));
+      expect(worktree.baseRef).toBe(await runGit(["rev-parse", "HEAD"], repo));
+
+      const result = await removeWorktree(worktree, { deleteBranch: true });
+      expect(result).toEqual({ removedPath: true, deletedBranch: true });
+      expect(existsSync(worktree.path)).toBe(false);
+      expect(await runGit(["branch", "--list", worktree.branch], repo)).toBe("");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test("createWorktree starts a dependent from its dependencies' work, committed or not", async () => {
+    const root = mkdtempSync(join(tmpdir(), "awm-worktree-"));
+    try {
+      const repo = join(root, "repo");
+      const dataDir = join(root, "data");
+      mkdirSync(repo);
+      await runGit(["init", "-q"], repo);
+      await runGit(["config", "user.name", "test"], repo);
+      await runGit(["config", "user.email", "test@example.com"], repo);
+      writeFileSync(join(repo, "app.txt"), "base\n");
+      await runGit(["add", "-A"], repo);
+      await runGit(["commit", "-q", "-m", "init"], repo);
+
+      const schema = (await createWorktree(repo, "awm-schema", dataDir)).worktree;
+      writeFileSync(join(schema.path, "schema.txt"), "tables\n");
+      await runGit(["add", "-A"], schema.path);
+      await runGit(["commit", "-q", "-m", "schema"], schema.path);
+      const docs = (await createWorktree(repo, "awm-docs", dataDir)).worktree;
+      writeFileSync(join(docs.path, "docs.txt"), "draft\n");
+
+      const dependencies = [{ taskId: "schema", worktree: schema }, { taskId: "docs", worktree: docs }];
+      const { worktree } = await createWorktree(repo, "awm-api", dataDir, dependencies);
+      expect(readFileSync(join(worktree.path, "schema.txt"), "utf8")).toBe("tables\n");
+      expect(readFileSync(join(worktree.path, "docs.txt"), "utf8")).toBe("draft\n");
+      expect(worktree.baseRef).toBe(await runGit(["rev-parse", "HEAD"], worktree.path));
+      // The uncommitted dependency is untouched
+      expect(await runGit(["status", "--porcelain"], docs.path)).toBe("?? docs.txt");
+      expect(await runGit(["rev-parse", docs.branch], repo)).toBe(docs.baseRef);
+
+      writeFileSync(join(schema.path, "app.txt"), "schema\n");
+      writeFileSync(join(docs.path, "app.txt"), "docs\n");
+      await expect(createWorktree(repo, "awm-clash", dataDir, dependencies)).rejects.toThrow("conflicting changes");
+      expect(existsSync(join(dataDir, "worktrees", "awm-clash"))).toBe(false);
+      expect(await runGit(["branch", "--list", worktreeBranchName("awm-clash")], repo)).toBe("");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("compare", () => {
+  test("parseNumstat totals insertions and deletions", () => {
+    const stats = parseNumstat("3\t1\tsrc/a.ts\n-\t-\timage.png\n10\t0\tsrc/b.ts\n");
+    expect(stats.files.map((f) => f.path)).toEqual(["src/a.ts", "image.png", "src/b.ts"]);
+    expect(stats.insertions).toBe(13);
+    expect(stats.deletions).toBe(1);
+  });
+
+  test("selectComparedSessions matches tag or launch id and follows renames", () => {
+    const entries: SessionMetaEntry[] = [
+      { id: "s1", timestamp: "t", sessionName: "awm-claude-a", tag: "fix", launchId: "launch_1", source: "launch" },
+      { id: "s2", timestamp: "t", sessionName: "awm-codex-b", tag: "fix", launchId: "launch_1", source: "launch" },
+      { id: "s3", timestamp: "t", sessionName: "awm-claude-c", launchId: "launch_2", source: "launch" },
+      { id: "s4", timestamp: "t", sessionName: "awm-claude-a-done", renamedFrom: "awm-claude-a", tag: "fix", launchId: "launch_1", status: "done", source: "watch" },
+      { id: "s5", timestamp: "t", sessionName: "awm-review-x", tag: "fix", launchId: "launch_1", status: "done", source: "review" },
+    ];
+    expect(selectComparedSessions("fix", entries)).toEqual(["awm-claude-a-done", "awm-codex-b"]);
+    expect(selectComparedSessions("launch_2", entries)).toEqual(["awm-claude-c"]);
+  });
+
+  test("renderers include every session", () => {
+    const report: CompareReport = {
+      key: "fix",
+      prompt: "Fix the bug",
+      sharedCheckout: false,
+      generatedAt: "2024-01-01T00:00:00Z",
+      rows: [
+        {
+          sessionName: "awm-claude-a",
+          agent: "claude",
+          status: "done",
+          startedAt: "2024-01-01T00:00:00Z",
+          durationSeconds: 125,
+          diff: { files: [{ path: "a.ts", insertions: 4, deletions: 2 }], insertions: 4, deletions: 2 },
+          toolCalls: 12,
+          failures: 1,
+          hooks: 30,
+          lastOutput: [],
+        },
+        {
+          sessionName: "awm-codex-b",
+          agent: "codex",
+          status: "running",
+          startedAt: "2024-01-01T00:00:00Z",
+          durationSeconds: 40,
+          toolCalls: 0,
+          failures: 0,
+          hooks: 0,
+          lastOutput: ["All tests pass"],
+        },
+      ],
+    };
+
+    const table = renderCompareTable(report);
+    expect(table).toContain("awm-claude-a  claude  done     2m05s     1      +4/-2  12     1");
+    expect(table).toContain("All tests pass");
+
+    const md = renderCompareMarkdown(report);
+    expect(md).toContain("| awm-codex-b | codex | running | 40s | - | - | 0 | 0 |");
+    expect(md).toContain("- `a.ts` +4/-2");
+  });
+});
+
+describe("agents", () => {
+  const registry = buildAgentRegistry({
+    agents: {
+      aider: { command: "/usr/local/bin/aider", promptFlag: "--message", processNames: ["aider"] },
+      Gemini: { defaultFlags: ["--yolo"] },
+    },
+  });
+
+  test("buildAgentRegistry merges config agents over built-ins", () => {
+    expect(Object.keys(registry)).toEqual(["claude", "codex", "gemini", "aider"]);
+    expect(registry.gemini).toMatchObject({ command: "gemini", defaultFlags: ["--yolo"], hookAdapter: "gemini" });
+    expect(registry.aider?.promptFlag).toBe("--message");
+    expect(buildAgentRegistry()).toEqual(BUILTIN_AGENTS);
+  });
+
+  test("buildAgentRegistry rejects agents without a command or with bad names", () => {
+    expect(() => buildAgentRegistry({ agents: { aider: { defaultFlags: [] } } })).toThrow(/needs a "command"/);
+    expect(() => buildAgentRegistry({ agents: { "bad name": { command: "x" } } })).toThrow(/Invalid agent name/);
+  });
+
+  test("parseAgentList separates unknown names", () => {
+    expect(parseAgentList("claude, AIDER,foo,constructor", registry)).toEqual({
+      agents: ["claude", "aider"],
+      unknown: ["foo", "constructor"],
+    });
+  });
+
+  test("parseAgentFlagOptions parses NAME=FLAGS", () => {
+    expect(parseAgentFlagOptions(["aider=--yes --no-git", "claude="], registry)).toEqual({
+      aider: "--yes --no-git",
+      claude: "",
+    });
+    expect(() => parseAgentFlagOptions(["--yes"], registry)).toThrow(/NAME=FLAGS/);
+    expect(() => parseAgentFlagOptions(["foo=--yes"], registry)).toThrow(/unknown agent/);
+  });
+
+  test("matchAgentProcess matches command names and script paths", () => {
+    expect(matchAgentProcess("aider", "aider --message hi", registry)).toBe("aider");
+    expect(matchAgentProcess("node", "node /opt/bin/claude --resume", registry)).toBe("claude");
+    expect(matchAgentProcess("zsh", "-zsh", registry)).toBeUndefined();
+    expect(getAgentCommands(registry)).toEqual(new Set(["node", "bun", "claude", "codex", "gemini", "aider"]));
+  });
+
+  test("adaptHookEvent maps events and session ids", () => {
+    const gemini = adaptHookEvent(getHookAdapter(registry.gemini), "BeforeTool", {
+      hook_event_name: "BeforeTool",
+      tool_name: "run_shell_command",
+    });
+    expect(gemini.event).toBe("PreToolUse");
+    expect(gemini.payload.hook_event_name).toBe("PreToolUse");
+
+    const codex = adaptHookEvent(getHookAdapter(registry.codex), "notify", {
+      type: "agent-turn-complete",
+      "thread-id": "t-1",
+    });
+    expect(codex.event).toBe("Stop");
+    expect(codex.payload.session_id).toBe("t-1");
+
+    const claude = adaptHookEvent(getHookAdapter(registry.claude), "pre-tool-use", { session_id: "s" });
+    expect(claude).toEqual({ event: "pre-tool-use", payload: { session_id: "s" } });
+  });
+});
+
+describe("completion", () => {
+  const launchedAt = "2024-01-01T00:00:00.000Z";
+  const meta = (sessionName: string, extra: Partial<SessionMetaEntry> = {}): SessionMetaEntry => ({
+    id: `sess_${sessionName}`,
+    timestamp: launchedAt,
+    sessionName,
+    ...extra,
+  });
+  const hook = (event: string, timestamp: string, extra: Partial<HookEntry> = {}): HookEntry => ({
+    id: `hook_${event}_${timestamp}`,
+    timestamp,
+    event,
+    payload: {},
+    ...extra,
+  });
+
+  test("parseCompletionMode accepts known modes", () => {
+    expect(parseCompletionMode("Marker")).toBe("marker");
+    expect(parseCompletionMode("any")).toBe("any");
+    expect(parseCompletionMode("later")).toBeUndefined();
+  });
+
+  test("getMarkerPath keeps default markers under the data dir and resolves markerFile against the task cwd", () => {
+    expect(getMarkerPath("/data/", "awm-claude-task_1", "/repo")).toBe("/data/markers/awm-claude-task_1.done");
+    expect(getMarkerPath("/data", "awm-claude-task_1", "/repo/sub", "../done.txt")).toBe("/repo/done.txt");
+  });
+
+  test("findStopHook matches correlated Stop/SessionEnd hooks after launch", () => {
+    const entries = [
+      meta("awm-claude-a", { agentSessionId: "sid-a" }),
+      meta("awm-claude-a-done", { renamedFrom: "awm-claude-a", status: "done" }),
+    ];
+    const target = { sessionName: "awm-claude-a", launchedAt };
+
+    expect(findStopHook(target, entries, [
+      hook("Stop", "2023-12-31T23:59:59.000Z", { sessionName: "awm-claude-a" }),
+      hook("PreToolUse", "2024-01-01T00:00:01.000Z", { sessionName: "awm-claude-a" }),
+      hook("Stop", "2024-01-01T00:00:02.000Z", { sessionName: "awm-codex-b" }),
+    ])).toBeUndefined();
+
+    const bySessionId = hook("session-end", "2024-01-01T00:00:03.000Z", { payload: { session_id: "sid-a" } });
+    expect(findStopHook(target, entries, [bySessionId])).toBe(bySessionId);
+
+    const afterRename = hook("Stop", "2024-01-01T00:00:04.000Z", { sessionName: "awm-claude-a-done" });
+    expect(findStopHook(target, entries, [afterRename])).toBe(afterRename);
+  });
+
+  test("checkCompletion only accepts the task's own signal unless mode is any", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-completion-"));
+    try {
+      const markerPath = join(dir, "task_1.done");
+      const target = (mode: CompletionTarget["mode"]): CompletionTarget => ({
+        sessionName: "awm-claude-a",
+        mode,
+        launchedAt,
+        markerPath,
+      });
+      const done = { metaEntries: [meta("awm-claude-a", { status: "done" })], hooks: [] };
+      const stopped = {
+        metaEntries: [meta("awm-claude-a")],
+        hooks: [hook("Stop", "2024-01-01T00:00:01.000Z", { sessionName: "awm-claude-a" })],
+      };
+
+      expect(await checkCompletion(target("done"), done)).toBe("marked-done");
+      expect(await checkCompletion(target("marker"), done)).toBeUndefined();
+      expect(await checkCompletion(target("stop"), stopped)).toBe("stop-hook");
+      expect(await checkCompletion(target("done"), stopped)).toBeUndefined();
+
+      writeFileSync(markerPath, "");
+      expect(await checkCompletion(target("marker"), stopped)).toBe("marker");
+      expect(await checkCompletion(target("any"), stopped)).toBe("marker");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("runs", () => {
+  const plan: OrchestrationPlan = {
+    id: "plan_test",
+    originalPrompt: "build it",
+    decomposedAt: "2024-01-01T00:00:00.000Z",
+    orchestratorAgent: "claude",
+    tasks: [
+      { id: "a", description: "a", agent: "claude", prompt: "a", dependencies: [] },
+      { id: "b", description: "b", agent: "codex", prompt: "b", dependencies: ["a"] },
+      { id: "c", description: "c", agent: "claude", prompt: "c", dependencies: [] },
+    ],
+  };
+  const options = { cwd: "/repo", prefix: "awm", worktree: false, completion: "any" as const, agentFlags: {} };
+
+  test("getRunFile keeps plan ids to one path segment", () => {
+    expect(getRunFile("/data/", "plan_x")).toBe("/data/runs/plan_x.json");
+    expect(getRunFile("/data", "../evil")).toBe("/data/runs/.._evil.json");
+  });
+
+  test("readyTasks follows task status and dependencies", () => {
+    const run = createRun(plan, options);
+    expect(readyTasks(run)).toEqual(["a", "c"]);
+
+    updateTaskState(run, "a", { status: "running", sessionName: "awm-claude-a" });
+    updateTaskState(run, "c", { status: "failed", error: "boom" });
+    expect(readyTasks(run)).toEqual([]);
+
+    updateTaskState(run, "a", { status: "completed" });
+    expect(readyTasks(run)).toEqual(["b"]);
+    expect(run.tasks.a.sessionName).toBe("awm-claude-a");
+
+    // Queued tasks go ahead of newly ready ones
+    updateTaskState(run, "c", { status: "queued" });
+    expect(readyTasks(run)).toEqual(["c", "b"]);
+  });
+
+  test("readyTasks lets dependents of a failed task run only with onFailure continue", () => {
+    const run = createRun(plan, options);
+    updateTaskState(run, "a", { status: "failed", error: "boom" });
+    expect(readyTasks(run)).toEqual(["c"]);
+    updateTaskState(run, "a", { ignoreFailure: true });
+    expect(readyTasks(run)).toEqual(["b", "c"]);
+  });
+
+  test("waitReason keeps --wait polling until a failing leaf task is final", () => {
+    const leaf: OrchestrationPlan = { ...plan, tasks: [plan.tasks[0]] };
+    const run = createRun(leaf, options);
+    updateTaskState(run, "a", { status: "running", sessionName: "awm-claude-a" });
+    // Without --wait a running leaf is left to itself; with it, orchestrate stays to detect failures
+    expect(waitReason(run, false)).toBeUndefined();
+    expect(waitReason(run, true)).toBe("running");
+
+    // A non-zero exit with retries left puts the task back to pending for another attempt
+    updateTaskState(run, "a", { status: "pending", attempt: 2, failures: ["attempt 1 (claude): agent exited with code 3"] });
+    expect(waitReason(run, false)).toBe("retries");
+    expect(waitReason(run, true)).toBe("retries");
+
+    updateTaskState(run, "a", { status: "failed", error: "agent exited with code 3" });
+    expect(waitReason(run, true)).toBeUndefined();
+  });
+
+  test("waitReason puts dependencies and queued tasks first and stops on abort", () => {
+    const run = createRun(plan, options);
+    updateTaskState(run, "a", { status: "running" });
+    updateTaskState(run, "c", { status: "queued" });
+    expect(waitReason(run, true)).toBe("dependencies");
+    expect(waitReason(run, false)).toBe("queued");
+    run.abortedBy = "a";
+    expect(waitReason(run, true)).toBeUndefined();
+  });
+
+  test("formatRunSummary reports each task's outcome and earlier attempts", () => {
+    const run = createRun(plan, options);
+    updateTaskState(run, "a", {
+      status: "failed",
+      error: "agent exited with code 1",
+      attempt: 2,
+      agent: "codex",
+      failures: ["attempt 1 (claude): timed out after 60s"],
+    });
+    updateTaskState(run, "b", { status: "skipped", error: "run aborted (a failed)" });
+    updateTaskState(run, "c", { status: "completed", signal: "stop-hook" });
+    run.abortedBy = "a";
+    expect(formatRunSummary(run)).toEqual([
+      "Run summary: 1 completed, 1 failed, 1 skipped (aborted after a failed)",
+      "  [a] failed    codex, 2 attempts - agent exited with code 1",
+      "      attempt 1 (claude): timed out after 60s",
+      "  [b] skipped   codex - run aborted (a failed)",
+      "  [c] completed claude - Stop hook",
+    ]);
+  });
+
+  test("formatRunSummary marks a run with running tasks as still in progress", () => {
+    const run = createRun(plan, options);
+    updateTaskState(run, "a", { status: "running", sessionName: "awm-claude-a" });
+    updateTaskState(run, "c", { status: "completed", signal: "exit" });
+    expect(formatRunSummary(run)[0]).toBe("Run summary: 1 pending, 1 running, 1 completed - still in progress");
+  });
+
+  test("taskCompletionTarget needs a launched task", () => {
+    expect(taskCompletionTarget({ status: "pending" })).toBeUndefined();
+    expect(taskCompletionTarget({
+      status: "running",
+      sessionName: "awm-claude-a",
+      completion: "stop",
+      markerPath: "/data/markers/awm-claude-a.done",
+      launchedAt: "2024-01-01T00:00:00.000Z",
+    })).toEqual({
+      sessionName: "awm-claude-a",
+      mode: "stop",
+      markerPath: "/data/markers/awm-claude-a.done",
+      launchedAt: "2024-01-01T00:00:00.000Z",
+    });
+  });
+
+  test("timedOutTasks finds running tasks past their timeoutSeconds", () => {
+    const timed = { ...plan, tasks: plan.tasks.map((t) => t.id === "b" ? t : { ...t, timeoutSeconds: 60 }) };
+    const run = createRun(timed, options);
+    const launchedAt = "2024-01-01T00:00:00.000Z";
+    updateTaskState(run, "a", { status: "running", launchedAt });
+    updateTaskState(run, "c", { status: "completed", launchedAt });
+    const start = Date.parse(launchedAt);
+    expect(timedOutTasks(run, start + 59_000)).toEqual([]);
+    expect(timedOutTasks(run, start + 60_000)).toEqual(["a"]);
+  });
+
+  test("saved runs load back, with the latest save winning", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-runs-"));
+    try {
+      expect(await loadRun(dir, plan.id)).toBeUndefined();
+
+      const run = createRun(plan, options);
+      const save = createRunSaver(dir, run);
+      updateTaskState(run, "a", { status: "running" });
+      const first = save();
+      updateTaskState(run, "a", { status: "completed" });
+      await Promise.all([first, save()]);
+
+      const loaded = await loadRun(dir, plan.id);
+      expect(loaded?.tasks.a.status).toBe("completed");
+      expect(loaded?.plan.tasks.map((t) => t.id)).toEqual(["a", "b", "c"]);
+      expect(loaded?.options.cwd).toBe("/repo");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("plan", () => {
+  const task = (id: string, dependencies: string[] = []) => ({ id, description: id, agent: "claude", prompt: id, dependencies });
+
+  test("parsePlan accepts task arrays and full plans", () => {
+    const registry = buildAgentRegistry();
+    const fromArray = parsePlan([{ prompt: "a", agent: "Codex" }, { prompt: "b", agent: "claude", dependencies: ["task_1"] }], "", registry);
+    expect(fromArray.originalPrompt).toBe("plan-file");
+    expect(fromArray.tasks.map((t) => [t.id, t.agent])).toEqual([["task_1", "codex"], ["task_2", "claude"]]);
+
+    const full = parsePlan({ id: "plan_x", tasks: [{ id: "a", prompt: "a", agent: "gemini" }] }, "fallback", registry);
+    expect(full.id).toBe("plan_x");
+    expect(full.originalPrompt).toBe("fallback");
+
+    expect(() => parsePlan([{ prompt: "a", agent: "nope" }], "", registry)).toThrow(/invalid agent/);
+    expect(() => parsePlan([{ prompt: "a", agent: "claude", completion: "soon" as never }], "", registry)).toThrow(/invalid completion/);
+  });
+
+  test("parsePlan keeps and checks per-task launch options", () => {
+    const registry = buildAgentRegistry();
+    const plan = parsePlan([{
+      prompt: "a",
+      agent: "claude",
+      cwd: "../api",
+      flags: ["--permission-mode", "plan"],
+      env: { API_URL: "http://localhost" },
+      timeoutSeconds: 600,
+      tag: " risky ",
+    }, { prompt: "b", agent: "codex", flags: [] }], "", registry);
+    expect(plan.tasks[0]).toMatchObject({
+      cwd: "../api",
+      flags: ["--permission-mode", "plan"],
+      env: { API_URL: "http://localhost" },
+      timeoutSeconds: 600,
+      tag: "risky",
+    });
+    expect(Object.keys(plan.tasks[1])).toEqual(["id", "description", "agent", "prompt", "dependencies"]);
+
+    expect(() => parsePlan([{ prompt: "a", agent: "claude", flags: "--yolo" as never }], "", registry)).toThrow("Task 1 flags must be an array of strings");
+    expect(() => parsePlan([{ prompt: "a", agent: "claude", env: { N: 1 } as never }], "", registry)).toThrow(/env must map/);
+    expect(() => parsePlan([{ prompt: "a", agent: "claude", timeoutSeconds: 0 }], "", registry)).toThrow(/timeoutSeconds/);
+    expect(checkTaskOptions({ cwd: "", tag: 3 })).toEqual(["cwd must be a non-empty path", "tag must be a string"]);
+  });
+
+  test("parsePlan keeps plan and task failure policies", () => {
+    const registry = buildAgentRegistry();
+    const plan = parsePlan({
+      onFailure: { then: "continue" },
+      tasks: [{ prompt: "a", agent: "claude", onFailure: { retries: 2, retryAgent: "Codex" } }],
+    }, "", registry);
+    expect(plan.onFailure).toEqual({ then: "continue" });
+    expect(plan.tasks[0].onFailure).toEqual({ retries: 2, retryAgent: "codex" });
+
+    expect(() => parsePlan([{ prompt: "a", agent: "claude", onFailure: { retryAgent: "nope" } }], "", registry)).toThrow(/Task 1 has invalid retryAgent/);
+    expect(() => parsePlan({ onFailure: { then: "panic" as never }, tasks: [] }, "", registry)).toThrow(/Plan onFailure.then/);
+  });
+
+  test("validatePlan reports duplicates, unknown and self dependencies, and cycles", () => {
+    expect(validatePlan([task("a"), task("b", ["a"])])).toEqual([]);
+    expect(validatePlan([
+      task("a", ["c"]),
+      task("b", ["a"]),
+      task("c", ["b"]),
+      task("d", ["d", "zz"]),
+      task("d"),
+    ])).toEqual([
+      "[d] duplicate task id",
+      "[d] depends on itself",
+      "[d] unknown dependency \"zz\"",
+      "dependency cycle: a -> c -> b -> a",
+    ]);
+  });
+
+  test("validatePlan checks output references", () => {
+    const tasks = [
+      { ...task("a"), artifacts: { sql: "schema.sql" } },
+      task("b", ["a"]),
+      { ...task("c", ["b"]), prompt: "{{a.artifacts.sql}} {{b.summary}} {{a.nope}} {{a.artifacts.other}} {{d.diff}}" },
+      task("d"),
+    ];
+    expect(validatePlan(tasks)).toEqual([
+      "[c] unknown output {{a.nope}} (use summary, diff, last_output, artifacts.NAME)",
+      "[c] {{a.artifacts.other}}: a declares no artifact \"other\"",
+      "[c] {{d.diff}} refers to a task it does not depend on",
+    ]);
+  });
+
+  test("findDependencyCycles reports each cycle once", () => {
+    expect(findDependencyCycles([task("a", ["b"]), task("b", ["a"]), task("c", ["a", "b"])])).toEqual([["a", "b", "a"]]);
+    expect(findDependencyCycles([task("a"), task("b", ["a"])])).toEqual([]);
+  });
+
+  test("computeWaves and findCriticalPath follow dependency depth", () => {
+    const tasks = [task("a"), task("b", ["a"]), task("c", ["a"]), task("d", ["b", "c"]), task("e")];
+    expect(computeWaves(tasks)).toEqual([["a", "e"], ["b", "c"], ["d"]]);
+    expect(findCriticalPath(tasks)).toEqual(["a", "b", "d"]);
+    expect(findCriticalPath([])).toEqual([]);
+  });
+});
+
+describe("outputs", () => {
+  const ids = ["task_1", "task_2", "schema"];
+
+  test("parseTemplateRefs finds task output references only", () => {
+    const { refs, invalid } = parseTemplateRefs(
+      "Use {{task_1.summary}} and {{ schema.artifacts.sql }}, not {{user.name}} or {{task_2.bogus}}",
+      ids
+    );
+    expect(refs.map((r) => [r.taskId, r.field, r.artifact])).toEqual([
+      ["task_1", "summary", undefined],
+      ["schema", "artifact", "sql"],
+    ]);
+    expect(invalid).toEqual(["{{task_2.bogus}}"]);
+  });
+
+  test("requiredOutputs groups references by upstream task", () => {
+    const required = requiredOutputs([
+      { id: "task_1", description: "a", agent: "claude", prompt: "a" },
+      { id: "task_2", description: "b", agent: "claude", prompt: "{{task_1.diff}} {{task_1.last_output}}", dependencies: ["task_1"] },
+    ]);
+    expect([...required.keys()]).toEqual(["task_1"]);
+    expect(required.get("task_1")?.map((r) => r.field)).toEqual(["diff", "last_output"]);
+  });
+
+  test("renderTaskPrompt substitutes captured outputs and reports missing ones", () => {
+    const result = renderTaskPrompt(
+      "Summary: {{task_1.summary}}\nSQL: {{schema.artifacts.sql}}\nDiff: {{task_1.diff}}\nAgain: {{task_1.summary}}",
+      ids,
+      {
+        task_1: { capturedAt: "t", summary: "did it" },
+        schema: { capturedAt: "t", artifacts: { sql: "CREATE TABLE x;" } },
+      }
+    );
+    expect(result.prompt).toBe("Summary: did it\nSQL: CREATE TABLE x;\nDiff: \nAgain: did it");
+    expect(result.missing).toEqual(["{{task_1.diff}}"]);
+  });
+
+  test("renderTaskPrompt leaves references inside substituted outputs alone", () => {
+    const result = renderTaskPrompt(
+      "A: {{task_1.summary}} B: {{schema.summary}}",
+      ids,
+      {
+        task_1: { capturedAt: "t", summary: "docs mention {{schema.summary}}" },
+        schema: { capturedAt: "t", summary: "BBB" },
+      }
+    );
+    expect(result.prompt).toBe("A: docs mention {{schema.summary}} B: BBB");
+  });
+
+  test("summaries come from Stop payloads or the transcript", async () => {
+    expect(summaryFromPayload({ last_assistant_message: " Done. " })).toBe("Done.");
+    expect(summaryFromPayload({ "last-assistant-message": "codex done" })).toBe("codex done");
+    expect(summaryFromPayload({ stop_hook_active: false })).toBeUndefined();
+
+    const dir = mkdtempSync(join(tmpdir(), "awm-outputs-"));
+    try {
+      const transcript = join(dir, "t.jsonl");
+      writeFileSync(transcript, [
+        JSON.stringify({ type: "assistant", message: { content: [{ type: "text", text: "first" }] } }),
+        JSON.stringify({ type: "assistant", message: { content: [{ type: "text", text: "final answer" }, { type: "tool_use" }] } }),
+        JSON.stringify({ type: "user", message: { content: "thanks" } }),
+      ].join("\n"));
+      expect(await readTranscriptSummary(transcript)).toBe("final answer");
+      expect(await readTranscriptSummary(join(dir, "missing.jsonl"))).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("truncateOutput keeps the requested end", () => {
+    expect(truncateOutput("abcdef", "start", 3)).toBe("abc\n[... truncated]");
+    expect(truncateOutput("abcdef", "end", 3)).toBe("[truncated ...]\ndef");
+    expect(truncateOutput("abc", "end", 3)).toBe("abc");
+  });
+});
+
+describe("decompose", () => {
+  const task = (extra: Record<string, unknown> = {}) => ({ description: "d", agent: "claude", prompt: "p", dependencies: [], ...extra });
+
+  test("extractJson accepts bare, fenced and embedded JSON", () => {
+    expect(extractJson('[{"a": 1}]')).toEqual([{ a: 1 }]);
+    expect(extractJson('Plan:\n```json\n{"tasks": []}\n```\nDone')).toEqual({ tasks: [] });
+    expect(extractJson('Here [draft] is it: [{"prompt": "fix ] and ["}] ok')).toEqual([{ prompt: "fix ] and [" }]);
+    expect(extractJson("no json [here")).toBeUndefined();
+  });
+
+  test("parseDecomposition validates the task schema and plan", () => {
+    const ok = parseDecomposition(JSON.stringify({ tasks: [task({ id: "x" }), task({ agent: "Codex", dependencies: ["task_1"] })] }), BUILTIN_AGENTS);
+    expect(ok.errors).toEqual([]);
+    expect(ok.tasks.map((t) => [t.id, t.agent, t.dependencies])).toEqual([["task_1", "claude", []], ["task_2", "codex", ["task_1"]]]);
+
+    const bad = parseDecomposition(JSON.stringify([task({ prompt: "" }), task({ agent: "nope", dependencies: "task_1" }), 3]), BUILTIN_AGENTS);
+    expect(bad.errors).toEqual([
+      'task 1: "prompt" must be a non-empty string',
+      'task 2: "agent" must be one of claude, codex, gemini',
+      'task 2: "dependencies" must be an array of task IDs',
+      "task 3: expected an object",
+    ]);
+    expect(parseDecomposition("[]", BUILTIN_AGENTS).errors).toEqual(["the task array is empty"]);
+    expect(parseDecomposition(JSON.stringify([task({ dependencies: ["task_9"] })]), BUILTIN_AGENTS).errors)
+      .toEqual(['[task_1] unknown dependency "task_9"']);
+  });
+
+  test("parseDecomposition reports launch option problems instead of throwing", () => {
+    const bad = parseDecomposition(JSON.stringify([
+      task({ onFailure: { retries: 1, retryAgent: "nope" } }),
+      task({ artifacts: ["out.txt"] }),
+      task({ markerFile: 3 }),
+    ]), BUILTIN_AGENTS);
+    expect(bad.errors).toEqual([
+      'task 1: "onFailure.retryAgent" must be one of claude, codex, gemini',
+      "task 2: artifacts must map names to file paths",
+      "task 3: markerFile must be a non-empty path",
+    ]);
+    expect(parseDecomposition(JSON.stringify([task({ onFailure: { retryAgent: "Codex" } })]), BUILTIN_AGENTS).tasks[0].onFailure)
+      .toEqual({ retryAgent: "codex" });
+  });
+
+  test("parseOrchestratorSpec accepts agents with printFlags and cmd: commands", () => {
+    expect(parseOrchestratorSpec("Gemini", BUILTIN_AGENTS)).toEqual({ kind: "agent", agent: "gemini" });
+    expect(parseOrchestratorSpec("cmd: ./plan.sh --fast", BUILTIN_AGENTS)).toEqual({ kind: "command", command: "./plan.sh --fast" });
+    expect(() => parseOrchestratorSpec("nope", BUILTIN_AGENTS)).toThrow("Unknown orchestrator");
+    expect(() => parseOrchestratorSpec("cmd:", BUILTIN_AGENTS)).toThrow("needs a command");
+    const registry = buildAgentRegistry({ agents: { aider: { command: "aider" } } });
+    expect(() => parseOrchestratorSpec("aider", registry)).toThrow("printFlags");
+  });
+
+  test("decomposeTask retries a malformed answer with the errors", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-decompose-"));
+    try {
+      // First answer is garbage; the retry prompt must list the problem
+      const script = join(dir, "plan.sh");
+      writeFileSync(script, [
+        "#!/bin/sh",
+        `if [ ! -f "${dir}/seen" ]; then touch "${dir}/seen"; cat > /dev/null; echo 'Sure! [oops'; exit 0; fi`,
+        `grep "no JSON found" > /dev/null || exit 3`,
+        `echo '${JSON.stringify([task()])}'`,
+      ].join("\n"), { mode: 0o755 });
+
+      const retries: string[][] = [];
+      const tasks = await decomposeTask("do it", { kind: "command", command: script }, BUILTIN_AGENTS, {
+        onRetry: (errors) => retries.push(errors),
+      });
+      expect(retries).toEqual([["no JSON found in the answer"]]);
+      expect(tasks.map((t) => t.id)).toEqual(["task_1"]);
+
+      await expect(decomposeTask("x", { kind: "command", command: "echo nope" }, BUILTIN_AGENTS)).rejects.toThrow("did not return a usable plan");
+      await expect(decomposeTask("x", { kind: "command", command: "exit 2" }, BUILTIN_AGENTS)).rejects.toThrow("exited with code 2");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("plan editor", () => {
+  const tasks = (): SubTask[] => [
+    { id: "task_1", description: "schema", agent: "claude", prompt: "a", dependencies: [] },
+    { id: "task_2", description: "api", agent: "codex", prompt: "b", dependencies: ["task_1"] },
+    { id: "task_3", description: "docs", agent: "gemini", prompt: "c", dependencies: ["task_2"] },
+  ];
+
+  test("task operations keep dependencies consistent", () => {
+    expect(moveTask(tasks(), 0, 1).map((t) => t.id)).toEqual(["task_2", "task_1", "task_3"]);
+    expect(moveTask(tasks(), 0, -1).map((t) => t.id)).toEqual(["task_1", "task_2", "task_3"]);
+
+    const deleted = deleteTask(tasks(), 1);
+    expect(deleted.map((t) => [t.id, t.dependencies])).toEqual([["task_1", []], ["task_3", []]]);
+
+    const split = splitTask(tasks(), 1);
+    expect(split.map((t) => [t.id, t.dependencies])).toEqual([
+      ["task_1", []],
+      ["task_2", ["task_1"]],
+      ["task_4", ["task_1"]],
+      ["task_3", ["task_2", "task_4"]],
+    ]);
+    expect(split[2].description).toBe("api (part 2)");
+    expect(nextTaskId(deleted)).toBe("task_4");
+
+    expect(toggleDependency(tasks(), 2, "task_1")[2].dependencies).toEqual(["task_2", "task_1"]);
+    expect(toggleDependency(tasks(), 1, "task_1")[1].dependencies).toEqual([]);
+    expect(toggleDependency(tasks(), 1, "task_2")[1].dependencies).toEqual(["task_1"]);
+  });
+
+  test("keys edit the plan and return commands", () => {
+    const state = createPlanEditorState(tasks());
+    handlePlanEditorKey(state, "j", BUILTIN_AGENTS);
+    handlePlanEditorKey(state, "a", BUILTIN_AGENTS);
+    expect(state.tasks[1].agent).toBe("gemini");
+    handlePlanEditorKey(state, "K", BUILTIN_AGENTS);
+    expect(state.tasks.map((t) => t.id)).toEqual(["task_2", "task_1", "task_3"]);
+    expect(state.selected).toBe(0);
+    expect(handlePlanEditorKey(state, "e", BUILTIN_AGENTS)).toEqual({ type: "edit", field: "prompt" });
+    applyEditedField(state, "prompt", "  new prompt\n");
+    expect(state.tasks[0].prompt).toBe("new prompt");
+    applyEditedField(state, "prompt", "\n");
+    expect(state.tasks[0].prompt).toBe("new prompt");
+
+    // task_2 -> task_3 closes a cycle, which blocks launching
+    handlePlanEditorKey(state, "d", BUILTIN_AGENTS);
+    expect(state.mode).toBe("deps");
+    handlePlanEditorKey(state, "j", BUILTIN_AGENTS);
+    handlePlanEditorKey(state, " ", BUILTIN_AGENTS);
+    handlePlanEditorKey(state, "\r", BUILTIN_AGENTS);
+    expect(state.tasks[0].dependencies).toEqual(["task_1", "task_3"]);
+    expect(handlePlanEditorKey(state, "l", BUILTIN_AGENTS)).toBeUndefined();
+    expect(state.message).toContain("Fix the plan errors");
+    expect(handlePlanEditorKey(state, "w", BUILTIN_AGENTS)).toBeUndefined();
+    expect(state.message).toBe("Fix the plan errors before saving");
+
+    handlePlanEditorKey(state, "x", BUILTIN_AGENTS);
+    expect(state.tasks.map((t) => [t.id, t.dependencies])).toEqual([["task_1", []], ["task_3", []]]);
+    expect(handlePlanEditorKey(state, "l", BUILTIN_AGENTS)).toEqual({ type: "done", action: "launch" });
+    expect(handlePlanEditorKey(state, "w", BUILTIN_AGENTS)).toEqual({ type: "done", action: "save" });
+    expect(handlePlanEditorKey(state, "\x03", BUILTIN_AGENTS)).toEqual({ type: "done", action: "quit" });
+  });
+});
+
+describe("queue", () => {
+  test("parseMaxParallel accepts positive integers only", () => {
+    expect(parseMaxParallel(undefined)).toBeUndefined();
+    expect(parseMaxParallel("3")).toBe(3);
+    expect(() => parseMaxParallel("0")).toThrow("positive integer");
+    expect(() => parseMaxParallel("1.5")).toThrow("positive integer");
+    expect(() => parseMaxParallel("lots")).toThrow("positive integer");
+  });
+
+  test("freeSlots counts what the limit leaves", () => {
+    expect(freeSlots(undefined, 10)).toBe(Infinity);
+    expect(freeSlots(3, 1)).toBe(2);
+    expect(freeSlots(3, 5)).toBe(0);
+  });
+
+  test("getQueuedSessions keeps latest queued entries whose owner is alive", () => {
+    const entry = (sessionName: string, status?: SessionMetaEntry["status"], queuePid?: number): SessionMetaEntry =>
+      ({ id: sessionName, timestamp: "t", sessionName, status, queuePid });
+    const queued = getQueuedSessions([
+      entry("awm-a", "queued", 1),
+      entry("awm-b", "queued", 1),
+      entry("awm-b"),  // launched since
+      entry("awm-c", "queued", 2),  // owner gone
+    ], (pid) => pid === 1);
+    expect(queued.map((m) => m.sessionName)).toEqual(["awm-a"]);
+  });
+
+  test("sharedFreeSlots counts live sessions and earlier queues from every process with the prefix", () => {
+    const entry = (sessionName: string, second: number, status?: SessionMetaEntry["status"], queuePid?: number): SessionMetaEntry =>
+      ({ id: `${sessionName}-${second}`, timestamp: `2024-01-01T00:00:0${second}.000Z`, sessionName, status, queuePid });
+    const entries = [
+      entry("awm-claude-a", 0),               // launched by another command, still open
+      entry("awm-codex-b", 1, "running"),
+      { ...entry("awm-codex-b", 2, "running"), slotReleasedAt: "2024-01-01T00:00:02.000Z" }, // completed task, agent left open
+      entry("awm-codex-i", 2, "done"),       // marked done but not renamed
+      entry("awm-gemini-c", 3),              // exited
+      entry("other-claude-d", 4),            // another prefix
+      entry("awm-claude-e", 5, "queued", 2), // queued by a live command before us
+      entry("awm-claude-f", 6, "queued", 1), // ours
+      entry("awm-claude-g", 7, "queued", 2), // queued after ours
+      entry("awm-claude-h", 8, "queued", 3), // owner gone
+    ];
+    const context = {
+      liveSessions: new Set(["awm-claude-a", "awm-codex-b", "awm-codex-i", "other-claude-d"]),
+      pid: 1,
+      isAlive: (pid: number) => pid !== 3,
+    };
+    expect(sharedFreeSlots(undefined, entries, "awm", context)).toBe(Infinity);
+    // awm-claude-a runs and awm-claude-e is ahead of us
+    expect(sharedFreeSlots(4, entries, "awm", context)).toBe(2);
+    expect(sharedFreeSlots(2, entries, "awm", context)).toBe(0);
+    // A command with nothing queued yet waits behind every live queue
+    expect(sharedFreeSlots(4, entries, "awm", { ...context, pid: 5 })).toBe(0);
+    expect(sharedFreeSlots(4, entries, "other", context)).toBe(3);
+  });
+});
+
+describe("failure", () => {
+  const launchedAt = "2024-01-01T00:00:00.000Z";
+  const target = { sessionName: "awm-claude-a", launchedAt };
+  const meta: SessionMetaEntry[] = [{ id: "sess_a", timestamp: launchedAt, sessionName: "awm-claude-a" }];
+  const hook = (event: string, second: number, sessionName = "awm-claude-a"): HookEntry => ({
+    id: `hook_${event}_${second}`,
+    timestamp: `2024-01-01T00:00:${String(second).padStart(2, "0")}.000Z`,
+    event,
+    payload: {},
+    sessionName,
+  });
+
+  test("checkFailurePolicy reports every bad field", () => {
+    expect(checkFailurePolicy(undefined)).toEqual([]);
+    expect(checkFailurePolicy({ retries: 1, then: "abort", maxToolFailures: 5 })).toEqual([]);
+    expect(checkFailurePolicy("retry")).toEqual(["onFailure must be an object"]);
+    expect(checkFailurePolicy({ retries: -1, retryAgent: "", then: "panic", maxToolFailures: 0 })).toEqual([
+      "onFailure.retries must be a non-negative integer",
+      "onFailure.retryAgent must be an agent name",
+      "onFailure.then must be one of skip, continue, abort",
+      "onFailure.maxToolFailures must be a positive integer",
+    ]);
+  });
+
+  test("parseFailureOptions builds a policy from command-line flags", () => {
+    const registry = buildAgentRegistry();
+    expect(parseFailureOptions({}, registry)).toBeUndefined();
+    expect(parseFailureOptions({ retries: "2", retryAgent: "Codex", then: "Abort" }, registry))
+      .toEqual({ retries: 2, retryAgent: "codex", then: "abort" });
+    expect(() => parseFailureOptions({ retries: "-1" }, registry)).toThrow("--retries");
+    expect(() => parseFailureOptions({ retryAgent: "nope" }, registry)).toThrow("--retry-agent");
+    expect(() => parseFailureOptions({ then: "later" }, registry)).toThrow("--on-failure");
+    expect(() => parseFailureOptions({ maxToolFailures: "0" }, registry)).toThrow("--max-tool-failures");
+  });
+
+  test("resolveFailurePolicy lays task fields over the plan's", () => {
+    const task: SubTask = { id: "a", description: "a", agent: "claude", prompt: "a" };
+    expect(resolveFailurePolicy({}, task)).toEqual({ retries: 0, then: "skip" });
+    expect(resolveFailurePolicy(
+      { onFailure: { retries: 1, then: "abort" } },
+      { ...task, onFailure: { then: "continue", retryAgent: "codex" } }
+    )).toEqual({ retries: 1, retryAgent: "codex", then: "continue" });
+    expect(describeFailurePolicy({ retries: 2, retryAgent: "codex", then: "abort", maxToolFailures: 5 }))
+      .toBe("retry 2x on codex, then abort, fail after 5 tool failures in a row");
+  });
+
+  test("toolFailureStreak counts failures since the session's last successful tool call", () => {
+    expect(toolFailureStreak(target, meta, [
+      hook("PostToolUseFailure", 1),
+      hook("PostToolUse", 2),
+      hook("PostToolUseFailure", 3),
+      hook("PostToolUseFailure", 4, "awm-codex-b"),
+      hook("PreToolUse", 5),
+      hook("post-tool-use-failure", 6),
+    ])).toBe(2);
+    // Hooks from before the launch belong to an earlier task
+    expect(toolFailureStreak({ ...target, launchedAt: "2024-01-01T00:00:04.000Z" }, meta, [
+      hook("PostToolUseFailure", 3),
+      hook("PostToolUseFailure", 6),
+    ])).toBe(1);
+  });
+
+  test("detectFailure reports non-zero exit codes and tool failure streaks", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-failure-"));
+    try {
+      const exitCodeFile = join(dir, "awm-claude-a");
+      const failures = [hook("PostToolUseFailure", 1), hook("PostToolUseFailure", 2)];
+      const context = { metaEntries: meta, hooks: failures, exitCodeFile };
+
+      expect(await detectFailure(target, {}, context)).toBeUndefined();
+      expect(await detectFailure(target, { maxToolFailures: 3 }, context)).toBeUndefined();
+      expect(await detectFailure(target, { maxToolFailures: 2 }, context)).toBe("2 tool failures in a row");
+
+      writeFileSync(exitCodeFile, "0\n");
+      expect(await detectFailure(target, {}, context)).toBeUndefined();
+      writeFileSync(exitCodeFile, "127\n");
+      expect(await detectFailure(target, {}, context)).toBe("agent exited with code 127");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("graph", () => {
+  const plan: OrchestrationPlan = {
+    id: "plan_graph",
+    originalPrompt: "build it",
+    decomposedAt: "2024-01-01T00:00:00.000Z",
+    orchestratorAgent: "claude",
+    tasks: [
+      { id: "schema", description: 'Design "DB" schema', agent: "claude", prompt: "a", dependencies: [] },
+      { id: "api-v2", description: "Build <API>", agent: "codex", prompt: "b", dependencies: ["schema"] },
+      { id: "end", description: "Docs", agent: "gemini", prompt: "c", dependencies: ["schema", "api-v2"] },
+    ],
+  };
+
+  test("parseGraphFormat accepts mermaid and dot", () => {
+    expect(parseGraphFormat("Mermaid")).toBe("mermaid");
+    expect(parseGraphFormat("dot")).toBe("dot");
+    expect(parseGraphFormat("svg")).toBeUndefined();
+  });
+
+  test("renderMermaid escapes labels and makes task ids safe", () => {
+    expect(renderMermaid(plan)).toBe([
+      "flowchart TD",
+      '  schema["schema: Design #quot;DB#quot; schema<br/>claude"]',
+      '  api_v2["api-v2: Build #lt;API#gt;<br/>codex"]',
+      '  t_end["end: Docs<br/>gemini"]',
+      "  schema --> api_v2",
+      "  schema --> t_end",
+      "  api_v2 --> t_end",
+      "",
+    ].join("\n"));
+  });
+
+  test("renderMermaid and renderDot color nodes by status", () => {
+    const statuses = { schema: "completed", "api-v2": "running", end: "pending" } as const;
+    const mermaid = renderMermaid(plan, statuses);
+    expect(mermaid).toContain('api_v2["api-v2: Build #lt;API#gt;<br/>codex · running"]');
+    expect(mermaid).toContain("  classDef completed fill:#d4edda,stroke:#28a745\n  class schema completed");
+
+    const dot = renderDot(plan, statuses);
+    expect(dot.startsWith('digraph "plan_graph" {')).toBe(true);
+    expect(dot).toContain('  "schema" [label="schema: Design \\"DB\\" schema\\nclaude · completed", fillcolor="#d4edda", color="#28a745"];');
+    expect(dot).toContain('  "api_v2" -> "t_end";');
+    expect(renderDot(plan)).toContain('  "t_end" [label="end: Docs\\ngemini"];');
+  });
+
+  test("taskStatusesFromSessions reads each task's latest session", () => {
+    const entry = (sessionName: string, extra: Partial<SessionMetaEntry> = {}): SessionMetaEntry =>
+      ({ id: sessionName, timestamp: "t", sessionName, planId: "plan_graph", ...extra });
+    const entries = [
+      entry("awm-claude-schema", { taskId: "schema" }),
+      entry("awm-claude-schema-done", { taskId: "schema", renamedFrom: "awm-claude-schema", status: "done" }),
+      entry("awm-codex-api", { taskId: "api-v2" }),
+      entry("awm-other", { taskId: "end", planId: "plan_other" }),
+    ];
+    expect(taskStatusesFromSessions(plan, entries, new Set(["awm-codex-api"])))
+      .toEqual({ schema: "completed", "api-v2": "running", end: "pending" });
+    expect(taskStatusesFromSessions(plan, entries, new Set()))
+      .toEqual({ schema: "completed", "api-v2": "ended", end: "pending" });
+
+    // The run state knows about failures sessions.jsonl cannot show
+    const run = createRun(plan, { cwd: "/repo", prefix: "awm", worktree: false, completion: "any", agentFlags: {} });
+    updateTaskState(run, "api-v2", { status: "failed" });
+    updateTaskState(run, "end", { status: "skipped" });
+    expect(taskStatusesFromSessions(plan, entries, new Set(["awm-codex-api"]), run))
+      .toEqual({ schema: "completed", "api-v2": "failed", end: "skipped" });
+  });
+});
+
+describe("review", () => {
+  const candidates: ReviewCandidate[] = [
+    { label: "schema", sessionName: "awm-claude-schema", launchedAt: "t", agent: "claude", description: "Design schema", status: "completed", summary: "Added tables", diff: "+create table" },
+    { label: "api", sessionName: "awm-codex-api", launchedAt: "t", agent: "codex", status: "failed" },
+  ];
+
+  test("buildReviewPrompt lists each session's summary and diff", () => {
+    const prompt = buildReviewPrompt("Build the app", candidates, "plan");
+    expect(prompt).toContain('Refer to each session by its label: "schema", "api".');
+    expect(prompt).toContain("## schema - Design schema - agent: claude - completed\n\n### Final message\nAdded tables");
+    expect(prompt).toContain("```diff\n+create table\n```");
+    expect(prompt).toContain("## api - agent: codex - failed\n\n### Final message\n(no summary captured)");
+    expect(prompt).toContain("propose the order to merge them in");
+    expect(buildReviewPrompt("Fix it", candidates, "compare")).toContain('Decide which attempt is best ("winner")');
+
+    // Many large sessions still fit in one argument
+    const big = Array.from({ length: 20 }, (_, i) => ({ ...candidates[0], label: `t${i}`, summary: "s".repeat(20_000), diff: "d".repeat(20_000) }));
+    expect(Buffer.byteLength(buildReviewPrompt("Big", big, "plan"))).toBeLessThan(110_000);
+    // The limit is in bytes, which multi-byte text fills with fewer characters
+    const wide = big.map((candidate) => ({ ...candidate, summary: "✓".repeat(20_000), diff: "€".repeat(20_000) }));
+    expect(Buffer.byteLength(buildReviewPrompt("Big", wide, "plan"))).toBeLessThan(110_000);
+    expect(Buffer.byteLength(buildReviewPrompt("é".repeat(30_000), wide, "plan"))).toBeLessThan(110_000);
+  });
+
+  test("parseReviewVerdict keeps known labels and falls back to the raw answer", () => {
+    expect(parseReviewVerdict(
+      'Verdict:\n```json\n{"winner": "api", "conflicts": ["both edit db.ts"], "mergeOrder": ["schema", "ghost", "api"], "summary": " Merge schema first. "}\n```',
+      ["schema", "api"]
+    )).toEqual({ winner: "api", conflicts: ["both edit db.ts"], mergeOrder: ["schema", "api"], summary: "Merge schema first." });
+    expect(parseReviewVerdict('{"winner": "ghost", "conflicts": [], "summary": "meh"}', ["schema"])).toEqual({ summary: "meh" });
+    expect(parseReviewVerdict("  schema is better  ", ["schema"])).toEqual({ summary: "schema is better" });
+  });
+
+  test("reviewSessions runs the reviewer and records what it saw", async () => {
+    const answer = JSON.stringify({ winner: "schema", summary: "ok" });
+    const verdict = await reviewSessions(
+      { kind: "command", command: `grep -q "Build the app" && echo '${answer}'` },
+      "Build the app",
+      candidates,
+      "plan",
+      BUILTIN_AGENTS
+    );
+    expect(verdict).toMatchObject({ reviewer: expect.stringMatching(/^cmd:grep/), reviewed: ["schema", "api"], winner: "schema", summary: "ok" });
+  });
+
+  test("findReviews matches plan id, launch id or tag, and formatReview prints the verdict", () => {
+    const review = {
+      reviewer: "claude",
+      reviewedAt: "2024-01-01T00:00:00.000Z",
+      reviewed: ["schema", "api"],
+      mergeOrder: ["schema", "api"],
+      conflicts: ["both edit db.ts"],
+      summary: "Merge schema first.\nThen api.",
+    };
+    const entries: SessionMetaEntry[] = [
+      { id: "s1", timestamp: "t", sessionName: "awm-claude-a", planId: "plan_1", tag: "fix" },
+      { id: "s2", timestamp: "t", sessionName: "awm-review-a", planId: "plan_1", source: "review", review },
+      { id: "s3", timestamp: "t", sessionName: "awm-review-b", launchId: "launch_1", tag: "fix", source: "review", review },
+    ];
+    expect(findReviews(entries, "plan_1").map((e) => e.id)).toEqual(["s2"]);
+    expect(findReviews(entries, "fix").map((e) => e.id)).toEqual(["s3"]);
+    expect(findReviews(entries, "launch_1").map((e) => e.id)).toEqual(["s3"]);
+
+    expect(formatReview(review)).toEqual([
+      "Review by claude (2024-01-01T00:00:00.000Z) of schema, api",
+      "  Merge order: schema -> api",
+      "  Conflict: both edit db.ts",
+      "",
+      "  Merge schema first.",
+      "  Then api.",
+    ]);
+  });
+});
+
+describe("merge", () => {
+  const plan: OrchestrationPlan = {
+    id: "plan_m",
+    originalPrompt: "Build the app",
+    decomposedAt: "2024-01-01T00:00:00.000Z",
+    orchestratorAgent: "claude",
+    tasks: [
+      { id: "api", description: "Build API", agent: "codex", prompt: "p", dependencies: ["schema"] },
+      { id: "schema", description: "Design schema", agent: "claude", prompt: "p" },
+      { id: "docs", description: "Write docs", agent: "gemini", prompt: "p" },
+    ],
+  };
+
+  test("planMergeSteps orders tasks by dependency and skips ones without a branch", () => {
+    const worktree = (name: string) => ({ path: `/wt/${name}`, branch: `awm/${name}`, baseRef: "abc", repoRoot: "/repo" });
+    const entries: SessionMetaEntry[] = [
+      { id: "1", timestamp: "t", sessionName: "awm-claude-schema", planId: "plan_m", taskId: "schema", worktree: worktree("awm-claude-schema") },
+      { id: "2", timestamp: "t", sessionName: "awm-codex-api", planId: "plan_m", taskId: "api", worktree: worktree("awm-codex-api") },
+      { id: "3", timestamp: "t", sessionName: "awm-claude-api", planId: "plan_m", taskId: "api", worktree: worktree("awm-claude-api") },
+      { id: "4", timestamp: "t", sessionName: "awm-gemini-docs", planId: "plan_m", taskId: "docs" },
+    ];
+    const steps = planMergeSteps(plan, entries);
+    expect(steps.map((step) => [step.taskId, step.status, step.sessionName])).toEqual([
+      ["schema", "pending", "awm-claude-schema"],
+      ["docs", "skipped", undefined],
+      ["api", "pending", "awm-claude-api"],
+    ]);
+
+    const run = createRun(plan, { cwd: "/repo", prefix: "awm", worktree: true, completion: "any", agentFlags: {} });
+    updateTaskState(run, "schema", { status: "completed" });
+    updateTaskState(run, "api", { status: "failed" });
+    updateTaskState(run, "docs", { status: "completed" });
+    expect(planMergeSteps(plan, entries, run).map((step) => [step.status, step.reason])).toEqual([
+      ["pending", undefined],
+      ["skipped", "no worktree branch (not launched with --worktree)"],
+      ["skipped", "task is failed"],
+    ]);
+    expect(formatMergeSteps(steps.slice(0, 2))).toEqual([
+      "  pending    schema  awm/awm-claude-schema",
+      "  skipped    docs",
+      "             no worktree branch (not launched with --worktree)",
+    ]);
+  });
+
+  test("mergePlanBranches merges in order, stops at a conflict and resumes once it is resolved", async () => {
+    const root = mkdtempSync(join(tmpdir(), "awm-merge-"));
+    try {
+      const repo = join(root, "repo");
+      const dataDir = join(root, "data");
+      mkdirSync(repo);
+      await runGit(["init", "-q"], repo);
+      await runGit(["config", "user.name", "test"], repo);
+      await runGit(["config", "user.email", "test@example.com"], repo);
+      writeFileSync(join(repo, "app.txt"), "base\n");
+      await runGit(["add", "-A"], repo);
+      await runGit(["commit", "-q", "-m", "init"], repo);
+
+      const entries: SessionMetaEntry[] = [];
+      const edit = async (taskId: string, file: string, content: string, commit: boolean) => {
+        const { worktree } = await createWorktree(repo, `awm-${taskId}`, dataDir);
+        writeFileSync(join(worktree.path, file), content);
+        if (commit) {
+          await runGit(["add", "-A"], worktree.path);
+          await runGit(["commit", "-q", "-m", taskId], worktree.path);
+        }
+        entries.push({ id: taskId, timestamp: "t", sessionName: `awm-${taskId}`, planId: "plan_m", taskId, worktree });
+      };
+      await edit("schema", "schema.txt", "tables\n", true);
+      await edit("api", "app.txt", "api\n", true);
+      await edit("docs", "app.txt", "docs\n", false);
+
+      // docs has uncommitted changes
+      let result = await mergePlanBranches(plan, planMergeSteps(plan, entries), { dataDir });
+      expect(result.branch).toBe(integrationBranchName("plan_m"));
+      expect(result.steps.map((step) => step.status)).toEqual(["merged", "skipped", "merged"]);
+      expect(result.steps[1].reason).toContain("use --commit");
+
+      // With --commit, docs conflicts with api on app.txt
+      result = await mergePlanBranches(plan, planMergeSteps(plan, entries), { dataDir, commitChanges: true });
+      expect(result.steps.map((step) => step.status)).toEqual(["up-to-date", "conflict", "pending"]);
+      expect(result.steps[1].conflicts).toEqual(["app.txt"]);
+      expect(result.conflictDiff).toContain("<<<<<<<");
+      const prompt = buildResolvePrompt(plan, result);
+      expect(prompt).toContain('Merging task "docs" (Write docs) from branch awm/awm-docs conflicts in: app.txt.');
+      expect(prompt).toContain("git commit --no-edit");
+
+      // Still unresolved on the next run
+      result = await mergePlanBranches(plan, planMergeSteps(plan, entries), { dataDir });
+      expect(result.resumed).toBe(true);
+      expect(result.steps[1].status).toBe("conflict");
+
+      // Resolved and staged, but not committed: the next run concludes the merge
+      writeFileSync(join(result.path, "app.txt"), "api\ndocs\n");
+      await runGit(["add", "app.txt"], result.path);
+      result = await mergePlanBranches(plan, planMergeSteps(plan, entries), { dataDir });
+      expect(result.steps.map((step) => step.status)).toEqual(["up-to-date", "merged", "up-to-date"]);
+      expect(await runGit(["show", `${result.branch}:app.txt`], repo)).toBe("api\ndocs");
+      expect(await runGit(["show", `${result.branch}:schema.txt`], repo)).toBe("tables");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("templates", () => {
+  const template = parseTemplate("add-endpoint", "/t/add-endpoint.json", {
+    id: "plan_fixed",
+    description: "Add /{{name}}",
+    params: { method: { description: "HTTP method", default: "GET" } },
+    tasks: [
+      { id: "impl", agent: "claude", description: "Implement {{method}} /{{name}}", prompt: "Add {{ method }} /{{name}}" },
+      { id: "tests", agent: "codex", prompt: "Test /{{name}} given {{impl.summary}}", dependencies: ["impl"] },
+    ],
+  });
+
+  test("parseTemplate finds placeholders and merges declared params", () => {
+    expect(findTemplateParams([{ prompt: "{{a}} {{b.summary}} {{ c }} {{a}}" }])).toEqual(["a", "c"]);
+    expect(template.description).toBe("Add /{{name}}");
+    expect(template.params).toEqual([
+      { name: "method", description: "HTTP method", default: "GET", required: false },
+      { name: "name", required: true },
+    ]);
+    expect(() => parseTemplate("x", "x.json", { params: { a: { default: 1 } } })).toThrow("params.a description and default must be strings");
+  });
+
+  test("parseSetOptions reads NAME=VALUE pairs", () => {
+    expect(parseSetOptions(["name=users", "filter=a=b", "empty="])).toEqual({ name: "users", filter: "a=b", empty: "" });
+    expect(() => parseSetOptions(["name"])).toThrow('--set expects NAME=VALUE, got "name"');
+  });
+
+  test("instantiateTemplate fills in parameters and leaves output references alone", () => {
+    const plan = instantiateTemplate(template, { name: "users" }, "", BUILTIN_AGENTS);
+    expect(plan.id).not.toBe("plan_fixed");
+    expect(plan.originalPrompt).toBe("Add /users");
+    expect(plan.tasks.map((task) => [task.description, task.prompt])).toEqual([
+      ["Implement GET /users", "Add GET /users"],
+      ["task_2", "Test /users given {{impl.summary}}"],
+    ]);
+    expect(instantiateTemplate(template, { name: "users", method: "POST" }, "my goal", BUILTIN_AGENTS).tasks[0].prompt)
+      .toBe("Add POST /users");
+
+    expect(() => instantiateTemplate(template, {}, "", BUILTIN_AGENTS)).toThrow("Template add-endpoint needs: --set name=...");
+    expect(() => instantiateTemplate(template, { name: "a", verb: "b" }, "", BUILTIN_AGENTS))
+      .toThrow("Unknown parameter(s) for template add-endpoint: verb (takes: method, name)");
+  });
+
+  test("listTemplates loads every template and reports broken ones", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "awm-templates-"));
+    try {
+      expect(await listTemplates(dir)).toEqual([]);
+      mkdirSync(join(dir, "templates"));
+      writeFileSync(join(dir, "templates", "fix.json"), JSON.stringify([{ prompt: "Fix {{bug}}" }]));
+      writeFileSync(join(dir, "templates", "broken.json"), "{");
+      writeFileSync(join(dir, "templates", "notes.txt"), "");
+      const templates = await listTemplates(dir);
+      expect(templates.map((t) => t.name)).toEqual(["broken", "fix"]);
+      expect(templates[0]).toMatchObject({ error: expect.stringContaining("Invalid JSON") });
+      expect(templates[1]).toMatchObject({ params: [{ name: "bug", required: true }] });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -14,6 +14,9 @@ import {
   tmuxHasServer,
   escapeShellArg,
 } from "../lib/tmux";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
 const TEST_PREFIX = "awm-test";
 const createdSessions: string[] = [];
@@ -183,5 +186,20 @@ describe("tmux e2e", () => {
       const output = await capturePane(name, 10);
       expect(output).toContain("Agent started");
     });
+
+    test("passes prompts too long for a tmux command through a file", async () => {
+      const name = trackSession(`${TEST_PREFIX}-long-${Date.now()}`);
+      const dir = mkdtempSync(join(tmpdir(), "awm-long-prompt-"));
+      const outFile = join(dir, "prompt.txt");
+      const prompt = `it's ${"x".repeat(20_000)} "done"`;
+      try {
+        await launchAgentSession({ command: `sh -c 'printf %s "$1" > ${outFile}' sh` }, prompt, name, dir);
+        for (let i = 0; i < 20 && !existsSync(outFile); i++) await Bun.sleep(100);
+        await Bun.sleep(100);
+        expect(readFileSync(outFile, "utf8")).toBe(prompt);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 });
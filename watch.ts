@@ -1,5 +1,6 @@
 import { parseArgs } from "util";
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
 import { serve } from "bun";
 import {
   listSessions,
@@ -12,28 +13,42 @@ import {
   type DetectedAgent,
 } from "./lib/tmux";
 import { createId } from "./lib/ids";
-import { appendJsonl, readJsonlTail, expandHome } from "./lib/jsonl";
+import { expandHome, warnQuarantined } from "./lib/jsonl";
 import { notifyHook, type NotificationConfig, DEFAULT_TITLE_TEMPLATE, DEFAULT_MESSAGE_TEMPLATE } from "./lib/notify";
-import { formatHookPayload } from "./lib/hooks";
-import type { TmuxSessionInfo, ProcessTreeStats, HookEntry, SessionMetaEntry, PaneActivityState, ActivityLevel } from "./lib/types";
+import { formatHookPayload, hookEventName, getHooksFile } from "./lib/hooks";
+import {
+  buildSessionIdMap,
+  correlateHook,
+  hookBelongsToSession,
+  readSessionHooks,
+  resolveSessionName,
+  SESSION_HEADER,
+} from "./lib/correlate";
+import {
+  BUILTIN_AGENTS,
+  adaptHookEvent,
+  getAgentCommands,
+  getHookAdapter,
+  loadAgentRegistry,
+  resolveAgentName,
+  type AgentRegistry,
+} from "./lib/agents";
+import { getSqliteFile, openStorage, parseHookSearch, searchHooks, type Storage } from "./lib/storage";
+import { loadPolicy, evaluatePolicy, buildHookResponse, getPolicyFile, POLICY_EVENTS } from "./lib/policy";
+import {
+  createEventBus,
+  diffSessions,
+  matchesEventFilter,
+  parseEventFilter,
+  snapshotSessions,
+  type EventBus,
+  type SessionSnapshot,
+} from "./lib/events";
+import type { TmuxSessionInfo, ProcessTreeStats, HookEntry, HookDecision, PermissionDecision, SessionMetaEntry, PaneActivityState, ActivityLevel } from "./lib/types";
 import { DEFAULT_HOOKS_PORT, DEFAULT_DATA_DIR } from "./lib/types";
-import { appendSessionMeta, buildSessionMetaMap, readSessionMeta, markSessionDone } from "./lib/sessions";
-
-const ANSI = {
-  clear: "\x1b[2J\x1b[H",
-  bold: "\x1b[1m",
-  dim: "\x1b[2m",
-  inverse: "\x1b[7m",
-  green: "\x1b[32m",
-  yellow: "\x1b[33m",
-  blue: "\x1b[34m",
-  cyan: "\x1b[36m",
-  red: "\x1b[31m",
-  magenta: "\x1b[35m",
-  reset: "\x1b[0m",
-  hideCursor: "\x1b[?25l",
-  showCursor: "\x1b[?25h",
-};
+import { appendSessionMeta, buildSessionMetaMap, readSessionMeta, markSessionDone, linkAgentSession } from "./lib/sessions";
+import { ANSI, setupRawMode, cleanupRawMode, stripAnsi } from "./lib/tui";
+import { getQueuedSessions } from "./lib/queue";
 
 // Color map for hook event types
 const EVENT_COLORS: Record<string, string> = {
@@ -49,12 +64,12 @@ const EVENT_COLORS: Record<string, string> = {
   Notification: ANSI.yellow,
 };
 
-// Known agent process names
-const AGENT_COMMANDS = new Set(["claude", "codex", "gemini", "node", "bun"]);
+// Known agent process names (replaced with the loaded registry's at startup)
+let agentCommands = getAgentCommands(BUILTIN_AGENTS);
 
 function isAgentCommand(cmd: string | undefined): boolean {
   if (!cmd) return false;
-  return AGENT_COMMANDS.has(cmd.toLowerCase());
+  return agentCommands.has(cmd.toLowerCase());
 }
 
 type SortMode = "name" | "created" | "activity";
@@ -62,6 +77,9 @@ type SortMode = "name" | "created" | "activity";
 const REFRESH_PRESETS = [1000, 2000, 5000, 10000] as const;
 const DEFAULT_MAX_CAPTURE_PANES = 50;
 const AGENT_CACHE_TTL_MS = 30000;
+const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 50;  // below Claude Code's 60s default hook timeout
+const SERVER_IDLE_TIMEOUT_SECONDS = 255;  // Bun.serve's maximum; held approvals keep a request open this long
+const MAX_APPROVAL_TIMEOUT_SECONDS = SERVER_IDLE_TIMEOUT_SECONDS - 5;  // leaves time to send the decision
 
 // Filter popup options - all Claude Code hook event types
 const FILTER_OPTIONS = [
@@ -80,7 +98,7 @@ const FILTER_OPTIONS = [
   { key: "Notification", label: "Notification", short: "notif" },
 ] as const;
 
-type FocusPanel = "sessions" | "hooks";
+type FocusPanel = "sessions" | "approvals" | "hooks";
 
 type LastLineMode = 0 | 1 | 5;  // 0 = off, 1 = 1 line, 5 = 5 lines
 
@@ -89,6 +107,15 @@ type AgentCacheEntry = {
   expiresAt: number;
 };
 
+// A PermissionRequest hook whose HTTP response is held until the user decides
+type PendingApproval = {
+  hook: HookEntry;
+  receivedAt: number;
+  expiresAt: number;
+  resolve: (decision: HookDecision) => void;
+  timer: ReturnType<typeof setTimeout>;  // sends the fallback decision; cleared once answered
+};
+
 // State for the unified TUI
 type WatchState = {
   filter: string | undefined;
@@ -108,6 +135,7 @@ type WatchState = {
   templateEditorCursor: number;  // cursor position in the edit field
   showHooks: boolean;
   showHookDetail: boolean;  // true = show full detail of selected hook
+  hooksForSelected: boolean;  // true = hooks panel shows only the selected session's hooks
   agentsOnly: boolean;
   expandAll: boolean;  // false = only selected session expanded
   sortBy?: SortMode;
@@ -119,6 +147,8 @@ type WatchState = {
   sessions: TmuxSessionInfo[];
   visibleSessions: TmuxSessionInfo[];
   sessionMeta: Map<string, SessionMetaEntry>;
+  queuedSessions: SessionMetaEntry[];  // launches waiting for a --max-parallel slot (no tmux session yet)
+  sessionIds: Map<string, string>;  // agent session_id -> tmux session name
   agentCache: Map<number, AgentCacheEntry>;  // pane PID -> detected agent (persists across refreshes)
   activityState: Map<string, PaneActivityState>;  // pane target -> activity state for change detection
   recentHooks: HookEntry[];
@@ -127,8 +157,22 @@ type WatchState = {
   forwardUrls: string[];  // URLs to forward hooks to
   notifyConfig: NotificationConfig;
   dataDir: string;
+  policyFile: string;  // policy rules for PreToolUse/PermissionRequest decisions
+  agents: AgentRegistry;  // built-in agents plus config.json agents
+  storage: Storage;  // hooks and session metadata, per config.json "storage"
+  approvalsEnabled: boolean;  // hold PermissionRequest hooks for interactive approval
+  approvalTimeoutMs: number;
+  approvalFallback: PermissionDecision;  // decision sent when an approval times out
+  pendingApprovals: PendingApproval[];
+  selectedApprovalIndex: number;
+  events: EventBus;  // feeds GET /events subscribers
+  sessionSnapshot?: SessionSnapshot;  // live sessions at the last refresh, for lifecycle events
 };
 
+// Interval between SSE keepalive comments on GET /events; well under the idle timeouts
+// of Bun (10s unless configured) and of proxies in front of the server
+const SSE_KEEPALIVE_MS = 5000;
+
 // In-memory ring buffer for hooks (most recent N)
 const MAX_HOOKS_BUFFER = 100;
 let hooksBuffer: HookEntry[] = [];
@@ -140,6 +184,46 @@ function addHookToBuffer(hook: HookEntry): void {
   }
 }
 
+/** Queue a held PermissionRequest and wait for the user (or the timeout) to decide */
+function requestApproval(state: WatchState, hook: HookEntry): Promise<HookDecision> {
+  return new Promise((resolve) => {
+    const now = Date.now();
+    const timer = setTimeout(() => {
+      resolveApproval(state, hook.id, {
+        decision: state.approvalFallback,
+        reason: `No decision within ${Math.round(state.approvalTimeoutMs / 1000)}s`,
+        source: "timeout",
+      });
+    }, state.approvalTimeoutMs);
+    state.pendingApprovals.push({
+      hook,
+      receivedAt: now,
+      expiresAt: now + state.approvalTimeoutMs,
+      resolve,
+      timer,
+    });
+  });
+}
+
+/** Answer a held approval. Returns false if it was already answered. */
+function resolveApproval(state: WatchState, hookId: string, decision: HookDecision): boolean {
+  const index = state.pendingApprovals.findIndex((p) => p.hook.id === hookId);
+  if (index === -1) return false;
+
+  const [pending] = state.pendingApprovals.splice(index, 1);
+  clearTimeout(pending.timer);
+  pending.resolve(decision);
+
+  state.selectedApprovalIndex = Math.min(
+    state.selectedApprovalIndex,
+    Math.max(0, state.pendingApprovals.length - 1)
+  );
+  if (state.pendingApprovals.length === 0 && state.focusPanel === "approvals") {
+    state.focusPanel = "sessions";
+  }
+  return true;
+}
+
 function formatDuration(seconds: number): string {
   if (seconds < 60) return `${seconds}s`;
   if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
@@ -215,6 +299,32 @@ function assessActivity(
   return { level: "waiting", quietSeconds };
 }
 
+/** Assess a pane's activity and publish an event when its level changes */
+function trackActivity(
+  state: WatchState,
+  sessionName: string,
+  target: string,
+  currentContentHash: string,
+  stats: ProcessTreeStats | undefined,
+): { level: ActivityLevel; quietSeconds: number } {
+  const previousLevel = state.activityState.get(target)?.level;
+  const activity = assessActivity(state.activityState, target, currentContentHash, stats);
+  state.activityState.get(target)!.level = activity.level;
+
+  if (previousLevel && previousLevel !== activity.level) {
+    state.events.publish({
+      type: "session",
+      timestamp: new Date().toISOString(),
+      action: "activity",
+      sessionName,
+      target,
+      level: activity.level,
+      previousLevel,
+    });
+  }
+  return activity;
+}
+
 /** Format activity level for display */
 function formatActivity(a: { level: ActivityLevel; quietSeconds: number }): string {
   switch (a.level) {
@@ -295,7 +405,7 @@ ${ANSI.dim}${"─".repeat(50)}${ANSI.reset}
   ${ANSI.cyan}Navigation${ANSI.reset}
   j/↓      Move selection down
   k/↑      Move selection up
-  Tab      Switch focus: sessions ↔ hooks
+  Tab      Switch focus: sessions → approvals → hooks
   Enter    Attach to session / view hook detail
   Esc      Close detail view
 
@@ -305,6 +415,7 @@ ${ANSI.dim}${"─".repeat(50)}${ANSI.reset}
   f        Toggle agents-only filter
   e        Toggle expand all sessions
   h        Toggle hooks panel
+  H        Toggle hooks for selected session only
   r        Refresh now
 
   ${ANSI.cyan}Runtime Options${ANSI.reset} (uppercase)
@@ -317,6 +428,8 @@ ${ANSI.dim}${"─".repeat(50)}${ANSI.reset}
   ${ANSI.cyan}Actions${ANSI.reset}
   x        Kill selected session
   D        Mark session done
+  y        Approve selected permission request
+  n        Deny selected permission request
 
   ${ANSI.cyan}General${ANSI.reset}
   ?        Toggle this help
@@ -422,8 +535,29 @@ ${ANSI.bold}Hook Types:${ANSI.reset}
   ${ANSI.yellow}PermissionRequest${ANSI.reset} : Permission requested (yellow)
   ${ANSI.yellow}Notification${ANSI.reset}      : Notification events (yellow)
 
+Hooks answered by a policy rule show ${ANSI.green}[allow]${ANSI.reset}, ${ANSI.red}[deny]${ANSI.reset}
+or ${ANSI.yellow}[ask]${ANSI.reset} before the payload summary.
+
 Press ${ANSI.bold}Tab${ANSI.reset} to switch focus between sessions and hooks.
 Press ${ANSI.bold}Enter${ANSI.reset} on a hook to see full JSON payload.`,
+  },
+  {
+    title: "Approval Queue (--approvals)",
+    content: `
+With ${ANSI.bold}--approvals${ANSI.reset}, PermissionRequest hooks are held open
+instead of answered immediately, and appear in the
+${ANSI.yellow}Approvals${ANSI.reset} panel above the hooks panel.
+
+  ${ANSI.bold}y${ANSI.reset}   Approve the selected request
+  ${ANSI.bold}n${ANSI.reset}   Deny the selected request
+  ${ANSI.bold}Tab${ANSI.reset} Focus the panel to move between requests (j/k)
+
+Each request shows its remaining time. When it runs out the
+--approval-fallback decision is sent (default: ask, which
+shows Claude Code's normal permission prompt).
+
+Policy rules are checked first; only requests that no rule
+decides are queued.`,
   },
   {
     title: "Session Management",
@@ -455,7 +589,8 @@ ${ANSI.bold}s${ANSI.reset} - Stats (CPU/Memory)
 
 ${ANSI.bold}f${ANSI.reset} - Filter (Agents Only)
   When on (magenta F), only shows sessions/panes
-  running known agent commands: claude, codex, gemini, node, bun
+  running agent commands: claude, codex, gemini,
+  agents from config.json, node, bun
 
 ${ANSI.bold}e${ANSI.reset} - Expand All
   When on, shows all session details.
@@ -481,6 +616,10 @@ ${ANSI.bold}Hooks Server${ANSI.reset}
   --no-hooks            Disable hooks server
   --hooks-daemon        Run hooks server only (no TUI)
   --forward-to URL      Forward hooks to another server
+  --policy-file PATH    Policy rules (default: <data-dir>/policy.json)
+  --approvals           Hold PermissionRequest hooks for approval in the TUI
+  --approval-timeout S  Seconds to wait for a decision (default: ${DEFAULT_APPROVAL_TIMEOUT_SECONDS})
+  --approval-fallback D Decision on timeout: allow, deny, ask (default: ask)
 
 ${ANSI.bold}Notifications${ANSI.reset}
   --notify-desktop      Enable desktop notifications
@@ -508,8 +647,14 @@ ${ANSI.bold}sessions.jsonl${ANSI.reset}
   Session metadata from launch.ts and manual operations.
   Tracks: sessionName, agent, cwd, tag, status, promptPreview
 
+${ANSI.bold}policy.json${ANSI.reset}
+  Optional rules that allow, deny or ask for PreToolUse and
+  PermissionRequest hooks. Re-read whenever the file changes.
+
 Files use JSONL format (one JSON object per line) for
-append-friendly logging and easy parsing.`,
+append-friendly logging and easy parsing. With "logs" in
+config.json, hooks.jsonl and sessions.jsonl are rotated into
+dated segments (hooks.<time>.jsonl[.gz]) that reads still include.`,
   },
 ];
 
@@ -664,8 +809,8 @@ function renderTwoColumn(
     const right = rightLines[i] || "";
 
     // Strip ANSI for length calculation
-    const leftPlain = left.replace(/\x1b\[[0-9;]*m/g, "");
-    const rightPlain = right.replace(/\x1b\[[0-9;]*m/g, "");
+    const leftPlain = stripAnsi(left);
+    const rightPlain = stripAnsi(right);
 
     // Truncate horizontally if needed
     const leftTrunc = leftPlain.length > leftWidth
@@ -734,6 +879,8 @@ function formatSessionMeta(meta: SessionMetaEntry | undefined): string | undefin
   if (meta.status) parts.push(`status:${meta.status}`);
   if (meta.taskId) parts.push(meta.taskId);
   if (meta.planId) parts.push(`plan:${shortId(meta.planId)}`);
+  if (meta.agentSessionId) parts.push(`sid:${meta.agentSessionId.slice(0, 8)}`);
+  if (meta.worktree) parts.push(`wt:${meta.worktree.branch}`);
   const label = parts.length > 0 ? `[${parts.join(" ")}]` : "";
   const preview = meta.promptPreview ?? "";
   const combined = `${label} ${preview}`.trim();
@@ -786,6 +933,21 @@ function getPaneAgent(
   return undefined;
 }
 
+/** Launches waiting for a slot, listed under the sessions (they have no panes yet) */
+function renderQueuedSessions(state: WatchState): string[] {
+  if (state.queuedSessions.length === 0) return [];
+  const lines = [`${ANSI.dim}Queued (${state.queuedSessions.length})${ANSI.reset}`];
+  for (const meta of state.queuedSessions) {
+    const agent = meta.agent ? ` ${AGENT_COLORS[meta.agent] || ANSI.blue}[${meta.agent}]${ANSI.reset}` : "";
+    lines.push(` ${ANSI.dim}◌ ${meta.sessionName}${ANSI.reset}${agent} ${ANSI.yellow}[queued]${ANSI.reset}`);
+    const metaLine = formatSessionMeta(meta);
+    if (metaLine && state.expandAll) {
+      lines.push(`   ${ANSI.dim}${truncateLine(metaLine, 80)}${ANSI.reset}`);
+    }
+  }
+  return lines;
+}
+
 function renderSessions(
   state: WatchState,
   capturedLines: Map<string, string[]>,
@@ -794,7 +956,8 @@ function renderSessions(
   detectedAgents: Map<number, DetectedAgent>,
   maxLines: number
 ): string {
-  const { lastLineMode, showStats, selectedIndex, filter, agentsOnly, expandAll, focusPanel, showHooks } = state;
+  const { lastLineMode, showStats, selectedIndex, filter, agentsOnly, expandAll, focusPanel } = state;
+  const showHooks = hasRightColumn(state);
   const sessions = state.visibleSessions;
   let { scrollOffset } = state;
   const now = Math.floor(Date.now() / 1000);
@@ -808,12 +971,13 @@ function renderSessions(
   if (filter) header += ` ${ANSI.dim}(${filter})${ANSI.reset}`;
   if (agentsOnly) header += ` ${ANSI.magenta}[agents]${ANSI.reset}`;
   if (!expandAll) header += ` ${ANSI.dim}[collapsed]${ANSI.reset}`;
-  if (showHooks && isFocused) header += ` ${ANSI.dim}Tab:hooks${ANSI.reset}`;
+  if (showHooks && isFocused) header += ` ${ANSI.dim}Tab:${nextFocusPanel(state)}${ANSI.reset}`;
   lines.push(header);
   lines.push(`${ANSI.dim}${"─".repeat(35)}${ANSI.reset}`);
 
   if (sessions.length === 0) {
     lines.push(`${ANSI.dim}No sessions found${ANSI.reset}`);
+    lines.push(...renderQueuedSessions(state));
     return lines.join("\n") + "\n";
   }
 
@@ -880,7 +1044,7 @@ function renderSessions(
         const target = `${session.name}:${window.index}.${pane.paneIndex}`;
         const contentHash = contentHashes.get(target) || "";
         const paneStats = pane.panePid ? processStats.get(pane.panePid) : undefined;
-        const activity = assessActivity(state.activityState, target, contentHash, paneStats);
+        const activity = trackActivity(state, session.name, target, contentHash, paneStats);
         const activityStr = formatActivity(activity);
 
         lines.push(`${indent}${paneActive}${cmdStr}${paneAgentStr}${statsStr}${activityStr}`);
@@ -897,6 +1061,8 @@ function renderSessions(
     }
   }
 
+  lines.push(...renderQueuedSessions(state));
+
   // Apply viewport scrolling if content exceeds maxLines
   const contentLines = lines.slice(contentStart);  // Skip header
   const contentCount = contentLines.length;
@@ -935,14 +1101,67 @@ function renderSessions(
   return result.join("\n") + "\n";
 }
 
+/** Hooks shown in the hooks panel: all, or only those correlated to the selected session */
+function getDisplayedHooks(state: WatchState): HookEntry[] {
+  if (!state.hooksForSelected) return state.recentHooks;
+  const session = state.visibleSessions[state.selectedIndex];
+  if (!session) return [];
+  const meta = state.sessionMeta.get(session.name);
+  const names = meta?.renamedFrom ? [session.name, meta.renamedFrom] : [session.name];
+  return state.recentHooks.filter((hook) => hookBelongsToSession(hook, names, state.sessionIds));
+}
+
+/** True when the right-hand column (approvals and/or hooks) is visible */
+function hasRightColumn(state: WatchState): boolean {
+  return (state.showHooks && state.hooksEnabled) || state.pendingApprovals.length > 0;
+}
+
+/** Focus order: sessions → approvals (when pending) → hooks (when shown) */
+function nextFocusPanel(state: WatchState): FocusPanel {
+  const panels: FocusPanel[] = ["sessions"];
+  if (state.pendingApprovals.length > 0) panels.push("approvals");
+  if (state.showHooks && state.hooksEnabled) panels.push("hooks");
+  const idx = panels.indexOf(state.focusPanel);
+  return panels[(idx + 1) % panels.length];
+}
+
+function renderApprovals(state: WatchState): string {
+  const approvals = state.pendingApprovals;
+  const isFocused = state.focusPanel === "approvals";
+  const now = Date.now();
+
+  let output = "";
+  const focusIndicator = isFocused ? `${ANSI.green}▶${ANSI.reset} ` : "  ";
+  output += `${focusIndicator}${ANSI.bold}${ANSI.yellow}Approvals${ANSI.reset} ${ANSI.dim}${approvals.length} pending${ANSI.reset}`;
+  output += ` ${ANSI.dim}y:approve n:deny${ANSI.reset}\n`;
+  output += `${ANSI.dim}${"─".repeat(40)}${ANSI.reset}\n`;
+
+  for (let i = 0; i < approvals.length; i++) {
+    const approval = approvals[i];
+    const isSelected = i === state.selectedApprovalIndex;
+    const remaining = Math.max(0, Math.ceil((approval.expiresAt - now) / 1000));
+    const selectMark = isSelected ? `${ANSI.inverse}►${ANSI.reset}` : " ";
+    const lineColor = isSelected ? ANSI.bold : "";
+    const payloadStr = formatHookPayload(approval.hook.payload);
+    output += `${selectMark}${lineColor}${ANSI.yellow}${String(remaining).padStart(3)}s${ANSI.reset} `;
+    output += `${lineColor}${payloadStr}${ANSI.reset}\n`;
+  }
+
+  return output + "\n";
+}
+
 function renderHooks(state: WatchState, maxVisibleLines = 15): string {
-  const hooks = state.recentHooks;
+  const hooks = getDisplayedHooks(state);
   const isFocused = state.focusPanel === "hooks";
 
   let output = "";
   const focusIndicator = isFocused ? `${ANSI.green}▶${ANSI.reset} ` : "  ";
   output += `${focusIndicator}${ANSI.bold}Hooks${ANSI.reset} ${ANSI.dim}(:${state.hooksPort})${ANSI.reset}`;
   output += ` ${ANSI.dim}${hooks.length} total${ANSI.reset}`;
+  if (state.hooksForSelected) {
+    const session = state.visibleSessions[state.selectedIndex];
+    output += ` ${ANSI.magenta}[${session?.name ?? "no session"}]${ANSI.reset}`;
+  }
   if (isFocused) output += ` ${ANSI.dim}Tab:sessions Enter:detail${ANSI.reset}`;
   output += "\n";
   output += `${ANSI.dim}${"─".repeat(40)}${ANSI.reset}\n`;
@@ -989,6 +1208,7 @@ function renderHooks(state: WatchState, maxVisibleLines = 15): string {
 
     output += `${selectMark}${lineColor}${ANSI.dim}${time}${ANSI.reset} `;
     output += `${lineColor}${color}${eventShort.padEnd(5)}${ANSI.reset} `;
+    output += formatDecisionBadge(hook.decision);
     output += `${lineColor}${ANSI.dim}${payloadStr}${ANSI.reset}${lineReset}\n`;
   }
 
@@ -1001,8 +1221,21 @@ function renderHooks(state: WatchState, maxVisibleLines = 15): string {
   return output;
 }
 
+/** Short colored marker for hooks the server answered with a decision */
+function formatDecisionBadge(decision: HookDecision | undefined): string {
+  if (!decision) return "";
+  switch (decision.decision) {
+    case "allow":
+      return `${ANSI.green}[allow]${ANSI.reset} `;
+    case "deny":
+      return `${ANSI.red}[deny]${ANSI.reset} `;
+    case "ask":
+      return `${ANSI.yellow}[ask]${ANSI.reset} `;
+  }
+}
+
 function renderHookDetail(state: WatchState): string {
-  const hooks = [...state.recentHooks].reverse();
+  const hooks = [...getDisplayedHooks(state)].reverse();
   const hook = hooks[state.selectedHookIndex];
 
   if (!hook) {
@@ -1021,6 +1254,13 @@ function renderHookDetail(state: WatchState): string {
   output += `${ANSI.bold}Event:${ANSI.reset}     ${color}${hook.event}${ANSI.reset}\n`;
   output += `${ANSI.bold}Time:${ANSI.reset}      ${hook.timestamp}\n`;
   output += `${ANSI.bold}ID:${ANSI.reset}        ${ANSI.dim}${hook.id}${ANSI.reset}\n`;
+  if (hook.sessionName) {
+    output += `${ANSI.bold}Session:${ANSI.reset}   ${hook.sessionName}\n`;
+  }
+  if (hook.decision) {
+    const rule = hook.decision.rule ? ` ${ANSI.dim}(${hook.decision.rule})${ANSI.reset}` : "";
+    output += `${ANSI.bold}Decision:${ANSI.reset}  ${formatDecisionBadge(hook.decision)}${hook.decision.reason ?? ""}${rule}\n`;
+  }
   output += "\n";
 
   // Pretty print payload
@@ -1125,7 +1365,12 @@ async function renderDisplay(state: WatchState): Promise<string> {
 
   // Info bar
   const shortDir = state.dataDir.replace(process.env.HOME || "~", "~");
-  output += `${ANSI.dim}data:${shortDir} | hooks::${state.hooksPort} | sessions:${state.sessions.length}${ANSI.reset}\n`;
+  output += `${ANSI.dim}data:${shortDir} | hooks::${state.hooksPort} | sessions:${state.sessions.length}${ANSI.reset}`;
+  if (state.approvalsEnabled) {
+    const pendingColor = state.pendingApprovals.length > 0 ? ANSI.yellow : ANSI.dim;
+    output += ` ${pendingColor}| approvals:${state.pendingApprovals.length}${ANSI.reset}`;
+  }
+  output += "\n";
 
   output += `${ANSI.dim}${"─".repeat(70)}${ANSI.reset}\n\n`;
 
@@ -1182,20 +1427,30 @@ async function renderDisplay(state: WatchState): Promise<string> {
       ? capturePanesForActivity(paneTargets, lastLineMode)
       : Promise.resolve({ lines: new Map<string, string[]>(), hashes: new Map<string, string>() }),
     getProcessStatsBatch(panePids),
-    pidsNeedingDetection.length > 0 ? detectAgentsBatch(pidsNeedingDetection) : Promise.resolve(new Map<number, DetectedAgent>()),
+    pidsNeedingDetection.length > 0 ? detectAgentsBatch(pidsNeedingDetection, state.agents) : Promise.resolve(new Map<number, DetectedAgent>()),
   ]);
 
   const sessionsContent = renderSessions(state, capturedContent.lines, capturedContent.hashes, processStats, detectedAgents, maxSessionLines);
 
-  if (showHooks && state.hooksEnabled) {
-    const hooksContent = renderHooks(state, availableLines);
-    output += renderTwoColumn(state, sessionsContent, hooksContent, availableLines);
+  if (hasRightColumn(state)) {
+    let rightContent = "";
+    let hooksLines = availableLines;
+    if (state.pendingApprovals.length > 0) {
+      const approvalsContent = renderApprovals(state);
+      rightContent += approvalsContent;
+      hooksLines = Math.max(3, availableLines - approvalsContent.split("\n").length);
+    }
+    if (showHooks && state.hooksEnabled) {
+      rightContent += renderHooks(state, hooksLines);
+    }
+    output += renderTwoColumn(state, sessionsContent, rightContent, availableLines);
   } else {
     output += sessionsContent;
   }
 
   // Footer
-  output += `\n${ANSI.dim}Enter:attach x:kill D:done ↑↓/jk:nav${state.hooksEnabled ? ` │ hooks::${state.hooksPort}` : ""}${ANSI.reset}\n`;
+  const approvalKeys = state.pendingApprovals.length > 0 ? " y:approve n:deny" : "";
+  output += `\n${ANSI.dim}Enter:attach x:kill D:done${approvalKeys} ↑↓/jk:nav${state.hooksEnabled ? ` │ hooks::${state.hooksPort}` : ""}${ANSI.reset}\n`;
 
   return output;
 }
@@ -1216,26 +1471,114 @@ async function forwardHook(url: string, event: string, payload: Record<string, u
   }
 }
 
+// Parse a positive integer query parameter, returning an error message for anything else
+function parseLimitParam(value: string | undefined, fallback: number, param: string): number | string {
+  if (value === undefined) return fallback;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 ? limit : `${param} must be a positive integer, got "${value}"`;
+}
+
 // Create hooks HTTP server
 function createHooksApp(state: WatchState): Hono {
   const app = new Hono();
-  const hooksFile = () => `${expandHome(state.dataDir)}/hooks.jsonl`;
+  // Header each agent session_id was last linked under, so repeat hooks skip the sessions.jsonl read
+  const linkedHeaders = new Map<string, string>();
+
+  // Find the tmux session a hook came from, recording new session_id links in sessions.jsonl
+  const resolveSession = async (
+    payload: Record<string, unknown>,
+    timestamp: string,
+    headerSession: string | undefined
+  ): Promise<string | undefined> => {
+    const sessionId = typeof payload.session_id === "string" ? payload.session_id : undefined;
+    if (!headerSession) {
+      if (!sessionId) return undefined;
+      if (state.sessionIds.has(sessionId)) return state.sessionIds.get(sessionId);
+    } else if (sessionId && state.sessionIds.has(sessionId) && linkedHeaders.get(sessionId) === headerSession) {
+      return headerSession.trim();
+    }
+
+    const metaEntries = await readSessionMeta(state.dataDir).catch(() => []);
+    const liveSessions = headerSession ? undefined : await listSessions().catch(() => []);
+    const correlated = correlateHook(payload, timestamp, {
+      headerSession,
+      sessionIds: state.sessionIds,
+      metaEntries,
+      liveSessions,
+    });
+    if (!correlated || !sessionId) return correlated;
+
+    const sessionName = resolveSessionName(correlated, metaEntries);
+    if (state.sessionIds.get(sessionId) !== sessionName) {
+      state.sessionIds.set(sessionId, sessionName);
+      const transcriptPath = typeof payload.transcript_path === "string" ? payload.transcript_path : undefined;
+      try {
+        const meta = buildSessionMetaMap(metaEntries).get(sessionName);
+        const { entry, quarantined } = await linkAgentSession(state.dataDir, sessionName, sessionId, transcriptPath, meta);
+        warnQuarantined(quarantined);
+        state.sessionMeta.set(sessionName, entry);
+      } catch (err) {
+        console.warn(`[agentwatch] Failed to record session link: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    if (correlated === headerSession?.trim()) linkedHeaders.set(sessionId, headerSession);
+    return correlated;
+  };
+
+  // Evaluate the policy file for events that can carry a permission decision
+  const decide = async (event: string, payload: Record<string, unknown>): Promise<HookDecision | undefined> => {
+    if (!POLICY_EVENTS.has(hookEventName(event, payload))) return undefined;
+    try {
+      const policy = await loadPolicy(state.policyFile);
+      return policy ? evaluatePolicy(policy, event, payload) : undefined;
+    } catch (err) {
+      console.warn(`[agentwatch] Policy evaluation failed: ${err instanceof Error ? err.message : String(err)}`);
+      return undefined;
+    }
+  };
 
   // Shared handler for both /hooks/:event and /api/hooks/:event
-  const handleHook = async (event: string, payload: Record<string, unknown>) => {
+  // Returns the JSON body to send back to the agent
+  const handleHook = async (
+    rawEvent: string,
+    rawPayload: Record<string, unknown>,
+    headerSession?: string,
+    agentName?: string
+  ): Promise<Record<string, unknown>> => {
+    const timestamp = new Date().toISOString();
+
+    // Translate other agents' hook events into Claude Code terms (?agent=, else the session's agent)
+    const agent = resolveAgentName(
+      agentName ?? (headerSession ? state.sessionMeta.get(headerSession)?.agent : undefined),
+      state.agents
+    );
+    const { event, payload } = adaptHookEvent(getHookAdapter(agent ? state.agents[agent] : undefined), rawEvent, rawPayload);
+
+    const [decision, sessionName] = await Promise.all([
+      decide(event, payload),
+      resolveSession(payload, timestamp, headerSession),
+    ]);
     const entry: HookEntry = {
       id: createId("hook"),
-      timestamp: new Date().toISOString(),
+      timestamp,
       event,
       payload,
+      ...(decision ? { decision } : {}),
+      ...(sessionName ? { sessionName } : {}),
     };
 
+    // Permission requests no rule decided are held for the approval queue
+    const held = !decision && state.approvalsEnabled && hookEventName(event, payload) === "PermissionRequest";
+
     // Add to in-memory buffer
     addHookToBuffer(entry);
     state.recentHooks = hooksBuffer;
 
-    // Write to file
-    await appendJsonl(hooksFile(), entry);
+    // Write to file and stream (held hooks are written once decided so the entry records the decision)
+    if (!held) {
+      warnQuarantined(await state.storage.appendHook(entry));
+      state.events.publish({ type: "hook", timestamp, hook: entry });
+    }
 
     // Forward to other servers (fire and forget, but log errors)
     for (const url of state.forwardUrls) {
@@ -1248,35 +1591,78 @@ function createHooksApp(state: WatchState): Hono {
         console.warn(`[agentwatch] Notification failed: ${err instanceof Error ? err.message : String(err)}`);
       });
     }
+
+    if (held) {
+      entry.decision = await requestApproval(state, entry);
+      warnQuarantined(await state.storage.appendHook(entry));
+      state.events.publish({ type: "hook", timestamp, hook: entry });
+    }
+
+    return buildHookResponse(event, payload, entry.decision);
   };
 
   // Support both /hooks/:event and /api/hooks/:event (for Claude Code compatibility)
   app.post("/hooks/:event", async (c) => {
     const event = c.req.param("event");
     const payload = await c.req.json().catch(() => ({}));
-    await handleHook(event, payload);
-    return c.json({});
+    return c.json(await handleHook(event, payload, c.req.header(SESSION_HEADER), c.req.query("agent")));
   });
 
   app.post("/api/hooks/:event", async (c) => {
     const event = c.req.param("event");
     const payload = await c.req.json().catch(() => ({}));
-    await handleHook(event, payload);
-    return c.json({});
+    return c.json(await handleHook(event, payload, c.req.header(SESSION_HEADER), c.req.query("agent")));
+  });
+
+  // Search: ?event=A,B&tool=&session_id=&cwd=&q=&tag=&since=&until=&limit=&cursor=
+  app.get("/hooks", async (c) => {
+    let search: ReturnType<typeof parseHookSearch>;
+    try {
+      search = parseHookSearch(c.req.query());
+    } catch (err) {
+      return c.json({ ok: false, error: err instanceof Error ? err.message : String(err) }, 400);
+    }
+    return c.json({ ok: true, ...(await searchHooks(state.storage, search.query, search.limit)) });
   });
 
   app.get("/hooks/recent", async (c) => {
-    const limit = parseInt(c.req.query("limit") ?? "50", 10);
+    const limit = parseLimitParam(c.req.query("limit"), 50, "limit");
+    if (typeof limit === "string") return c.json({ ok: false, error: limit }, 400);
     const event = c.req.query("event");
 
-    let hooks = await readJsonlTail<HookEntry>(hooksFile(), limit * 2);
-    if (event) hooks = hooks.filter((h) => h.event === event);
+    const hooks = await state.storage.queryHooks({ limit, ...(event ? { events: [event] } : {}) });
 
-    return c.json({ ok: true, hooks: hooks.slice(-limit), total: hooks.length });
+    return c.json({ ok: true, hooks, total: hooks.length });
   });
 
   app.get("/hooks/health", (c) => c.json({ ok: true, service: "agentwatch" }));
 
+  // Live stream of new hooks and session lifecycle changes
+  // Filters: ?type=hook,session &event=PreToolUse,killed &session=PREFIX
+  app.get("/events", (c) => {
+    const filter = parseEventFilter({
+      type: c.req.query("type"),
+      event: c.req.query("event"),
+      session: c.req.query("session"),
+    });
+
+    return streamSSE(c, async (stream) => {
+      const unsubscribe = state.events.subscribe((event, id) => {
+        if (!matchesEventFilter(event, filter)) return;
+        stream.writeSSE({ id: String(id), event: event.type, data: JSON.stringify(event) }).catch(() => {});
+      });
+      stream.onAbort(unsubscribe);
+
+      await stream.write(": connected\n\n");
+      // Keepalive comments so proxies don't drop idle connections
+      while (!stream.aborted) {
+        await stream.sleep(SSE_KEEPALIVE_MS);
+        if (!stream.aborted) await stream.write(": keepalive\n\n");
+      }
+      unsubscribe();
+    });
+  });
+
   // Session management endpoints
   app.get("/sessions", async (c) => {
     const filter = c.req.query("filter");
@@ -1304,8 +1690,11 @@ function createHooksApp(state: WatchState): Hono {
       return c.json({ ok: false, error: "Session not found" }, 404);
     }
 
+    const limit = parseLimitParam(c.req.query("hooks"), 20, "hooks");
+    if (typeof limit === "string") return c.json({ ok: false, error: limit }, 400);
     const entries = await readSessionMeta(state.dataDir).catch(() => []);
     const metaMap = buildSessionMetaMap(entries);
+    const hooks = await readSessionHooks(state.dataDir, session.name, entries, limit);
 
     return c.json({
       ok: true,
@@ -1317,10 +1706,20 @@ function createHooksApp(state: WatchState): Hono {
         activity: session.activity,
         windowList: session.windowList,
         meta: metaMap.get(session.name) ?? null,
+        hooks,
       },
     });
   });
 
+  app.get("/sessions/:name/hooks", async (c) => {
+    const name = c.req.param("name");
+    const limit = parseLimitParam(c.req.query("limit"), 50, "limit");
+    if (typeof limit === "string") return c.json({ ok: false, error: limit }, 400);
+    const entries = await readSessionMeta(state.dataDir).catch(() => []);
+    const hooks = await readSessionHooks(state.dataDir, name, entries, limit);
+    return c.json({ ok: true, hooks, total: hooks.length });
+  });
+
   app.post("/sessions/:name/done", async (c) => {
     const name = c.req.param("name");
     const sessions = await listSessions();
@@ -1337,6 +1736,7 @@ function createHooksApp(state: WatchState): Hono {
     if (!result) {
       return c.json({ ok: false, error: "Failed to mark session done" }, 500);
     }
+    warnQuarantined(result.quarantined);
 
     // Update local state
     state.sessionMeta.set(result.newName, result.entry);
@@ -1365,10 +1765,13 @@ function createHooksApp(state: WatchState): Hono {
     endpoints: [
       "POST /hooks/:event",
       "POST /api/hooks/:event",
+      "GET /hooks",
       "GET /hooks/recent",
       "GET /hooks/health",
+      "GET /events",
       "GET /sessions",
       "GET /sessions/:name",
+      "GET /sessions/:name/hooks",
       "POST /sessions/:name/done",
       "POST /sessions/:name/kill",
     ],
@@ -1377,21 +1780,6 @@ function createHooksApp(state: WatchState): Hono {
   return app;
 }
 
-function setupRawMode(): void {
-  if (process.stdin.isTTY) {
-    process.stdin.setRawMode(true);
-    process.stdin.resume();
-    process.stdin.setEncoding("utf8");
-  }
-}
-
-function cleanupRawMode(): void {
-  if (process.stdin.isTTY) {
-    process.stdin.setRawMode(false);
-  }
-  process.stdout.write(ANSI.showCursor);
-}
-
 async function attachToSession(sessionName: string): Promise<void> {
   cleanupRawMode();
   process.stdout.write(ANSI.clear);
@@ -1412,6 +1800,21 @@ async function refreshState(state: WatchState): Promise<void> {
 
   const entries = await readSessionMeta(state.dataDir).catch(() => []);
   state.sessionMeta = buildSessionMetaMap(entries);
+  const live = new Set(sessions.map((s) => s.name));
+  state.queuedSessions = getQueuedSessions(entries)
+    .filter((meta) => !live.has(meta.sessionName) && (!state.filter || meta.sessionName.startsWith(state.filter)));
+  for (const [sessionId, name] of buildSessionIdMap(entries)) {
+    state.sessionIds.set(sessionId, name);
+  }
+
+  // Publish created/renamed/done/killed changes since the last refresh
+  const snapshot = snapshotSessions(sessions.map((s) => s.name), state.sessionMeta);
+  if (state.sessionSnapshot) {
+    for (const event of diffSessions(state.sessionSnapshot, snapshot, state.sessionMeta)) {
+      state.events.publish(event);
+    }
+  }
+  state.sessionSnapshot = snapshot;
 
   // Build set of active pane PIDs and targets for cleanup
   const activePanePids = new Set<number>();
@@ -1475,7 +1878,7 @@ async function interactiveLoop(state: WatchState): Promise<void> {
   process.stdin.on("data", async (key: string) => {
     const code = key.charCodeAt(0);
     const maxSessionIndex = Math.max(0, state.visibleSessions.length - 1);
-    const maxHookIndex = Math.max(0, state.recentHooks.length - 1);
+    const maxHookIndex = Math.max(0, getDisplayedHooks(state).length - 1);
 
     // Escape closes detail view or help
     if (key === "\x1b" || key === "\x1b\x1b") {
@@ -1645,9 +2048,21 @@ async function interactiveLoop(state: WatchState): Promise<void> {
       return;
     }
 
-    // Tab toggles focus between sessions and hooks
-    if (key === "\t" && state.showHooks && state.hooksEnabled) {
-      state.focusPanel = state.focusPanel === "sessions" ? "hooks" : "sessions";
+    // Tab cycles focus between sessions, approvals and hooks
+    if (key === "\t" && hasRightColumn(state)) {
+      state.focusPanel = nextFocusPanel(state);
+      needsRefresh = true;
+      return;
+    }
+
+    // Approve/deny the selected permission request from any panel
+    if ((key === "y" || key === "n") && state.pendingApprovals.length > 0) {
+      const approval = state.pendingApprovals[state.selectedApprovalIndex];
+      if (approval) {
+        resolveApproval(state, approval.hook.id, key === "y"
+          ? { decision: "allow", source: "user" }
+          : { decision: "deny", reason: "Denied from agentwatch", source: "user" });
+      }
       needsRefresh = true;
       return;
     }
@@ -1656,6 +2071,8 @@ async function interactiveLoop(state: WatchState): Promise<void> {
     if (key === "\x1b[A" || key === "k") {
       if (state.focusPanel === "hooks") {
         state.selectedHookIndex = Math.max(0, state.selectedHookIndex - 1);
+      } else if (state.focusPanel === "approvals") {
+        state.selectedApprovalIndex = Math.max(0, state.selectedApprovalIndex - 1);
       } else {
         state.selectedIndex = Math.max(0, state.selectedIndex - 1);
       }
@@ -1663,6 +2080,8 @@ async function interactiveLoop(state: WatchState): Promise<void> {
     } else if (key === "\x1b[B" || key === "j") {
       if (state.focusPanel === "hooks") {
         state.selectedHookIndex = Math.min(maxHookIndex, state.selectedHookIndex + 1);
+      } else if (state.focusPanel === "approvals") {
+        state.selectedApprovalIndex = Math.min(state.pendingApprovals.length - 1, state.selectedApprovalIndex + 1);
       } else {
         state.selectedIndex = Math.min(maxSessionIndex, state.selectedIndex + 1);
       }
@@ -1681,7 +2100,12 @@ async function interactiveLoop(state: WatchState): Promise<void> {
       needsRefresh = true;
     } else if (key === "h") {
       state.showHooks = !state.showHooks;
-      if (!state.showHooks) state.focusPanel = "sessions";
+      if (!state.showHooks && state.focusPanel === "hooks") state.focusPanel = "sessions";
+      needsRefresh = true;
+    } else if (key === "H") {
+      state.hooksForSelected = !state.hooksForSelected;
+      state.selectedHookIndex = 0;
+      state.hookScrollOffset = 0;
       needsRefresh = true;
     } else if (key === "f") {
       state.agentsOnly = !state.agentsOnly;
@@ -1692,7 +2116,7 @@ async function interactiveLoop(state: WatchState): Promise<void> {
     } else if (key === "r") {
       needsRefresh = true;
     } else if (key === "\r" || key === "\n" || key === "a") {
-      if (state.focusPanel === "hooks" && state.recentHooks.length > 0) {
+      if (state.focusPanel === "hooks" && getDisplayedHooks(state).length > 0) {
         // Show hook detail
         state.showHookDetail = true;
         state.hookScrollOffset = 0;
@@ -1719,6 +2143,7 @@ async function interactiveLoop(state: WatchState): Promise<void> {
         try {
           const result = await markSessionDone(state.dataDir, session.name, meta);
           if (result) {
+            warnQuarantined(result.quarantined);
             state.sessionMeta.set(result.newName, result.entry);
           }
         } catch (err) {
@@ -1755,9 +2180,18 @@ async function interactiveLoop(state: WatchState): Promise<void> {
     }
   });
 
+  let lastApprovalCount = 0;
+
   while (true) {
     const now = Date.now();
 
+    // Redraw when approvals arrive or resolve, and every second while any count down
+    const approvalCount = state.pendingApprovals.length;
+    if (approvalCount !== lastApprovalCount || (approvalCount > 0 && now - lastRefresh >= 1000)) {
+      lastApprovalCount = approvalCount;
+      needsRefresh = true;
+    }
+
     if (needsRefresh || now - lastRefresh >= state.intervalMs) {
       await refreshState(state);
       state.recentHooks = hooksBuffer;
@@ -1803,7 +2237,8 @@ async function nonInteractiveLoop(state: WatchState, once: boolean): Promise<voi
 async function daemonMode(state: WatchState): Promise<void> {
   console.log(`agentwatch hooks server (daemon mode)`);
   console.log(`  Port: ${state.hooksPort}`);
-  console.log(`  Data: ${expandHome(state.dataDir)}/hooks.jsonl`);
+  console.log(`  Data: ${state.storage.backend === "sqlite" ? getSqliteFile(expandHome(state.dataDir)) : getHooksFile(expandHome(state.dataDir))}`);
+  console.log(`  Policy: ${expandHome(state.policyFile)}`);
   if (state.forwardUrls.length > 0) {
     console.log(`  Forwarding to: ${state.forwardUrls.join(", ")}`);
   }
@@ -1812,8 +2247,45 @@ async function daemonMode(state: WatchState): Promise<void> {
   console.log();
   console.log(`Listening on http://localhost:${state.hooksPort}`);
 
-  // Keep process alive
-  await new Promise(() => {});
+  // Poll tmux only while someone is subscribed to /events
+  while (true) {
+    if (state.events.size() > 0) {
+      await pollSessionEvents(state).catch((err) => {
+        console.warn(`[agentwatch] Session poll failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    } else {
+      state.sessionSnapshot = undefined;
+    }
+    await Bun.sleep(state.intervalMs);
+  }
+}
+
+/** Refresh sessions and pane activity for all panes, publishing any changes (daemon mode has no render pass) */
+async function pollSessionEvents(state: WatchState): Promise<void> {
+  await refreshState(state);
+
+  const panes: { sessionName: string; target: string; pid?: number }[] = [];
+  for (const session of state.sessions) {
+    for (const window of session.windowList) {
+      for (const pane of window.panes) {
+        panes.push({
+          sessionName: session.name,
+          target: `${session.name}:${window.index}.${pane.paneIndex}`,
+          pid: pane.panePid,
+        });
+      }
+    }
+  }
+  if (panes.length === 0) return;
+
+  const [captured, processStats] = await Promise.all([
+    capturePanesForActivity(panes.map((p) => p.target), 0),
+    getProcessStatsBatch(panes.flatMap((p) => (p.pid ? [p.pid] : []))),
+  ]);
+  for (const pane of panes) {
+    const stats = pane.pid ? processStats.get(pane.pid) : undefined;
+    trackActivity(state, pane.sessionName, pane.target, captured.hashes.get(pane.target) || "", stats);
+  }
 }
 
 async function main() {
@@ -1832,6 +2304,10 @@ async function main() {
       "hooks-daemon": { type: "boolean" },
       "no-hooks": { type: "boolean" },
       "forward-to": { type: "string", multiple: true },
+      "policy-file": { type: "string" },
+      approvals: { type: "boolean" },
+      "approval-timeout": { type: "string", default: String(DEFAULT_APPROVAL_TIMEOUT_SECONDS) },
+      "approval-fallback": { type: "string", default: "ask" },
       "data-dir": { type: "string", short: "d", default: DEFAULT_DATA_DIR },
       "notify-desktop": { type: "boolean" },
       "notify-webhook": { type: "string" },
@@ -1864,6 +2340,10 @@ Options:
   --no-hooks          Disable embedded hooks server
   --hooks-daemon      Run only hooks server (no TUI, headless)
   --forward-to        Forward hooks to URL (can specify multiple)
+  --policy-file       Policy rules for PreToolUse/PermissionRequest (default: <data-dir>/policy.json)
+  --approvals         Hold PermissionRequest hooks for approval in the TUI
+  --approval-timeout  Seconds to wait for an approval decision (default: ${DEFAULT_APPROVAL_TIMEOUT_SECONDS})
+  --approval-fallback Decision sent on timeout: allow, deny, ask (default: ask)
 
   -d, --data-dir      Data directory (default: ${DEFAULT_DATA_DIR})
   --notify-desktop    Send desktop notifications for hooks
@@ -1882,6 +2362,7 @@ Interactive Keybindings:
   Enter/a   Attach to selected session
   x         Kill selected session
   d         Mark session done
+  y/n       Approve/deny selected permission request (--approvals)
   l         Toggle last-line display
   s         Toggle stats display
   f         Toggle agents-only filter
@@ -1923,12 +2404,35 @@ Examples:
     process.exit(1);
   }
 
+  const approvalTimeoutSeconds = parseInt(values["approval-timeout"]!, 10);
+  if (isNaN(approvalTimeoutSeconds) || approvalTimeoutSeconds < 1 || approvalTimeoutSeconds > MAX_APPROVAL_TIMEOUT_SECONDS) {
+    console.error(`Error: --approval-timeout must be a number of seconds from 1 to ${MAX_APPROVAL_TIMEOUT_SECONDS}`);
+    process.exit(1);
+  }
+
+  const approvalFallback = values["approval-fallback"] as PermissionDecision;
+  if (!["allow", "deny", "ask"].includes(approvalFallback)) {
+    console.error("Error: --approval-fallback must be one of: allow, deny, ask");
+    process.exit(1);
+  }
+
   const forwardUrls = values["forward-to"] ?? [];
   const maxCaptureRaw = parseInt(values["max-capture"]!, 10);
   const maxCapturePanes = Number.isFinite(maxCaptureRaw)
     ? Math.max(0, maxCaptureRaw)
     : DEFAULT_MAX_CAPTURE_PANES;
 
+  let agents: AgentRegistry;
+  let storage: Storage;
+  try {
+    agents = await loadAgentRegistry(values["data-dir"]!);
+    storage = await openStorage(values["data-dir"]!);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+  agentCommands = getAgentCommands(agents);
+
   const state: WatchState = {
     filter: values.filter,
     intervalMs,
@@ -1947,6 +2451,7 @@ Examples:
     templateEditorCursor: 0,
     showHooks: hooksEnabled,
     showHookDetail: false,
+    hooksForSelected: false,
     agentsOnly: !values.all,       // ON by default (filter to agents), --all or -A to show all
     expandAll: !values["no-expand"],  // ON by default (all expanded), --no-expand to collapse
     sortBy,
@@ -1958,13 +2463,24 @@ Examples:
     sessions: [],
     visibleSessions: [],
     sessionMeta: new Map(),
+    queuedSessions: [],
+    sessionIds: new Map(),
     agentCache: new Map(),
     activityState: new Map(),
+    events: createEventBus(),
     recentHooks: [],
     hooksPort,
     hooksEnabled,
     forwardUrls,
     dataDir: values["data-dir"]!,
+    policyFile: values["policy-file"] ?? getPolicyFile(values["data-dir"]!),
+    agents,
+    storage,
+    approvalsEnabled: false,  // enabled below once we know the TUI is interactive
+    approvalTimeoutMs: approvalTimeoutSeconds * 1000,
+    approvalFallback,
+    pendingApprovals: [],
+    selectedApprovalIndex: 0,
     notifyConfig: {
       desktop: values["notify-desktop"] ?? false,
       webhook: values["notify-webhook"],
@@ -1974,10 +2490,12 @@ Examples:
     },
   };
 
-  // Load existing hooks from file into buffer
+  // Load existing hooks from file into buffer, and known session_id links
   if (hooksEnabled) {
-    const hooksFile = `${expandHome(state.dataDir)}/hooks.jsonl`;
-    const existing = await readJsonlTail<HookEntry>(hooksFile, MAX_HOOKS_BUFFER).catch(() => []);
+    const metaEntries = await readSessionMeta(state.dataDir).catch(() => []);
+    state.sessionIds = buildSessionIdMap(metaEntries);
+
+    const existing = await state.storage.queryHooks({ limit: MAX_HOOKS_BUFFER }).catch(() => []);
     hooksBuffer = existing;
     state.recentHooks = hooksBuffer;
   }
@@ -1989,6 +2507,8 @@ Examples:
     server = serve({
       fetch: app.fetch,
       port: hooksPort,
+      // Bun closes requests idle for 10s by default, which would drop held PermissionRequests
+      idleTimeout: SERVER_IDLE_TIMEOUT_SECONDS,
     });
   }
 
@@ -1998,6 +2518,9 @@ Examples:
       console.error("Error: --hooks-daemon requires hooks to be enabled (don't use --no-hooks)");
       process.exit(1);
     }
+    if (values.approvals) {
+      console.error("Warning: --approvals requires the interactive TUI; permission requests will not be held");
+    }
     await daemonMode(state);
     return;
   }
@@ -2006,8 +2529,12 @@ Examples:
   const noInteractive = values["no-interactive"] ?? false;
 
   if (once || noInteractive || !process.stdin.isTTY) {
+    if (values.approvals) {
+      console.error("Warning: --approvals requires the interactive TUI; permission requests will not be held");
+    }
     await nonInteractiveLoop(state, once);
   } else {
+    state.approvalsEnabled = (values.approvals ?? false) && hooksEnabled;
     await interactiveLoop(state);
   }
 }